@@ -0,0 +1,78 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import AdminDashboard from '@/components/AdminDashboard';
+import OrganiserLogin from '@/components/OrganiserLogin';
+import { initializeEnrollmentService, getEnrollmentService } from '@/lib/enrollment';
+import { getOrganiserSession, onOrganiserSessionChange, signOutOrganiser, OrganiserSession } from '@/lib/auth';
+import { startConnectivityMonitoring } from '@/lib/connectivity';
+
+export default function AdminPage() {
+  const [isInitialized, setIsInitialized] = useState(false);
+  const [organiser, setOrganiser] = useState<OrganiserSession | null>(null);
+
+  useEffect(() => {
+    let stopConnectivityMonitoring: (() => void) | undefined;
+    const initialize = async () => {
+      const service = await initializeEnrollmentService();
+      setOrganiser(await getOrganiserSession());
+      setIsInitialized(true);
+      // Sends check-ins made at the door while the laptop was offline once it reconnects
+      stopConnectivityMonitoring = startConnectivityMonitoring();
+      service.startLiveUpdates();
+    };
+    initialize();
+
+    const unsubscribe = onOrganiserSessionChange(setOrganiser);
+    return () => {
+      stopConnectivityMonitoring?.();
+      unsubscribe();
+      getEnrollmentService().stopLiveUpdates();
+    };
+  }, []);
+
+  const handleSignedIn = async () => {
+    setOrganiser(await getOrganiserSession());
+  };
+
+  const handleSignOut = async () => {
+    await signOutOrganiser();
+    setOrganiser(null);
+  };
+
+  if (!isInitialized) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-100 to-white dark:from-black dark:to-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-300">Loading enrollment data...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-100 to-white dark:from-black dark:to-gray-900 py-8 px-4">
+      <div className="max-w-7xl mx-auto">
+        {organiser?.isOrganiser ? (
+          <AdminDashboard organiserEmail={organiser.email} onSignOut={handleSignOut} />
+        ) : organiser ? (
+          <div className="max-w-md mx-auto bg-white dark:bg-black border border-gray-200 dark:border-gray-800 p-6 rounded-lg shadow-lg">
+            <h2 className="text-2xl font-bold mb-2 text-black dark:text-white">Not an organiser</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              {organiser.email} is signed in but is not listed as an organiser. Ask an existing organiser to add you.
+            </p>
+            <button
+              onClick={handleSignOut}
+              className="px-4 py-2 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300"
+            >
+              Sign out
+            </button>
+          </div>
+        ) : (
+          <OrganiserLogin onSignedIn={handleSignedIn} />
+        )}
+      </div>
+    </main>
+  );
+}
@@ -2,12 +2,19 @@
 
 import { useState, useEffect } from 'react';
 import Image from 'next/image';
+import Link from 'next/link';
 import EnrollmentForm from '@/components/EnrollmentForm';
+import ManageEnrollment from '@/components/ManageEnrollment';
 import EnrollmentStats from '@/components/EnrollmentStats';
 import ParticipantList from '@/components/ParticipantList';
-import { initializeEnrollmentService, getEnrollmentService } from '@/lib/enrollment';
+import PendingSync from '@/components/PendingSync';
+import { initializeEnrollmentService, getEnrollmentService, startEnrollmentPreview, stopEnrollmentPreview } from '@/lib/enrollment';
 import { startConnectivityMonitoring } from '@/lib/connectivity';
-import { SESSIONS, DEFAULT_SESSION_ID, SECOND_SESSION_CUTOFF } from '@/types';
+import { getManagementTokenFromUrl } from '@/lib/managementToken';
+import { isOrganiserSignedIn } from '@/lib/auth';
+import { formatEventDate, formatEventDateTime, getPreviewTimeFromUrl } from '@/lib/clock';
+import { getEnrollmentPhase, ENROLLMENT_PHASE_LABELS } from '@/lib/rules';
+import { DEFAULT_SESSION_ID } from '@/types';
 
 export default function Home() {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
@@ -15,20 +22,43 @@ export default function Home() {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showEventInfo, setShowEventInfo] = useState(false);
   const [selectedSessionId, setSelectedSessionId] = useState(DEFAULT_SESSION_ID);
+  const [managementToken, setManagementToken] = useState<string | null>(null);
+  const [previewTime, setPreviewTime] = useState<Date | null>(null);
 
-  const selectedSession = SESSIONS.find(s => s.id === selectedSessionId);
+  const sessions = isInitialized ? getEnrollmentService().getActiveSessions() : [];
+  const selectedSession = sessions.find(s => s.id === selectedSessionId);
 
   useEffect(() => {
+    let stopConnectivityMonitoring: (() => void) | undefined;
     const initialize = async () => {
-      await initializeEnrollmentService();
+      let service = await initializeEnrollmentService();
+
+      // ?preview=<time> shows the page as of that time, for signed-in organisers only
+      const requestedPreview = getPreviewTimeFromUrl();
+      if (requestedPreview && await isOrganiserSignedIn()) {
+        service = await startEnrollmentPreview(requestedPreview);
+        setPreviewTime(requestedPreview);
+      }
+
+      setSelectedSessionId(service.getDefaultSessionId());
+      setManagementToken(getManagementTokenFromUrl());
       setIsInitialized(true);
       
       // Start connectivity monitoring for better error diagnosis
-      if (typeof window !== 'undefined') {
-        startConnectivityMonitoring();
+      if (typeof window !== 'undefined' && !service.getPreviewTime()) {
+        stopConnectivityMonitoring = startConnectivityMonitoring();
       }
+
+      // Keep counts and queue positions current while the page is open
+      service.startLiveUpdates();
     };
     initialize();
+
+    return () => {
+      stopConnectivityMonitoring?.();
+      getEnrollmentService().stopLiveUpdates();
+      stopEnrollmentPreview();
+    };
   }, []);
 
   const handleEnroll = () => {
@@ -97,7 +127,13 @@ export default function Home() {
               Adding women-hours to coding!
             </p>
             
-            <div className="mb-4">
+            {sessions.length === 0 && (
+              <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+                There are no upcoming workshop sessions at the moment. Past sessions have been archived.
+              </p>
+            )}
+
+            <div className={sessions.length === 0 ? 'hidden' : 'mb-4'}>
               <label htmlFor="session-select" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Select Workshop Session:
               </label>
@@ -107,14 +143,9 @@ export default function Home() {
                 onChange={(e) => handleSessionChange(e.target.value)}
                 className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-cgi-purple focus:border-cgi-purple dark:bg-black dark:text-white"
               >
-                {SESSIONS.map((session) => (
+                {sessions.map((session) => (
                   <option key={session.id} value={session.id}>
-                    {session.date.toLocaleDateString('en-GB', { 
-                      weekday: 'long',
-                      year: 'numeric',
-                      month: 'long',
-                      day: 'numeric'
-                    })} • {session.timeSlot}
+                    {formatEventDate(session.date)} • {session.timeSlot} ({ENROLLMENT_PHASE_LABELS[getEnrollmentPhase(session, getEnrollmentService().now())]})
                   </option>
                 ))}
               </select>
@@ -153,17 +184,42 @@ export default function Home() {
               <p className="font-medium text-gray-700 dark:text-gray-300 mb-1">Privacy Notice</p>
               <p className="mb-4">
                 Your name will be displayed on the participant list for event organization. 
-                All participant data will be permanently deleted after the workshop concludes.
+                After the session, your name, diversity quota, participation type and enrollment and check-in 
+                times are kept in an archive that only organisers can see. Your management link and contact 
+                email are deleted.
               </p>
               
               <p className="font-medium text-gray-700 dark:text-gray-300 mb-1">Cancellation Policy</p>
               <p>
-                If you need to cancel, contact Maaret Pyhäjärvi.
+                If you need to cancel, open the management link you received when enrolling, or paste its code 
+                into &quot;Manage My Enrollment&quot;. Your seat is offered to the next person in the waiting queue. 
+                If you lost your link, contact Maaret Pyhäjärvi.
+              </p>
+
+              <p className="mt-4">
+                <Link href="/admin" className="text-xs text-gray-500 hover:text-cgi-purple underline">
+                  Organiser dashboard
+                </Link>
               </p>
             </div>
           </div>
         </div>
 
+        {previewTime && (
+          <div className="bg-blue-50 dark:bg-blue-900/30 border border-blue-300 dark:border-blue-700 p-4 rounded-lg mb-6 text-sm text-blue-800 dark:text-blue-200">
+            <strong>Preview:</strong> this page shows enrollment as it would be on {formatEventDateTime(previewTime)}, with the clock running from there.
+            Enrollments and cancellations made here change only this preview, not the real data.{' '}
+            <Link href="/admin" className="underline">Back to the organiser dashboard</Link>
+          </div>
+        )}
+
+        {!previewTime && !getEnrollmentService().isShared() && (
+          <div className="bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-300 dark:border-yellow-700 p-4 rounded-lg mb-6 text-sm text-yellow-800 dark:text-yellow-200">
+            <strong>Demo mode:</strong> no database is configured, so enrollments are stored in this browser only and other visitors will not see them.
+          </div>
+        )}
+
+        <PendingSync />
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
           <div className="lg:col-span-2">
@@ -175,6 +231,10 @@ export default function Home() {
               selectedSessionId={selectedSessionId}
               onSessionChange={handleSessionChange}
             />
+            <ManageEnrollment
+              onChange={handleEnroll}
+              initialToken={managementToken}
+            />
           </div>
         </div>
 
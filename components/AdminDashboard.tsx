@@ -0,0 +1,283 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Participant, ParticipationType, Session } from '@/types';
+import { getEnrollmentService, AdminActionResult, ParticipantDetails } from '@/lib/enrollment';
+import ExportParticipants from './ExportParticipants';
+import ImportParticipants from './ImportParticipants';
+import DuplicateReport from './DuplicateReport';
+import PreviewControls from './PreviewControls';
+import SessionHistory from './SessionHistory';
+import CheckIn from './CheckIn';
+import { buildSessionsFeed, downloadIcs } from '@/lib/calendar';
+import { formatEventDate } from '@/lib/clock';
+
+interface AdminDashboardProps {
+  organiserEmail: string;
+  onSignOut: () => void;
+}
+
+export default function AdminDashboard({ organiserEmail, onSignOut }: AdminDashboardProps) {
+  const service = getEnrollmentService();
+  const [sessions, setSessions] = useState<Session[]>(service.getActiveSessions());
+  const [, setVersion] = useState(0); // Bumped to re-render after state changes
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ParticipantDetails>({});
+  const [confirmResetId, setConfirmResetId] = useState<string | null>(null);
+  const [checkInSessionId, setCheckInSessionId] = useState<string | null>(null);
+
+  // Re-render on every state change, including live updates from other browsers
+  useEffect(() => {
+    return service.subscribe(() => {
+      setSessions(service.getActiveSessions());
+      setVersion(v => v + 1);
+    });
+  }, [service]);
+
+  const run = async (action: () => Promise<AdminActionResult>) => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      const result = await action();
+      setMessage({ type: result.success ? 'success' : 'error', text: result.message });
+    } catch (error) {
+      console.error('Admin action failed:', error);
+      setMessage({ type: 'error', text: 'Action failed. Please try again.' });
+    }
+    setVersion(v => v + 1);
+    setIsWorking(false);
+  };
+
+  const startEdit = (participant: Participant) => {
+    setEditingId(participant.id);
+    setDraft({
+      name: participant.name,
+      needsDiversityQuota: participant.needsDiversityQuota,
+      participationType: participant.participationType,
+    });
+  };
+
+  const saveEdit = async (participantId: string, sessionId: string) => {
+    await run(() => service.updateParticipant(participantId, sessionId, draft));
+    setEditingId(null);
+  };
+
+  const moveInQueue = (sessionId: string, index: number, offset: number) => {
+    const ids = service.getState(sessionId).waitingQueue.map(p => p.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    run(() => service.reorderQueue(sessionId, ids));
+  };
+
+  const handleReset = (sessionId: string) => {
+    if (confirmResetId !== sessionId) {
+      setConfirmResetId(sessionId);
+      return;
+    }
+    setConfirmResetId(null);
+    run(() => service.resetSession(sessionId));
+  };
+
+  const buttonClass = 'px-2 py-1 text-xs font-medium rounded-md border disabled:opacity-50 disabled:cursor-not-allowed';
+
+  const renderParticipant = (participant: Participant, sessionId: string, inWaitingQueue: boolean, index: number, queueLength: number) => {
+    if (editingId === participant.id) {
+      return (
+        <div key={participant.id} className="border border-cgi-purple/40 p-3 rounded-lg space-y-2">
+          <input
+            type="text"
+            value={draft.name ?? ''}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-black dark:text-white text-sm"
+          />
+          <div className="flex flex-wrap gap-4 text-sm text-gray-700 dark:text-gray-300">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={!!draft.needsDiversityQuota}
+                onChange={(e) => setDraft({ ...draft, needsDiversityQuota: e.target.checked })}
+                className="mr-2 accent-cgi-purple"
+              />
+              Diversity quota
+            </label>
+            <select
+              value={draft.participationType}
+              onChange={(e) => setDraft({ ...draft, participationType: e.target.value as ParticipationType })}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-black dark:text-white"
+            >
+              <option value="local">local</option>
+              <option value="remote">remote</option>
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => saveEdit(participant.id, sessionId)}
+              disabled={isWorking}
+              className={`${buttonClass} border-cgi-purple text-cgi-purple`}
+            >
+              Save
+            </button>
+            <button onClick={() => setEditingId(null)} className={`${buttonClass} border-gray-300 text-gray-600 dark:text-gray-400`}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div key={participant.id} className="border border-gray-200 dark:border-gray-700 p-3 rounded-lg">
+        <div className="flex justify-between items-start gap-2">
+          <div>
+            <div className="font-semibold text-black dark:text-white">
+              {inWaitingQueue && <span className="text-gray-500 mr-2">#{index + 1}</span>}
+              {participant.name}
+            </div>
+            <div className="text-xs text-gray-500 mt-1">
+              {participant.needsDiversityQuota ? 'Diversity Quota' : 'Women/Non-binary'} • {participant.participationType} • {new Date(participant.enrolledAt).toLocaleString()}
+            </div>
+          </div>
+          <div className="flex flex-wrap justify-end gap-1">
+            {inWaitingQueue ? (
+              <>
+                <button onClick={() => moveInQueue(sessionId, index, -1)} disabled={isWorking || index === 0} className={`${buttonClass} border-gray-300 text-gray-700 dark:text-gray-300`} title="Move up">↑</button>
+                <button onClick={() => moveInQueue(sessionId, index, 1)} disabled={isWorking || index === queueLength - 1} className={`${buttonClass} border-gray-300 text-gray-700 dark:text-gray-300`} title="Move down">↓</button>
+                <button onClick={() => run(() => service.promoteParticipant(participant.id, sessionId))} disabled={isWorking} className={`${buttonClass} border-green-600 text-green-700 dark:text-green-400`}>Promote</button>
+              </>
+            ) : (
+              <button onClick={() => run(() => service.demoteParticipant(participant.id, sessionId))} disabled={isWorking} className={`${buttonClass} border-yellow-600 text-yellow-700 dark:text-yellow-400`}>Demote</button>
+            )}
+            <button onClick={() => startEdit(participant)} disabled={isWorking} className={`${buttonClass} border-cgi-purple text-cgi-purple`}>Edit</button>
+            <button onClick={() => run(() => service.removeParticipant(participant.id, sessionId))} disabled={isWorking} className={`${buttonClass} border-cgi-red text-cgi-red`}>Remove</button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Organiser Dashboard</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Signed in as {organiserEmail}</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => run(async () => {
+              await service.refresh();
+              return { success: true, message: 'Data refreshed.' };
+            })}
+            disabled={isWorking}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            Refresh Data
+          </button>
+          <button
+            onClick={() => downloadIcs('vibe-coding-sessions.ics', buildSessionsFeed(sessions))}
+            className="px-4 py-2 text-sm font-medium rounded-md border border-cgi-purple text-cgi-purple"
+          >
+            Calendar (.ics)
+          </button>
+          <button
+            onClick={onSignOut}
+            className="px-4 py-2 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300"
+          >
+            Sign out
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`p-3 rounded-md ${
+            message.type === 'success'
+              ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200'
+              : 'bg-red-100 dark:bg-red-900 text-cgi-red dark:text-red-200 border border-cgi-red'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <ImportParticipants sessions={sessions} />
+
+      <DuplicateReport />
+
+      <PreviewControls sessions={sessions} />
+
+      {sessions.map((session) => {
+        const state = service.getState(session.id);
+        const stats = service.getEnrollmentStats(session.id);
+        return (
+          <section key={session.id} className="bg-white dark:bg-black border border-gray-200 dark:border-gray-800 p-6 rounded-lg shadow-lg">
+            <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2 mb-4">
+              <div>
+                <h2 className="text-2xl font-bold text-black dark:text-white">{session.description || session.id}</h2>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {formatEventDate(session.date)} • {session.timeSlot} • {stats.total} / {stats.capacity} enrolled • {stats.waitingQueueLength} waiting
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setCheckInSessionId(checkInSessionId === session.id ? null : session.id)}
+                  className="px-3 py-1 text-sm font-medium rounded-md border border-green-600 text-green-700 dark:text-green-400"
+                >
+                  {checkInSessionId === session.id ? 'Close check-in' : 'Check-in mode'}
+                </button>
+                <button
+                  onClick={() => run(() => service.sendReminders(session.id))}
+                  disabled={isWorking}
+                  className="px-3 py-1 text-sm font-medium rounded-md border border-cgi-purple text-cgi-purple disabled:opacity-50"
+                >
+                  Send reminders
+                </button>
+                <button
+                  onClick={() => handleReset(session.id)}
+                  disabled={isWorking}
+                  className="px-3 py-1 text-sm font-medium rounded-md bg-cgi-red hover:bg-cgi-red/90 text-white disabled:opacity-50"
+                >
+                  {confirmResetId === session.id ? 'Really remove everyone?' : 'Reset session'}
+                </button>
+              </div>
+            </div>
+
+            {checkInSessionId === session.id ? (
+              <CheckIn sessionId={session.id} onClose={() => setCheckInSessionId(null)} />
+            ) : (
+              <>
+                <div className="mb-4">
+                  <ExportParticipants sessionId={session.id} />
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <div>
+                    <h3 className="font-semibold text-black dark:text-white mb-2">Enrolled ({state.enrolled.length})</h3>
+                    <div className="space-y-2">
+                      {state.enrolled.length === 0
+                        ? <p className="text-sm text-gray-500">No participants enrolled.</p>
+                        : state.enrolled.map((p, index) => renderParticipant(p, session.id, false, index, state.enrolled.length))}
+                    </div>
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-black dark:text-white mb-2">Waiting Queue ({state.waitingQueue.length})</h3>
+                    <div className="space-y-2">
+                      {state.waitingQueue.length === 0
+                        ? <p className="text-sm text-gray-500">No one in the waiting queue.</p>
+                        : state.waitingQueue.map((p, index) => renderParticipant(p, session.id, true, index, state.waitingQueue.length))}
+                    </div>
+                  </div>
+                </div>
+              </>
+            )}
+          </section>
+        );
+      })}
+
+      <SessionHistory />
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Participant } from '@/types';
+import { getEnrollmentService, CheckInResult } from '@/lib/enrollment';
+import { formatNoShowRate, getAttendance, PendingCheckIn } from '@/lib/checkin';
+import { EVENT_TIME_ZONE } from '@/lib/clock';
+
+interface CheckInProps {
+  sessionId: string;
+  onClose: () => void;
+}
+
+const formatCheckInTime = (date: Date) =>
+  date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone: EVENT_TIME_ZONE });
+
+// Door list for the workshop day: tap a name to check them in, let walk-ins in from the waiting queue
+export default function CheckIn({ sessionId, onClose }: CheckInProps) {
+  const service = getEnrollmentService();
+  const [, setVersion] = useState(0); // Bumped to re-render after state changes
+  const [pending, setPending] = useState<PendingCheckIn[]>([]);
+  const [search, setSearch] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    const update = () => {
+      setPending(service.getPendingCheckIns());
+      setVersion(v => v + 1);
+    };
+    update();
+    return service.subscribe(update);
+  }, [service]);
+
+  const run = async (participantId: string, action: () => Promise<CheckInResult>) => {
+    setBusyId(participantId);
+    try {
+      const result = await action();
+      setMessage({ type: result.success ? 'success' : 'error', text: result.message });
+    } catch (error) {
+      console.error('Check-in failed:', error);
+      setMessage({ type: 'error', text: 'Check-in failed. Please try again.' });
+    }
+    setBusyId(null);
+  };
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    const sent = await service.syncCheckIns();
+    setMessage({ type: 'success', text: `${sent} check-in${sent === 1 ? '' : 's'} sent.` });
+    setIsSyncing(false);
+  };
+
+  const session = service.getSession(sessionId);
+  const state = service.getState(sessionId);
+  const attendance = getAttendance(state.enrolled);
+  const pendingIds = new Set(pending.map(entry => entry.participantId));
+  const query = search.trim().toLowerCase();
+  const matches = (p: Participant) => !query || p.name.toLowerCase().includes(query);
+  const byName = (a: Participant, b: Participant) => a.name.localeCompare(b.name, 'fi');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+        <div>
+          <h3 className="text-xl font-bold text-black dark:text-white">Check-in: {session?.description || sessionId}</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {attendance.checkedIn} / {attendance.enrolled} checked in • {attendance.noShows} not arrived • {formatNoShowRate(attendance)}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300"
+        >
+          Back to lists
+        </button>
+      </div>
+
+      {pending.length > 0 && (
+        <div className="flex items-center justify-between gap-4 bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-300 dark:border-yellow-700 p-3 rounded-lg text-sm">
+          <span className="text-yellow-800 dark:text-yellow-200">
+            ⏳ {pending.length} check-in{pending.length === 1 ? '' : 's'} saved on this device, sent automatically when the connection returns
+          </span>
+          <button
+            onClick={handleSyncNow}
+            disabled={isSyncing}
+            className="px-3 py-1 text-sm font-medium rounded-md border border-cgi-purple text-cgi-purple disabled:opacity-50"
+          >
+            {isSyncing ? 'Sending...' : 'Send now'}
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <div
+          className={`p-3 rounded-md text-sm ${
+            message.type === 'success'
+              ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200'
+              : 'bg-red-100 dark:bg-red-900 text-cgi-red dark:text-red-200 border border-cgi-red'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search by name"
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-black dark:text-white"
+      />
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+        {state.enrolled.filter(matches).sort(byName).map((participant) => {
+          const checkedInAt = participant.checkedInAt;
+          return (
+            <button
+              key={participant.id}
+              onClick={() => run(participant.id, () => checkedInAt
+                ? service.undoCheckIn(participant.id, sessionId)
+                : service.checkIn(participant.id, sessionId))}
+              disabled={busyId === participant.id}
+              className={`text-left p-3 rounded-lg border-2 disabled:opacity-50 ${
+                checkedInAt
+                  ? 'border-green-600 bg-green-50 dark:bg-green-900/30'
+                  : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-black'
+              }`}
+            >
+              <div className="font-semibold text-black dark:text-white">
+                {checkedInAt ? '✅' : '⬜'} {participant.name}
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                {participant.participationType}
+                {checkedInAt ? ` • in at ${formatCheckInTime(checkedInAt)} • tap to undo` : ' • tap to check in'}
+                {pendingIds.has(participant.id) && ' • ⏳ not synced'}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+      {state.enrolled.length === 0 && <p className="text-sm text-gray-500">No participants enrolled.</p>}
+
+      <div>
+        <h4 className="font-semibold text-black dark:text-white mb-2">Walk-ins from the waiting queue ({state.waitingQueue.length})</h4>
+        {state.waitingQueue.length === 0 ? (
+          <p className="text-sm text-gray-500">No one in the waiting queue.</p>
+        ) : (
+          <div className="space-y-2">
+            {state.waitingQueue.filter(matches).map((participant) => (
+              <div key={participant.id} className="flex items-center justify-between gap-2 border border-gray-200 dark:border-gray-700 p-3 rounded-lg">
+                <div className="text-sm text-black dark:text-white">
+                  <span className="text-gray-500 mr-2">#{state.waitingQueue.indexOf(participant) + 1}</span>
+                  {participant.name} <span className="text-xs text-gray-500">• {participant.participationType}</span>
+                </div>
+                <button
+                  onClick={() => run(participant.id, () => service.checkInWalkIn(participant.id, sessionId))}
+                  disabled={busyId === participant.id}
+                  className="px-2 py-1 text-xs font-medium rounded-md border border-green-600 text-green-700 dark:text-green-400 disabled:opacity-50"
+                >
+                  Let in and check in
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useState } from 'react';
+import { getEnrollmentService } from '@/lib/enrollment';
+import { DuplicateGroup } from '@/lib/duplicates';
+
+export default function DuplicateReport() {
+  const service = getEnrollmentService();
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    setGroups(await service.getDuplicateReport());
+    setIsChecking(false);
+  };
+
+  const sessionLabel = (sessionId: string) => service.getSession(sessionId)?.description || sessionId;
+
+  return (
+    <section className="bg-white dark:bg-black border border-gray-200 dark:border-gray-800 p-6 rounded-lg shadow-lg">
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <h2 className="text-2xl font-bold text-black dark:text-white">Suspected Duplicates</h2>
+        <button
+          onClick={handleCheck}
+          disabled={isChecking}
+          className="px-3 py-1 text-sm font-medium rounded-md border border-cgi-purple text-cgi-purple disabled:opacity-50"
+        >
+          {isChecking ? 'Checking...' : 'Check for duplicates'}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Participants sharing a name (ignoring case, accents and extra spaces) or an email. The same person in two
+        different sessions may be intended; the same session usually is not.
+      </p>
+
+      {groups && groups.length === 0 && (
+        <p className="text-sm text-gray-500">No suspected duplicates.</p>
+      )}
+
+      {groups && groups.length > 0 && (
+        <ul className="space-y-3">
+          {groups.map(group => (
+            <li
+              key={`${group.matchedOn}-${group.key}`}
+              className={`border p-3 rounded-lg text-sm ${group.sameSession ? 'border-cgi-red' : 'border-gray-200 dark:border-gray-700'}`}
+            >
+              <div className="font-semibold text-black dark:text-white">
+                Same {group.matchedOn}: {group.key}
+                {group.sameSession && <span className="ml-2 text-cgi-red">(same session)</span>}
+              </div>
+              <ul className="mt-1 text-gray-700 dark:text-gray-300">
+                {group.entries.map(entry => (
+                  <li key={entry.participant.id}>
+                    {entry.participant.name} • {sessionLabel(entry.sessionId)} • {entry.inWaitingQueue ? 'waiting' : 'enrolled'} • {entry.participant.enrolledAt.toLocaleString()}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -1,21 +1,11 @@
 'use client';
 
 import { useState, FormEvent, useEffect } from 'react';
-import { ParticipationType, SESSIONS, DEFAULT_SESSION_ID } from '@/types';
-import { getEnrollmentService } from '@/lib/enrollment';
-
-// Second session restriction configuration (matches enrollment.ts)
-const SECOND_SESSION_RESTRICTION = {
-  cutoffDate: new Date('2026-02-10T08:00:00+02:00'), // Feb 10, 2026, 8 AM Finnish time (UTC+2)
-  restrictedSessionId: 'session-2',
-  maxWaitingQueuePosition: 17 // Only first 17 in waiting queue can enroll to second session
-};
-
-// Helper function to check if we're still in the restriction period
-function isSecondSessionRestricted(): boolean {
-  const now = new Date();
-  return now < SECOND_SESSION_RESTRICTION.cutoffDate;
-}
+import { ParticipationType, DEFAULT_SESSION_ID } from '@/types';
+import { getEnrollmentService, QUOTA_TRACK_LABELS } from '@/lib/enrollment';
+import { describeActiveRules, getEnrollmentPhase, getEnrollmentWindow, ENROLLMENT_PHASE_LABELS } from '@/lib/rules';
+import { buildIcsFilename, buildSessionIcs, downloadIcs } from '@/lib/calendar';
+import { EVENT_TIME_ZONE, formatCountdown, formatEventDate } from '@/lib/clock';
 
 interface EnrollmentFormProps {
   onEnroll: () => void;
@@ -27,12 +17,25 @@ export default function EnrollmentForm({ onEnroll, selectedSessionId, onSessionC
   const [name, setName] = useState('');
   const [needsDiversityQuota, setNeedsDiversityQuota] = useState<boolean>(false);
   const [participationType, setParticipationType] = useState<ParticipationType>('local');
+  const [acceptsRemoteFallback, setAcceptsRemoteFallback] = useState(false);
+  const [contactEmail, setContactEmail] = useState('');
+  const [emailConsent, setEmailConsent] = useState(false);
   const [sessionId, setSessionId] = useState(selectedSessionId || DEFAULT_SESSION_ID);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [management, setManagement] = useState<{ token: string; link: string } | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  // Set after a successful enrollment into a seat (not the waiting queue) so the invite can be downloaded
+  const [calendarInvite, setCalendarInvite] = useState<{ sessionId: string; participationType: ParticipationType } | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [showRestrictionWarning, setShowRestrictionWarning] = useState(false);
+  const [now, setNow] = useState(() => getEnrollmentService().now());
 
-  const selectedSession = SESSIONS.find(s => s.id === sessionId);
+  // Archived sessions are not offered, but a selected one that gets archived while the page is open stays selected
+  const sessions = getEnrollmentService().getActiveSessions();
+  const selectedSession = getEnrollmentService().getSession(sessionId);
+  const phase = selectedSession ? getEnrollmentPhase(selectedSession, now) : 'open';
+  const opensAt = selectedSession && getEnrollmentWindow(selectedSession).opensAt;
+  // Priority windows and the enrollment window in effect for the selected session
+  const ruleNotices = selectedSession ? describeActiveRules(selectedSession, getEnrollmentService().getSessions(), now) : [];
 
   // Update local sessionId when selectedSessionId prop changes
   useEffect(() => {
@@ -41,16 +44,33 @@ export default function EnrollmentForm({ onEnroll, selectedSessionId, onSessionC
     }
   }, [selectedSessionId, sessionId]);
 
-  // Update restriction warning when session changes
+  // Tick every second so the countdown, phase labels and notices follow the service clock (which may be a preview)
   useEffect(() => {
-    const shouldShowWarning = sessionId === SECOND_SESSION_RESTRICTION.restrictedSessionId && isSecondSessionRestricted();
-    setShowRestrictionWarning(shouldShowWarning);
-  }, [sessionId]);
+    const timer = setInterval(() => setNow(getEnrollmentService().now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const submitLabel = () => {
+    if (isSubmitting) return 'Enrolling...';
+    switch (phase) {
+      case 'upcoming':
+        return `Enrollment opens in ${formatCountdown((opensAt as Date).getTime() - now.getTime())}`;
+      case 'closed':
+        return 'Enrollment closed';
+      case 'past':
+        return 'This session has already taken place';
+      default:
+        return 'Enroll';
+    }
+  };
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
     setMessage(null);
+    setManagement(null);
+    setLinkCopied(false);
+    setCalendarInvite(null);
 
     try {
       const service = getEnrollmentService();
@@ -58,13 +78,27 @@ export default function EnrollmentForm({ onEnroll, selectedSessionId, onSessionC
         name,
         needsDiversityQuota,
         participationType,
+        acceptsRemoteFallback: participationType === 'local' && acceptsRemoteFallback,
         sessionId,
+        contactEmail: emailConsent ? contactEmail : undefined,
+        emailConsentAt: emailConsent && contactEmail.trim() ? new Date() : undefined,
       });
 
       if (result.success) {
-        setMessage({ type: 'success', text: result.message });
+        const queueNote = result.queuePosition && result.quotaTrack
+          ? ` You are number ${result.queuePosition} in the queue, on the ${QUOTA_TRACK_LABELS[result.quotaTrack]} track.`
+          : '';
+        setMessage({ type: 'success', text: result.message + queueNote });
+        if (result.managementToken && result.managementLink) {
+          setManagement({ token: result.managementToken, link: result.managementLink });
+        }
+        if (result.participationType && !result.addedToQueue) {
+          setCalendarInvite({ sessionId, participationType: result.participationType });
+        }
         setName('');
         setNeedsDiversityQuota(false);
+        setContactEmail('');
+        setEmailConsent(false);
         onEnroll();
       } else {
         // Provide specific error messages based on error type
@@ -101,6 +135,23 @@ export default function EnrollmentForm({ onEnroll, selectedSessionId, onSessionC
     setIsSubmitting(false);
   };
 
+  const handleDownloadInvite = () => {
+    const session = calendarInvite && getEnrollmentService().getSession(calendarInvite.sessionId);
+    if (calendarInvite && session) {
+      downloadIcs(buildIcsFilename(session), buildSessionIcs(session, calendarInvite.participationType));
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!management) return;
+    try {
+      await navigator.clipboard.writeText(management.link);
+      setLinkCopied(true);
+    } catch (error) {
+      console.warn('Failed to copy management link:', error);
+    }
+  };
+
   const handleSessionChange = (newSessionId: string) => {
     setSessionId(newSessionId);
     if (onSessionChange) {
@@ -112,12 +163,7 @@ export default function EnrollmentForm({ onEnroll, selectedSessionId, onSessionC
     <form onSubmit={handleSubmit} className="bg-white dark:bg-black border border-gray-200 dark:border-gray-800 p-6 rounded-lg shadow-lg">
       <h2 className="text-2xl font-bold mb-2 text-black dark:text-white">Enroll for Workshop</h2>
       <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-        Event Date: {selectedSession?.date.toLocaleDateString('en-GB', { 
-          weekday: 'long',
-          year: 'numeric',
-          month: 'long',
-          day: 'numeric'
-        })} • {selectedSession?.timeSlot}
+        Event Date: {selectedSession && formatEventDate(selectedSession.date)} • {selectedSession?.timeSlot}
       </p>
       
       <div className="space-y-4">
@@ -132,33 +178,25 @@ export default function EnrollmentForm({ onEnroll, selectedSessionId, onSessionC
             required
             className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-cgi-purple focus:border-cgi-purple dark:bg-black dark:text-white"
           >
-            {SESSIONS.map((session) => (
+            {sessions.map((session) => (
               <option key={session.id} value={session.id}>
-                {session.date.toLocaleDateString('en-GB', { 
+                {session.date.toLocaleDateString('en-GB', {
                   month: 'long',
-                  day: 'numeric'
-                })} • {session.timeSlot}
+                  day: 'numeric',
+                  timeZone: EVENT_TIME_ZONE
+                })} • {session.timeSlot} ({ENROLLMENT_PHASE_LABELS[getEnrollmentPhase(session, now)]})
               </option>
             ))}
           </select>
         </div>
 
-        {showRestrictionWarning && (
-          <div className="p-3 rounded-md bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 border border-yellow-300 dark:border-yellow-700">
+        {ruleNotices.map((notice) => (
+          <div key={notice} className="p-3 rounded-md bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 border border-yellow-300 dark:border-yellow-700">
             <p className="text-sm">
-              <strong>⚠️ Notice:</strong> Until {SECOND_SESSION_RESTRICTION.cutoffDate.toLocaleDateString('en-GB', {
-                weekday: 'long',
-                year: 'numeric',
-                month: 'long', 
-                day: 'numeric',
-                hour: '2-digit',
-                minute: '2-digit',
-                timeZoneName: 'short'
-              })}, only the first {SECOND_SESSION_RESTRICTION.maxWaitingQueuePosition} participants from the first session waiting queue can enroll directly to the second session. 
-              Others will be added to the second session waiting queue, or will receive a notice if they are already in the queue system.
+              <strong>⚠️ Notice:</strong> {notice}
             </p>
           </div>
-        )}
+        ))}
         
         <div>
           <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -174,6 +212,34 @@ export default function EnrollmentForm({ onEnroll, selectedSessionId, onSessionC
           />
         </div>
 
+        <div>
+          <label htmlFor="contactEmail" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Email (optional)
+          </label>
+          <input
+            type="email"
+            id="contactEmail"
+            value={contactEmail}
+            onChange={(e) => setContactEmail(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-cgi-purple focus:border-cgi-purple dark:bg-black dark:text-white"
+          />
+          {contactEmail.trim() && (
+            <label className="flex items-start mt-2">
+              <input
+                type="checkbox"
+                checked={emailConsent}
+                onChange={(e) => setEmailConsent(e.target.checked)}
+                required
+                className="mr-2 mt-1 accent-cgi-purple"
+              />
+              <span className="text-sm text-gray-700 dark:text-gray-300">
+                I agree to receive emails about this enrollment (confirmation, waiting queue, promotion, cancellation and a reminder).
+                The email is only visible to the organisers and is deleted after I cancel.
+              </span>
+            </label>
+          )}
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
             Do you need to use the diversity quota reserved only for men? *
@@ -218,6 +284,17 @@ export default function EnrollmentForm({ onEnroll, selectedSessionId, onSessionC
             <option value="local">Local, at Karvaamokuja</option>
             <option value="remote">Remote, in Teams</option>
           </select>
+          {participationType === 'local' && (
+            <label className="flex items-center mt-2">
+              <input
+                type="checkbox"
+                checked={acceptsRemoteFallback}
+                onChange={(e) => setAcceptsRemoteFallback(e.target.checked)}
+                className="mr-2 accent-cgi-purple"
+              />
+              <span className="text-sm text-gray-700 dark:text-gray-300">Happy to go remote if the room is full</span>
+            </label>
+          )}
         </div>
 
         {message && (
@@ -229,15 +306,46 @@ export default function EnrollmentForm({ onEnroll, selectedSessionId, onSessionC
             }`}
           >
             {message.text}
+            {calendarInvite && (
+              <button
+                type="button"
+                onClick={handleDownloadInvite}
+                className="block mt-2 px-3 py-1 text-xs font-medium rounded-md border border-green-700 dark:border-green-300 hover:bg-green-200/50 dark:hover:bg-green-800"
+              >
+                Add to calendar (.ics)
+              </button>
+            )}
+          </div>
+        )}
+
+        {management && (
+          <div className="p-3 rounded-md bg-gray-100 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 text-sm text-gray-700 dark:text-gray-300 space-y-2">
+            <p>
+              <strong>Save your management link.</strong> It is shown only once and lets you check your status, 
+              switch between local and remote, or cancel your spot.
+            </p>
+            <a href={management.link} className="block break-all text-cgi-purple underline">
+              {management.link}
+            </a>
+            <p>
+              Management code: <code className="font-mono break-all">{management.token}</code>
+            </p>
+            <button
+              type="button"
+              onClick={handleCopyLink}
+              className="px-3 py-1 text-xs font-medium rounded-md border border-cgi-purple text-cgi-purple hover:bg-cgi-purple/10"
+            >
+              {linkCopied ? 'Copied!' : 'Copy link'}
+            </button>
           </div>
         )}
 
         <button
           type="submit"
-          disabled={isSubmitting}
+          disabled={isSubmitting || phase !== 'open'}
           className="w-full bg-cgi-purple hover:bg-cgi-purple/90 disabled:bg-gray-400 text-white font-semibold py-2 px-4 rounded-md transition-colors duration-200"
         >
-          {isSubmitting ? 'Enrolling...' : 'Enroll'}
+          {submitLabel()}
         </button>
       </div>
     </form>
@@ -16,6 +16,9 @@ export default function EnrollmentStats({ refreshTrigger, sessionId = DEFAULT_SE
     const service = getEnrollmentService();
     service.setCurrentSession(sessionId);
     setStats(service.getEnrollmentStats(sessionId));
+
+    // Live updates from other browsers
+    return service.subscribe(() => setStats(service.getEnrollmentStats(sessionId)));
   }, [refreshTrigger, sessionId]);
 
   return (
@@ -25,12 +28,12 @@ export default function EnrollmentStats({ refreshTrigger, sessionId = DEFAULT_SE
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
         <div className="bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-800 p-4 rounded-lg">
           <div className="text-sm font-medium text-cgi-purple dark:text-cgi-purple">Total Enrolled</div>
-          <div className="text-3xl font-bold text-black dark:text-white">{stats.total} / {20}</div>
+          <div className="text-3xl font-bold text-black dark:text-white">{stats.total} / {stats.capacity}</div>
         </div>
 
         <div className="bg-cgi-purple/10 dark:bg-cgi-purple/20 border border-cgi-purple/30 p-4 rounded-lg">
           <div className="text-sm font-medium text-cgi-purple dark:text-cgi-purple">Diversity Quota (Men)</div>
-          <div className="text-3xl font-bold text-cgi-purple dark:text-cgi-purple">{stats.men} / {3}</div>
+          <div className="text-3xl font-bold text-cgi-purple dark:text-cgi-purple">{stats.men} / {stats.menQuota}</div>
           <div className="text-xs text-cgi-purple dark:text-cgi-purple mt-1">
             {stats.menQuotaRemaining > 0 ? `${stats.menQuotaRemaining} quota spots remaining` : 'Quota filled'}
           </div>
@@ -38,7 +41,7 @@ export default function EnrollmentStats({ refreshTrigger, sessionId = DEFAULT_SE
 
         <div className="bg-cgi-red/10 dark:bg-cgi-red/20 border border-cgi-red/30 p-4 rounded-lg">
           <div className="text-sm font-medium text-cgi-red dark:text-cgi-red">Women & Non-binary</div>
-          <div className="text-3xl font-bold text-cgi-red dark:text-cgi-red">{stats.women} / {17}</div>
+          <div className="text-3xl font-bold text-cgi-red dark:text-cgi-red">{stats.women} / {stats.womenNonBinarySpots}</div>
           <div className="text-xs text-cgi-red dark:text-cgi-red mt-1">
             {stats.womenNonBinarySpotsRemaining > 0 ? `${stats.womenNonBinarySpotsRemaining} spots remaining` : 'Spots filled'}
           </div>
@@ -57,19 +60,28 @@ export default function EnrollmentStats({ refreshTrigger, sessionId = DEFAULT_SE
         <div className="bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-800 p-4 rounded-lg">
           <div className="text-sm font-medium text-gray-600 dark:text-gray-400">Participation</div>
           <div className="text-lg font-semibold text-black dark:text-white">
-            Local: {stats.local} | Remote: {stats.remote}
+            Local: {stats.local}{stats.localCapacity !== undefined && ` / ${stats.localCapacity}`} | Remote: {stats.remote}{stats.remoteCapacity !== undefined && ` / ${stats.remoteCapacity}`}
           </div>
+          {stats.localSpotsRemaining !== null && stats.localSpotsRemaining <= 0 && (
+            <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">The room is full</div>
+          )}
         </div>
       </div>
 
       <div className="bg-gray-100 dark:bg-gray-900 border border-gray-200 dark:border-gray-800 p-4 rounded-lg">
         <h3 className="font-semibold text-black dark:text-white mb-2">Enrollment Rules:</h3>
         <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-1 list-disc list-inside">
-          <li>Total capacity: 20 participants</li>
-          <li>3 spots reserved for diversity quota (men)</li>
-          <li>17 spots for women and non-binary participants</li>
-          <li>When more than 17 women try to enroll, they are added to the waiting queue</li>
-          <li>When more than 3 men try to enroll, they are informed that spots have been filled</li>
+          <li>Total capacity: {stats.capacity} participants</li>
+          <li>{stats.menQuota} spots reserved for diversity quota (men)</li>
+          <li>{stats.womenNonBinarySpots} spots for women and non-binary participants</li>
+          <li>When more than {stats.womenNonBinarySpots} women try to enroll, they are added to the waiting queue</li>
+          <li>When more than {stats.menQuota} men try to enroll, they are informed that spots have been filled</li>
+          {stats.localCapacity !== undefined && (
+            <li>{stats.localCapacity} seats in the room; when the room is full, local participants can go remote or join the waiting queue</li>
+          )}
+          {stats.remoteCapacity !== undefined && (
+            <li>{stats.remoteCapacity} remote seats</li>
+          )}
         </ul>
       </div>
     </div>
@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { ParticipationType } from '@/types';
+import { getEnrollmentService } from '@/lib/enrollment';
+import { buildExportFilename, buildParticipantCsv, downloadCsv, ExportStatusFilter } from '@/lib/export';
+
+interface ExportParticipantsProps {
+  sessionId: string;
+}
+
+export default function ExportParticipants({ sessionId }: ExportParticipantsProps) {
+  const [status, setStatus] = useState<ExportStatusFilter>('all');
+  const [participationType, setParticipationType] = useState<ParticipationType | 'all'>('all');
+  const [excelCompatible, setExcelCompatible] = useState(false);
+
+  const handleExport = () => {
+    const options = { status, participationType, excelCompatible };
+    const csv = buildParticipantCsv(getEnrollmentService().getState(sessionId), options);
+    downloadCsv(buildExportFilename(sessionId, options), csv);
+  };
+
+  const selectClass = 'px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-black dark:text-white';
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+      <select value={status} onChange={(e) => setStatus(e.target.value as ExportStatusFilter)} className={selectClass}>
+        <option value="all">Enrolled and waiting</option>
+        <option value="enrolled">Enrolled only</option>
+        <option value="waiting">Waiting only</option>
+      </select>
+      <select
+        value={participationType}
+        onChange={(e) => setParticipationType(e.target.value as ParticipationType | 'all')}
+        className={selectClass}
+      >
+        <option value="all">Local and remote</option>
+        <option value="local">Local only</option>
+        <option value="remote">Remote only</option>
+      </select>
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={excelCompatible}
+          onChange={(e) => setExcelCompatible(e.target.checked)}
+          className="mr-2 accent-cgi-purple"
+        />
+        Excel format
+      </label>
+      <button
+        onClick={handleExport}
+        className="px-3 py-1 text-sm font-medium rounded-md border border-cgi-purple text-cgi-purple"
+      >
+        Export CSV
+      </button>
+    </div>
+  );
+}
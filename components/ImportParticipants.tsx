@@ -0,0 +1,156 @@
+'use client';
+
+import { ChangeEvent, useState } from 'react';
+import { Session } from '@/types';
+import { getEnrollmentService, ImportRowOutcome } from '@/lib/enrollment';
+import { parseParticipantCsv, ImportRowError, ParticipantImportRow } from '@/lib/import';
+
+interface ImportParticipantsProps {
+  sessions: Session[];
+}
+
+export default function ImportParticipants({ sessions }: ImportParticipantsProps) {
+  const service = getEnrollmentService();
+  const [defaultSessionId, setDefaultSessionId] = useState(sessions[0]?.id ?? '');
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [rows, setRows] = useState<ParticipantImportRow[]>([]);
+  const [errors, setErrors] = useState<ImportRowError[]>([]);
+  const [outcomes, setOutcomes] = useState<ImportRowOutcome[]>([]);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isPreviewed, setIsPreviewed] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const reset = () => {
+    setRows([]);
+    setErrors([]);
+    setOutcomes([]);
+    setMessage(null);
+    setIsPreviewed(false);
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    reset();
+    const file = e.target.files?.[0];
+    setFileText(file ? await file.text() : null);
+  };
+
+  const handlePreview = async () => {
+    if (fileText === null) return;
+    setIsWorking(true);
+    const parsed = parseParticipantCsv(fileText, sessions.map(s => s.id), defaultSessionId);
+    const result = await service.importParticipants(parsed.rows, true);
+    setRows(parsed.rows);
+    setErrors(parsed.errors);
+    setOutcomes(result.outcomes);
+    setMessage({
+      type: parsed.errors.length > 0 ? 'error' : 'success',
+      text: parsed.errors.length > 0
+        ? `${parsed.errors.length} row(s) have errors. Fix the file and preview again before importing.`
+        : result.message
+    });
+    setIsPreviewed(true);
+    setIsWorking(false);
+  };
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    const result = await service.importParticipants(rows, false);
+    setOutcomes(result.outcomes);
+    setMessage({ type: result.success ? 'success' : 'error', text: result.message });
+    if (result.success) {
+      setIsPreviewed(false);
+      setRows([]);
+    }
+    setIsWorking(false);
+  };
+
+  const placementClass = (placement: ImportRowOutcome['placement']) =>
+    placement === 'enrolled' ? 'text-green-700 dark:text-green-400'
+      : placement === 'queued' ? 'text-yellow-700 dark:text-yellow-400'
+        : 'text-cgi-red';
+
+  return (
+    <section className="bg-white dark:bg-black border border-gray-200 dark:border-gray-800 p-6 rounded-lg shadow-lg">
+      <h2 className="text-2xl font-bold mb-2 text-black dark:text-white">Import Participants</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        CSV with columns <code>name</code>, <code>diversity quota</code> (yes/no), <code>participation type</code> (local/remote)
+        and optionally <code>session</code> and <code>remote fallback</code>. Rows are placed in file order with the normal quota rules.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-gray-300 mb-4">
+        <input type="file" accept=".csv,text/csv" onChange={handleFile} />
+        <label className="flex items-center gap-2">
+          Default session
+          <select
+            value={defaultSessionId}
+            onChange={(e) => { setDefaultSessionId(e.target.value); reset(); }}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-black dark:text-white"
+          >
+            {sessions.map(session => (
+              <option key={session.id} value={session.id}>{session.description || session.id}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handlePreview}
+          disabled={isWorking || fileText === null}
+          className="px-3 py-1 text-sm font-medium rounded-md border border-cgi-purple text-cgi-purple disabled:opacity-50"
+        >
+          Preview
+        </button>
+        <button
+          onClick={handleImport}
+          disabled={isWorking || !isPreviewed || errors.length > 0 || rows.length === 0}
+          className="px-3 py-1 text-sm font-medium rounded-md text-white bg-cgi-purple disabled:opacity-50"
+        >
+          Import {rows.length > 0 ? `${rows.length} row(s)` : ''}
+        </button>
+      </div>
+
+      {message && (
+        <div
+          className={`p-3 rounded-md mb-4 ${
+            message.type === 'success'
+              ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200'
+              : 'bg-red-100 dark:bg-red-900 text-cgi-red dark:text-red-200 border border-cgi-red'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="mb-4 space-y-1 text-sm text-cgi-red">
+          {errors.map(error => (
+            <li key={error.line}>Line {error.line}: {error.message}</li>
+          ))}
+        </ul>
+      )}
+
+      {outcomes.length > 0 && (
+        <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              <th className="py-1">Line</th>
+              <th className="py-1">Name</th>
+              <th className="py-1">Session</th>
+              <th className="py-1">Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {outcomes.map(outcome => (
+              <tr key={outcome.line} className="border-b border-gray-100 dark:border-gray-800">
+                <td className="py-1">{outcome.line}</td>
+                <td className="py-1">{outcome.name}</td>
+                <td className="py-1">{outcome.sessionId}</td>
+                <td className={`py-1 ${placementClass(outcome.placement)}`}>
+                  {outcome.placement} ({outcome.participationType}) – {outcome.message}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
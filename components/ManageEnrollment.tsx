@@ -0,0 +1,244 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { ParticipationType } from '@/types';
+import { getEnrollmentService, ManagedEnrollment, QueueStatus, QUOTA_TRACK_LABELS } from '@/lib/enrollment';
+import { formatRuleDate } from '@/lib/rules';
+import { EVENT_TIME_ZONE } from '@/lib/clock';
+
+interface ManageEnrollmentProps {
+  onChange: () => void;
+  initialToken?: string | null;
+}
+
+export default function ManageEnrollment({ onChange, initialToken }: ManageEnrollmentProps) {
+  const [token, setToken] = useState(initialToken || '');
+  const [enrollment, setEnrollment] = useState<ManagedEnrollment | null>(null);
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
+  const [confirmingCancel, setConfirmingCancel] = useState(false);
+  const [contactEmail, setContactEmail] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const session = enrollment ? getEnrollmentService().getSession(enrollment.sessionId) : undefined;
+
+  const lookUp = async (value: string) => {
+    const match = await getEnrollmentService().findByManagementToken(value);
+    setEnrollment(match);
+    setQueueStatus(match ? getEnrollmentService().describeQueueStatus(match) : null);
+    setConfirmingCancel(false);
+    if (!match && await getEnrollmentService().findPendingByManagementToken(value)) {
+      setMessage({ type: 'success', text: 'This enrollment is saved on this device and waiting to be sent. Check again once the connection is back.' });
+    } else if (!match) {
+      setMessage({ type: 'error', text: 'No enrollment found for this management link. It may have been cancelled already.' });
+    }
+    return match;
+  };
+
+  // Open straight into the enrollment when arriving through a management link
+  useEffect(() => {
+    if (initialToken) {
+      setToken(initialToken);
+      lookUp(initialToken);
+    }
+  }, [initialToken]);
+
+  const handleLookUp = async (e: FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    await lookUp(token);
+  };
+
+  const handleParticipationTypeChange = async (participationType: ParticipationType) => {
+    setIsWorking(true);
+    setMessage(null);
+    const result = await getEnrollmentService().changeParticipationType(token, participationType);
+    setMessage({ type: result.success ? 'success' : 'error', text: result.message });
+    if (result.success) {
+      await lookUp(token);
+      onChange();
+    }
+    setIsWorking(false);
+  };
+
+  // Saving an email here is the consent; removing it withdraws consent
+  const handleContactEmail = async (email: string | null) => {
+    setIsWorking(true);
+    setMessage(null);
+    const result = await getEnrollmentService().updateContactEmail(token, email);
+    setMessage({ type: result.success ? 'success' : 'error', text: result.message });
+    if (result.success) {
+      setContactEmail('');
+    }
+    setIsWorking(false);
+  };
+
+  const handleCancel = async () => {
+    // Ask once more before actually giving the seat away
+    if (!confirmingCancel) {
+      setConfirmingCancel(true);
+      return;
+    }
+
+    setIsWorking(true);
+    setMessage(null);
+    const result = await getEnrollmentService().cancelWithManagementToken(token);
+    setMessage({ type: result.success ? 'success' : 'error', text: result.message });
+    if (result.success) {
+      setEnrollment(null);
+      setQueueStatus(null);
+      onChange();
+    }
+    setConfirmingCancel(false);
+    setIsWorking(false);
+  };
+
+  return (
+    <div className="bg-white dark:bg-black border border-gray-200 dark:border-gray-800 p-6 rounded-lg shadow-lg mt-6">
+      <h2 className="text-2xl font-bold mb-2 text-black dark:text-white">Manage My Enrollment</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Use the management link or code you received when enrolling.
+      </p>
+
+      <form onSubmit={handleLookUp} className="space-y-4">
+        <div>
+          <label htmlFor="management-token" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Management code *
+          </label>
+          <input
+            type="text"
+            id="management-token"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            required
+            autoComplete="off"
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-cgi-purple focus:border-cgi-purple dark:bg-black dark:text-white font-mono text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          className="w-full bg-cgi-purple hover:bg-cgi-purple/90 text-white font-semibold py-2 px-4 rounded-md transition-colors duration-200"
+        >
+          Look up
+        </button>
+      </form>
+
+      {enrollment && (
+        <div className="mt-4 space-y-4">
+          <div className="bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-800 p-4 rounded-lg text-sm text-gray-700 dark:text-gray-300">
+            <div className="font-semibold text-black dark:text-white">{enrollment.participant.name}</div>
+            <div>
+              {session?.date.toLocaleDateString('en-GB', {
+                month: 'long',
+                day: 'numeric',
+                timeZone: EVENT_TIME_ZONE
+              })} • {session?.timeSlot}
+            </div>
+            <div className="mt-1">
+              {enrollment.inWaitingQueue
+                ? `In waiting queue, position ${enrollment.queuePosition}`
+                : 'Enrolled'}
+            </div>
+            {queueStatus && (
+              <div className="mt-2 space-y-1">
+                <div>
+                  Queued on the {QUOTA_TRACK_LABELS[queueStatus.quotaTrack]} track for a {queueStatus.participationType} seat.
+                </div>
+                <div>
+                  Ahead of you: {queueStatus.aheadWomenNonBinary} women/non-binary and {queueStatus.aheadDiversityQuota} diversity
+                  quota. {queueStatus.aheadOnSameTrack === 0
+                    ? 'You are next in line for the next matching seat that frees up.'
+                    : `${queueStatus.aheadOnSameTrack + 1} matching seats need to free up before you are promoted.`}
+                </div>
+                {queueStatus.priorityWindows.map(({ session: prioritySession, rule, eligible }) => (
+                  <div key={prioritySession.id}>
+                    {eligible
+                      ? `✅ You are within the priority window for ${prioritySession.description || prioritySession.id} (first ${rule.maxQueuePosition} in this queue) until ${formatRuleDate(rule.until)}.`
+                      : `Only the first ${rule.maxQueuePosition} in this queue get priority for ${prioritySession.description || prioritySession.id} (until ${formatRuleDate(rule.until)}).`}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="manage-participation-type" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Participation Type
+            </label>
+            <select
+              id="manage-participation-type"
+              value={enrollment.participant.participationType}
+              onChange={(e) => handleParticipationTypeChange(e.target.value as ParticipationType)}
+              disabled={isWorking}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-cgi-purple focus:border-cgi-purple dark:bg-black dark:text-white"
+            >
+              <option value="local">Local, at Karvaamokuja</option>
+              <option value="remote">Remote, in Teams</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="manage-contact-email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Email notifications
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="email"
+                id="manage-contact-email"
+                value={contactEmail}
+                onChange={(e) => setContactEmail(e.target.value)}
+                placeholder="you@example.com"
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-cgi-purple focus:border-cgi-purple dark:bg-black dark:text-white"
+              />
+              <button
+                type="button"
+                onClick={() => handleContactEmail(contactEmail)}
+                disabled={isWorking || !contactEmail.trim()}
+                className="px-3 py-2 text-sm font-medium rounded-md border border-cgi-purple text-cgi-purple disabled:opacity-50"
+              >
+                Email me updates
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={() => handleContactEmail(null)}
+              disabled={isWorking}
+              className="mt-2 text-xs text-gray-600 dark:text-gray-400 underline disabled:opacity-50"
+            >
+              Stop emails and delete my address
+            </button>
+          </div>
+
+          {confirmingCancel && (
+            <div className="p-3 rounded-md bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 border border-yellow-300 dark:border-yellow-700">
+              <p className="text-sm">
+                <strong>⚠️ Are you sure?</strong> Your spot will be given to the next person in the waiting queue and cannot be restored.
+              </p>
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={handleCancel}
+            disabled={isWorking}
+            className="w-full bg-cgi-red hover:bg-cgi-red/90 disabled:bg-gray-400 text-white font-semibold py-2 px-4 rounded-md transition-colors duration-200"
+          >
+            {isWorking ? 'Working...' : confirmingCancel ? 'Yes, cancel my spot' : 'Cancel my spot'}
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <div
+          className={`mt-4 p-3 rounded-md ${
+            message.type === 'success'
+              ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200'
+              : 'bg-red-100 dark:bg-red-900 text-cgi-red dark:text-red-200 border border-cgi-red'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+}
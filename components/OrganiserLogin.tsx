@@ -0,0 +1,82 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { signInOrganiser } from '@/lib/auth';
+
+interface OrganiserLoginProps {
+  onSignedIn: () => void;
+}
+
+export default function OrganiserLogin({ onSignedIn }: OrganiserLoginProps) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    const result = await signInOrganiser(email, password);
+    if (result.success) {
+      setPassword('');
+      onSignedIn();
+    } else {
+      setError(result.message || 'Sign-in failed.');
+    }
+    setIsSubmitting(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-md mx-auto bg-white dark:bg-black border border-gray-200 dark:border-gray-800 p-6 rounded-lg shadow-lg">
+      <h2 className="text-2xl font-bold mb-4 text-black dark:text-white">Organiser Sign-in</h2>
+
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="organiser-email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Email *
+          </label>
+          <input
+            type="email"
+            id="organiser-email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            autoComplete="username"
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-cgi-purple focus:border-cgi-purple dark:bg-black dark:text-white"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="organiser-password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Password *
+          </label>
+          <input
+            type="password"
+            id="organiser-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            autoComplete="current-password"
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-cgi-purple focus:border-cgi-purple dark:bg-black dark:text-white"
+          />
+        </div>
+
+        {error && (
+          <div className="p-3 rounded-md bg-red-100 dark:bg-red-900 text-cgi-red dark:text-red-200 border border-cgi-red">
+            {error}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full bg-cgi-purple hover:bg-cgi-purple/90 disabled:bg-gray-400 text-white font-semibold py-2 px-4 rounded-md transition-colors duration-200"
+        >
+          {isSubmitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </div>
+    </form>
+  );
+}
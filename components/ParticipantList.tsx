@@ -17,6 +17,9 @@ export default function ParticipantList({ refreshTrigger, sessionId = DEFAULT_SE
     const service = getEnrollmentService();
     service.setCurrentSession(sessionId);
     setState(service.getState(sessionId));
+
+    // Live updates from other browsers
+    return service.subscribe(() => setState(service.getState(sessionId)));
   }, [refreshTrigger, sessionId]);
 
   const formatDate = (date: Date) => {
@@ -85,8 +88,12 @@ export default function ParticipantList({ refreshTrigger, sessionId = DEFAULT_SE
                   <div>
                     <div className="font-semibold text-black dark:text-white">{participant.name}</div>
                     <div className="flex gap-2 mt-2">
-                      <span className="px-2 py-1 text-xs rounded-full bg-cgi-red/20 dark:bg-cgi-red/30 text-cgi-red dark:text-cgi-red border border-cgi-red/30">
-                        Women/Non-binary
+                      <span className={`px-2 py-1 text-xs rounded-full ${
+                        participant.needsDiversityQuota
+                          ? 'bg-cgi-purple/20 dark:bg-cgi-purple/30 text-cgi-purple dark:text-cgi-purple border border-cgi-purple/30'
+                          : 'bg-cgi-red/20 dark:bg-cgi-red/30 text-cgi-red dark:text-cgi-red border border-cgi-red/30'
+                      }`}>
+                        {participant.needsDiversityQuota ? 'Diversity Quota' : 'Women/Non-binary'}
                       </span>
                       <span className={`px-2 py-1 text-xs rounded-full border ${
                         participant.participationType === 'local'
@@ -0,0 +1,80 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getEnrollmentService, SyncOutcome } from '@/lib/enrollment';
+import { PendingEnrollment } from '@/lib/outbox';
+
+// Enrollments made on this device while offline, and what happened to them once sent
+export default function PendingSync() {
+  const [pending, setPending] = useState<PendingEnrollment[]>([]);
+  const [outcomes, setOutcomes] = useState<SyncOutcome[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    const service = getEnrollmentService();
+    const update = () => {
+      setPending(service.getPendingEnrollments());
+      setOutcomes(service.getSyncOutcomes());
+    };
+    update();
+    return service.subscribe(update);
+  }, []);
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    await getEnrollmentService().syncOutbox();
+    setIsSyncing(false);
+  };
+
+  if (pending.length === 0 && outcomes.length === 0) {
+    return null;
+  }
+
+  const sessionLabel = (sessionId: string) => getEnrollmentService().getSession(sessionId)?.description || sessionId;
+
+  return (
+    <div className="bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-300 dark:border-yellow-700 p-4 rounded-lg mb-6 text-sm">
+      {pending.length > 0 && (
+        <>
+          <div className="flex items-center justify-between gap-4 mb-2">
+            <h2 className="font-semibold text-yellow-800 dark:text-yellow-200">
+              Pending sync ({pending.length})
+            </h2>
+            <button
+              onClick={handleSyncNow}
+              disabled={isSyncing}
+              className="px-3 py-1 text-sm font-medium rounded-md border border-cgi-purple text-cgi-purple disabled:opacity-50"
+            >
+              {isSyncing ? 'Sending...' : 'Send now'}
+            </button>
+          </div>
+          <p className="text-yellow-800 dark:text-yellow-200 mb-2">
+            Saved on this device while the connection was down. They are sent automatically when it returns,
+            and only then is it decided who gets a seat and who joins the waiting queue.
+          </p>
+          <ul className="space-y-1 text-gray-700 dark:text-gray-300">
+            {pending.map(entry => (
+              <li key={entry.requestId}>
+                ⏳ {entry.participant.name} • {sessionLabel(entry.sessionId)} • {entry.createdAt.toLocaleTimeString()}
+                {entry.attempts > 0 && ` • ${entry.attempts} failed attempt${entry.attempts === 1 ? '' : 's'}`}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {outcomes.length > 0 && (
+        <ul className={`space-y-1 text-gray-700 dark:text-gray-300 ${pending.length > 0 ? 'mt-3' : ''}`}>
+          {outcomes.map(outcome => (
+            <li key={outcome.requestId}>
+              {outcome.success ? (outcome.addedToQueue ? '⏳' : '✅') : '❌'} {outcome.name} • {sessionLabel(outcome.sessionId)} •{' '}
+              {outcome.success && outcome.addedToQueue
+                ? `Sent, now in the waiting queue${outcome.queuePosition ? ` at position ${outcome.queuePosition}` : ''}`
+                : outcome.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Session } from '@/types';
+import { getRuleCutoffs } from '@/lib/rules';
+import { buildPreviewQuery, formatEventDateTime, fromHelsinkiInputValue, toHelsinkiInputValue } from '@/lib/clock';
+
+interface PreviewControlsProps {
+  sessions: Session[];
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export default function PreviewControls({ sessions }: PreviewControlsProps) {
+  const [value, setValue] = useState(() => toHelsinkiInputValue(new Date()));
+  const at = fromHelsinkiInputValue(value);
+  const cutoffs = getRuleCutoffs(sessions);
+
+  const linkClass = 'px-2 py-1 text-xs font-medium rounded-md border border-cgi-purple text-cgi-purple';
+
+  return (
+    <section className="bg-white dark:bg-black border border-gray-200 dark:border-gray-800 p-6 rounded-lg shadow-lg">
+      <h2 className="text-2xl font-bold mb-2 text-black dark:text-white">Preview as of a Time</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Open the enrollment page as it will look at another moment, to check windows and cutoffs. The preview works on a
+        copy of the current data: enrollments made in it are not saved and nobody is emailed.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-2 mb-4">
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1">Date and time (Finnish time)</span>
+          <input
+            type="datetime-local"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-black dark:text-white"
+          />
+        </label>
+        {at && (
+          <Link href={`/${buildPreviewQuery(at)}`} className="px-3 py-1 text-sm font-medium rounded-md bg-cgi-purple text-white">
+            Open preview
+          </Link>
+        )}
+      </div>
+
+      {cutoffs.length > 0 && (
+        <ul className="space-y-2 text-sm text-gray-700 dark:text-gray-300">
+          {cutoffs.map((cutoff) => (
+            <li key={`${cutoff.session.id}-${cutoff.label}`} className="flex flex-wrap items-center gap-2">
+              <span>
+                {cutoff.session.description || cutoff.session.id}: {cutoff.label} on {formatEventDateTime(cutoff.at)}
+              </span>
+              <Link href={`/${buildPreviewQuery(new Date(cutoff.at.getTime() - MINUTE_MS))}`} className={linkClass}>
+                1 min before
+              </Link>
+              <Link href={`/${buildPreviewQuery(new Date(cutoff.at.getTime() + MINUTE_MS))}`} className={linkClass}>
+                1 min after
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { SessionArchive } from '@/types';
+import { getEnrollmentService } from '@/lib/enrollment';
+import { countArchive } from '@/lib/archive';
+import { formatNoShowRate, getAttendance } from '@/lib/checkin';
+import { formatEventDate } from '@/lib/clock';
+
+export default function SessionHistory() {
+  const service = getEnrollmentService();
+  const [archives, setArchives] = useState<SessionArchive[] | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLoad = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setArchives(await service.getArchive());
+    } catch (loadError) {
+      console.error('Failed to load the session archive:', loadError);
+      setError('Could not load past sessions. Please try again.');
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <section className="bg-white dark:bg-black border border-gray-200 dark:border-gray-800 p-6 rounded-lg shadow-lg">
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <h2 className="text-2xl font-bold text-black dark:text-white">Past Sessions</h2>
+        <button
+          onClick={handleLoad}
+          disabled={isLoading}
+          className="px-3 py-1 text-sm font-medium rounded-md border border-cgi-purple text-cgi-purple disabled:opacity-50"
+        >
+          {isLoading ? 'Loading...' : archives ? 'Reload' : 'Show past sessions'}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Sessions are archived at midnight after they take place. Their final lists are kept here for organisers only,
+        without management links or email addresses.
+      </p>
+
+      {error && <p className="text-sm text-cgi-red">{error}</p>}
+
+      {archives && archives.length === 0 && (
+        <p className="text-sm text-gray-500">No sessions have been archived yet.</p>
+      )}
+
+      {archives && archives.length > 0 && (
+        <div className="space-y-3">
+          {archives.map((archive) => {
+            const session = service.getSession(archive.sessionId);
+            const counts = countArchive(archive);
+            const attendance = getAttendance(archive.enrolled);
+            const isOpen = openId === archive.sessionId;
+            return (
+              <div key={archive.sessionId} className="border border-gray-200 dark:border-gray-700 p-3 rounded-lg">
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                  <div>
+                    <div className="font-semibold text-black dark:text-white">
+                      {session?.description || archive.sessionId}
+                      {session && <span className="font-normal text-gray-500"> • {formatEventDate(session.date)}</span>}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {counts.enrolled} enrolled ({counts.women} women/non-binary, {counts.men} diversity quota;
+                      {' '}{counts.local} local, {counts.remote} remote) • {counts.waitingQueue} still waiting
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {attendance.checkedIn} checked in • {attendance.noShows} no-shows • {formatNoShowRate(attendance)}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => setOpenId(isOpen ? null : archive.sessionId)}
+                    className="px-2 py-1 text-xs font-medium rounded-md border border-gray-300 text-gray-700 dark:text-gray-300"
+                  >
+                    {isOpen ? 'Hide lists' : 'Show lists'}
+                  </button>
+                </div>
+                {isOpen && (
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-3 text-sm text-gray-700 dark:text-gray-300">
+                    <div>
+                      <h3 className="font-semibold text-black dark:text-white mb-1">Enrolled</h3>
+                      <ol className="list-decimal list-inside">
+                        {archive.enrolled.map(p => <li key={p.id}>{p.name} • {p.participationType}{p.checkedInAt ? ' • ✅' : ''}</li>)}
+                      </ol>
+                    </div>
+                    <div>
+                      <h3 className="font-semibold text-black dark:text-white mb-1">Waiting Queue</h3>
+                      <ol className="list-decimal list-inside">
+                        {archive.waitingQueue.map(p => <li key={p.id}>{p.name} • {p.participationType}</li>)}
+                      </ol>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,69 @@
+// Sessions are archived the day after they take place: their lists leave the live tables and the public
+// selectors, and organisers see them in the history view instead
+import { Participant, Session, SessionArchive } from '@/types';
+import { helsinkiDateTime, helsinkiIsoDate } from './clock';
+import { isRecord, loadStoredList, parseStoredDate, parseStoredParticipant } from './storage';
+
+// Archive of this browser's sessions when there is no database
+const ARCHIVE_KEY = 'vibe-coding-archive';
+
+// Midnight in Finland after the session ends, the same moment archive_past_sessions() uses
+export function getArchiveTime(session: Session): Date {
+  return helsinkiDateTime(helsinkiIsoDate(session.endsAt), 24);
+}
+
+export function isSessionArchived(session: Session, now: Date): boolean {
+  return !!session.archivedAt || now >= getArchiveTime(session);
+}
+
+export interface ArchiveCounts {
+  enrolled: number;
+  women: number;
+  men: number;
+  local: number;
+  remote: number;
+  waitingQueue: number; // Still waiting when the session was archived
+}
+
+// Final numbers for the history view
+export function countArchive(archive: SessionArchive): ArchiveCounts {
+  return {
+    enrolled: archive.enrolled.length,
+    women: archive.enrolled.filter(p => !p.needsDiversityQuota).length,
+    men: archive.enrolled.filter(p => p.needsDiversityQuota).length,
+    local: archive.enrolled.filter(p => p.participationType === 'local').length,
+    remote: archive.enrolled.filter(p => p.participationType === 'remote').length,
+    waitingQueue: archive.waitingQueue.length,
+  };
+}
+
+// Only what the history needs: management links stop working and contact details are not kept
+export function toArchivedParticipant(participant: Participant): Participant {
+  const { managementTokenHash, contactEmail, emailConsentAt, ...kept } = participant;
+  return kept;
+}
+
+function parseSessionArchive(raw: unknown): SessionArchive | null {
+  const archivedAt = isRecord(raw) ? parseStoredDate(raw.archivedAt) : undefined;
+  if (!isRecord(raw) || typeof raw.sessionId !== 'string' || !archivedAt) {
+    return null;
+  }
+  const sessionId = raw.sessionId;
+  // A damaged participant is left out rather than losing the whole session's history
+  const participants = (list: unknown) => (Array.isArray(list) ? list : [])
+    .map(p => parseStoredParticipant(p, sessionId))
+    .filter((p): p is Participant => p !== null);
+  return { sessionId, archivedAt, enrolled: participants(raw.enrolled), waitingQueue: participants(raw.waitingQueue) };
+}
+
+export function loadLocalArchive(): SessionArchive[] {
+  return loadStoredList(ARCHIVE_KEY, 'session archive', parseSessionArchive);
+}
+
+export function saveLocalArchive(archives: SessionArchive[]): void {
+  try {
+    localStorage.setItem(ARCHIVE_KEY, JSON.stringify(archives));
+  } catch (error) {
+    console.warn('Failed to save the session archive:', error);
+  }
+}
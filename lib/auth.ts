@@ -0,0 +1,154 @@
+// Organiser sign-in for the admin dashboard, backed by Supabase Auth
+import { supabase } from './supabase';
+
+export interface OrganiserSession {
+  userId: string;
+  email: string;
+  // Signed in and listed in the organisers table; only then do writes pass row-level security
+  isOrganiser: boolean;
+}
+
+// Without Supabase there is no server to protect, so a passphrase from the build
+// environment stands in for the organiser account. It ships in the browser bundle
+// and is only meant for local development.
+const LOCAL_ORGANISER_KEY = 'vibe-coding-organiser';
+const LOCAL_ORGANISER_PASSPHRASE = process.env.NEXT_PUBLIC_ORGANISER_PASSPHRASE;
+
+function getLocalOrganiserSession(): OrganiserSession | null {
+  if (typeof window === 'undefined' || window.sessionStorage.getItem(LOCAL_ORGANISER_KEY) !== 'true') {
+    return null;
+  }
+  return { userId: 'local-organiser', email: 'local organiser', isOrganiser: true };
+}
+
+// The organiser session from the last role check that reached the database. The connection at the
+// venue can drop during check-in, so while the database can't be asked this answer is used instead.
+// It only decides what the dashboard allows; row-level security still checks each write when it is sent.
+const ORGANISER_ROLE_KEY = 'vibe-coding-organiser-role';
+
+function loadCachedOrganiserSession(): OrganiserSession | null {
+  try {
+    const stored = typeof localStorage === 'undefined' ? null : localStorage.getItem(ORGANISER_ROLE_KEY);
+    if (!stored) {
+      return null;
+    }
+    const parsed: unknown = JSON.parse(stored);
+    if (typeof parsed !== 'object' || parsed === null) {
+      return null;
+    }
+    const { userId, email, isOrganiser } = parsed as Record<string, unknown>;
+    if (typeof userId !== 'string' || typeof email !== 'string' || typeof isOrganiser !== 'boolean') {
+      return null;
+    }
+    return { userId, email, isOrganiser };
+  } catch (error) {
+    console.warn('Failed to read the cached organiser role:', error);
+    return null;
+  }
+}
+
+function saveCachedOrganiserSession(session: OrganiserSession | null): void {
+  try {
+    if (typeof localStorage === 'undefined') {
+      return;
+    }
+    if (session) {
+      localStorage.setItem(ORGANISER_ROLE_KEY, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(ORGANISER_ROLE_KEY);
+    }
+  } catch (error) {
+    console.warn('Failed to cache the organiser role:', error);
+  }
+}
+
+async function checkIsOrganiser(user: { id: string; email?: string }): Promise<boolean> {
+  if (!supabase) {
+    return getLocalOrganiserSession() !== null;
+  }
+  const { data, error } = await supabase.rpc('is_organiser');
+  if (error) {
+    const cached = loadCachedOrganiserSession();
+    if (cached?.userId === user.id) {
+      console.warn('Failed to check organiser role, using the last known role:', error);
+      return cached.isOrganiser;
+    }
+    console.warn('Failed to check organiser role:', error);
+    return false;
+  }
+  saveCachedOrganiserSession({ userId: user.id, email: user.email || '', isOrganiser: data === true });
+  return data === true;
+}
+
+async function toOrganiserSession(user: { id: string; email?: string } | null | undefined): Promise<OrganiserSession | null> {
+  if (!user) {
+    return null;
+  }
+  return { userId: user.id, email: user.email || '', isOrganiser: await checkIsOrganiser(user) };
+}
+
+export async function getOrganiserSession(): Promise<OrganiserSession | null> {
+  if (!supabase) {
+    return getLocalOrganiserSession();
+  }
+  const { data, error } = await supabase.auth.getSession();
+  if (error) {
+    // Offline with an expired access token the session can't be refreshed; keep the last known one
+    console.warn('Failed to read organiser session:', error);
+    return loadCachedOrganiserSession();
+  }
+  return toOrganiserSession(data.session?.user);
+}
+
+// True only for a signed-in organiser; used to refuse admin-only operations early
+export async function isOrganiserSignedIn(): Promise<boolean> {
+  const session = await getOrganiserSession();
+  return !!session?.isOrganiser;
+}
+
+export async function signInOrganiser(email: string, password: string): Promise<{ success: boolean; message?: string }> {
+  if (!supabase) {
+    if (!LOCAL_ORGANISER_PASSPHRASE) {
+      return { success: false, message: 'Organiser sign-in requires Supabase or NEXT_PUBLIC_ORGANISER_PASSPHRASE to be configured.' };
+    }
+    if (password !== LOCAL_ORGANISER_PASSPHRASE) {
+      return { success: false, message: 'Incorrect passphrase.' };
+    }
+    window.sessionStorage.setItem(LOCAL_ORGANISER_KEY, 'true');
+    return { success: true };
+  }
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) {
+    console.warn('Organiser sign-in failed:', error);
+    return { success: false, message: error.message };
+  }
+  return { success: true };
+}
+
+export async function signOutOrganiser(): Promise<void> {
+  if (!supabase) {
+    if (typeof window !== 'undefined') {
+      window.sessionStorage.removeItem(LOCAL_ORGANISER_KEY);
+    }
+    return;
+  }
+  saveCachedOrganiserSession(null);
+  await supabase.auth.signOut();
+}
+
+// Notify when an organiser signs in or out; returns an unsubscribe function
+export function onOrganiserSessionChange(callback: (session: OrganiserSession | null) => void): () => void {
+  if (!supabase) {
+    return () => {};
+  }
+  const { data } = supabase.auth.onAuthStateChange((event, session) => {
+    if (event === 'SIGNED_OUT') {
+      saveCachedOrganiserSession(null);
+    }
+    // Supabase calls made inside this callback wait on the auth lock it holds, so defer the role check
+    setTimeout(async () => {
+      callback(await toOrganiserSession(session?.user));
+    }, 0);
+  });
+  return () => data.subscription.unsubscribe();
+}
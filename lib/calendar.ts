@@ -0,0 +1,147 @@
+// Session times in Finnish time and .ics calendar files
+import { ParticipationType, Session } from '@/types';
+import { EVENT_TIME_ZONE, helsinkiDateTime, helsinkiIsoDate, helsinkiParts } from './clock';
+
+const CALENDAR_PRODUCT_ID = '-//Vibe Coding Workshop//Enrollment//EN';
+const UID_DOMAIN = 'enroll-for-vibecoding';
+
+// Rules for Europe/Helsinki since 1996 (EU summer time), so calendar apps don't need to look it up
+const HELSINKI_VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  'TZID:Europe/Helsinki',
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:+0200',
+  'TZOFFSETTO:+0300',
+  'TZNAME:EEST',
+  'DTSTART:19700329T030000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:+0300',
+  'TZOFFSETTO:+0200',
+  'TZNAME:EET',
+  'DTSTART:19701025T040000',
+  'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+// Derive start and end from the free-text time slot ('11-14' or '9:30-12'), for sessions stored before
+// starts_at/ends_at existed. An unreadable slot gives a zero-length event at the session date.
+export function sessionTimesFromSlot(date: Date, timeSlot: string): { startsAt: Date; endsAt: Date } {
+  const match = timeSlot.trim().match(/^(\d{1,2})(?:[:.](\d{2}))?\s*[-–]\s*(\d{1,2})(?:[:.](\d{2}))?$/);
+  if (!match) {
+    return { startsAt: date, endsAt: date };
+  }
+  const isoDate = helsinkiIsoDate(date);
+  return {
+    startsAt: helsinkiDateTime(isoDate, Number(match[1]), Number(match[2] || 0)),
+    endsAt: helsinkiDateTime(isoDate, Number(match[3]), Number(match[4] || 0)),
+  };
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function formatLocalIcsDate(date: Date): string {
+  const p = helsinkiParts(date);
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+function formatUtcIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeIcsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+const icsEncoder = new TextEncoder();
+
+// Lines longer than 75 octets of UTF-8 are continued on the next line after a space (RFC 5545).
+// Lines are only broken between characters, so ä or an emoji is never split across lines.
+function foldIcsLine(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const character of line) {
+    const size = icsEncoder.encode(character).length;
+    // The space that starts a continuation line counts towards its 75 octets
+    const limit = lines.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += character;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+}
+
+function buildEvent(session: Session, participationType?: ParticipationType): string[] {
+  const remote = participationType === 'remote';
+  const location = remote
+    ? `Microsoft Teams${session.teamsLink ? ` (${session.teamsLink})` : ''}`
+    : session.location;
+  const description = [
+    session.description || 'Vibe Coding Workshop',
+    session.location ? `Location: ${session.location}` : '',
+    session.teamsLink ? `Join remotely in Teams: ${session.teamsLink}` : '',
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    // Same UID for local and remote invites, so a re-downloaded invite after switching replaces the old one
+    `UID:${session.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtcIcsDate(new Date())}`,
+    `DTSTART;TZID=${EVENT_TIME_ZONE}:${formatLocalIcsDate(session.startsAt)}`,
+    `DTEND;TZID=${EVENT_TIME_ZONE}:${formatLocalIcsDate(session.endsAt)}`,
+    `SUMMARY:${escapeIcsText(session.description || 'Vibe Coding Workshop')}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    ...(location ? [`LOCATION:${escapeIcsText(location)}`] : []),
+    ...(remote && session.teamsLink ? [`URL:${session.teamsLink}`] : []),
+    'END:VEVENT',
+  ];
+}
+
+function buildCalendar(events: string[][]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${CALENDAR_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...HELSINKI_VTIMEZONE,
+    ...events.flat(),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+// Invite for one participant: the room for local participants, the Teams link for remote ones
+export function buildSessionIcs(session: Session, participationType: ParticipationType): string {
+  return buildCalendar([buildEvent(session, participationType)]);
+}
+
+// All sessions in one file for organisers
+export function buildSessionsFeed(sessions: Session[]): string {
+  return buildCalendar(sessions.map(session => buildEvent(session)));
+}
+
+export function buildIcsFilename(session: Session): string {
+  return `${session.id}.ics`;
+}
+
+// Trigger a browser download of the calendar file
+export function downloadIcs(filename: string, ics: string): void {
+  const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,94 @@
+// Attendance check-in at the door on the workshop day. Check-ins made while the database could not be
+// reached wait in this device's check-in outbox until they can be sent.
+import { EnrollmentState, Participant } from '@/types';
+import { isRecord, loadStoredList, parseStoredDate, parseStoredParticipant } from './storage';
+
+const CHECK_IN_OUTBOX_KEY = 'vibe-coding-checkin-outbox';
+
+export interface PendingCheckIn {
+  participantId: string;
+  sessionId: string;
+  participant: Participant; // As it should end up in the enrolled list, with checkedInAt set or cleared
+  walkIn: boolean; // Taken from the waiting queue at the door, so the row still has to move to enrolled
+  createdAt: Date;
+}
+
+function parsePendingCheckIn(raw: unknown): PendingCheckIn | null {
+  if (!isRecord(raw) || typeof raw.participantId !== 'string' || typeof raw.sessionId !== 'string' || typeof raw.walkIn !== 'boolean') {
+    return null;
+  }
+  const participant = parseStoredParticipant(raw.participant);
+  const createdAt = parseStoredDate(raw.createdAt);
+  if (!participant || participant.id !== raw.participantId || !createdAt) {
+    return null;
+  }
+  return { participantId: raw.participantId, sessionId: raw.sessionId, participant, walkIn: raw.walkIn, createdAt };
+}
+
+// Oldest first, which is the order they are sent in
+export function loadCheckInOutbox(): PendingCheckIn[] {
+  return loadStoredList(CHECK_IN_OUTBOX_KEY, 'check-in outbox', parsePendingCheckIn);
+}
+
+function saveCheckInOutbox(entries: PendingCheckIn[]): void {
+  try {
+    if (entries.length === 0) {
+      localStorage.removeItem(CHECK_IN_OUTBOX_KEY);
+    } else {
+      localStorage.setItem(CHECK_IN_OUTBOX_KEY, JSON.stringify(entries));
+    }
+  } catch (error) {
+    console.warn('Failed to save the check-in outbox:', error);
+  }
+}
+
+// One entry per participant: a later tap replaces an earlier one, but a walk-in still has to be moved
+export function addCheckInToOutbox(entry: PendingCheckIn): void {
+  const entries = loadCheckInOutbox();
+  const earlier = entries.find(e => e.participantId === entry.participantId);
+  saveCheckInOutbox([
+    ...entries.filter(e => e.participantId !== entry.participantId),
+    { ...entry, walkIn: entry.walkIn || !!earlier?.walkIn },
+  ]);
+}
+
+export function removeCheckInFromOutbox(participantId: string): void {
+  saveCheckInOutbox(loadCheckInOutbox().filter(e => e.participantId !== participantId));
+}
+
+// Put a check-in into a session's lists. A walk-in leaves the waiting queue for the enrolled list;
+// anyone no longer in the lists (removed meanwhile by another organiser) is left out.
+export function applyCheckIn(state: EnrollmentState, participant: Participant, walkIn: boolean): EnrollmentState {
+  const isEnrolled = state.enrolled.some(p => p.id === participant.id);
+  const isWaiting = state.waitingQueue.some(p => p.id === participant.id);
+  if (!isEnrolled && !(walkIn && isWaiting)) {
+    return state;
+  }
+  return {
+    enrolled: isEnrolled
+      ? state.enrolled.map(p => (p.id === participant.id ? participant : p))
+      : [...state.enrolled, participant],
+    waitingQueue: state.waitingQueue.filter(p => p.id !== participant.id),
+  };
+}
+
+export interface Attendance {
+  enrolled: number;
+  checkedIn: number;
+  noShows: number;
+  noShowRate: number | null; // 0-1; null when nobody was checked in, e.g. sessions from before check-in
+}
+
+export function getAttendance(enrolled: Participant[]): Attendance {
+  const checkedIn = enrolled.filter(p => p.checkedInAt).length;
+  return {
+    enrolled: enrolled.length,
+    checkedIn,
+    noShows: enrolled.length - checkedIn,
+    noShowRate: checkedIn > 0 ? (enrolled.length - checkedIn) / enrolled.length : null,
+  };
+}
+
+export function formatNoShowRate(attendance: Attendance): string {
+  return attendance.noShowRate === null ? 'no check-ins recorded' : `${Math.round(attendance.noShowRate * 100)}% no-shows`;
+}
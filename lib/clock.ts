@@ -0,0 +1,137 @@
+// The current time, and session times in Finnish time. Everything that depends on "now" (enrollment
+// windows, priority windows, queue timestamps) asks a Clock, so organisers can preview the page as of
+// another moment and tests can pin the time.
+
+export const EVENT_TIME_ZONE = 'Europe/Helsinki';
+
+// URL parameter that opens the enrollment page in organiser preview mode, e.g. ?preview=2026-02-10T05:59:00.000Z
+export const PREVIEW_PARAM = 'preview';
+
+export interface Clock {
+  now(): Date;
+  // Set when the clock shows a chosen moment instead of the real time
+  readonly previewFrom?: Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+// Always returns the same instant
+export function createFixedClock(at: Date): Clock {
+  return {
+    now: () => new Date(at.getTime()),
+  };
+}
+
+// Starts at `at` and then runs at normal speed, so countdowns and cutoffs pass as they would on the day
+export function createPreviewClock(at: Date, base: Clock = systemClock): Clock {
+  const offsetMs = at.getTime() - base.now().getTime();
+  return {
+    now: () => new Date(base.now().getTime() + offsetMs),
+    previewFrom: new Date(at.getTime()),
+  };
+}
+
+// The preview time requested in the page URL, or null when there is none or it is not a valid date
+export function getPreviewTimeFromUrl(): Date | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  const value = new URLSearchParams(window.location.search).get(PREVIEW_PARAM);
+  if (!value) {
+    return null;
+  }
+  const at = new Date(value);
+  return isNaN(at.getTime()) ? null : at;
+}
+
+export function buildPreviewQuery(at: Date): string {
+  return `?${PREVIEW_PARAM}=${encodeURIComponent(at.toISOString())}`;
+}
+
+// Wall-clock parts of an instant in Finnish time
+export function helsinkiParts(date: Date): { year: number; month: number; day: number; hour: number; minute: number; second: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: EVENT_TIME_ZONE,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+// The instant at the given Finnish wall-clock time (date as YYYY-MM-DD), whether summer time applies or not
+export function helsinkiDateTime(isoDate: string, hour: number, minute = 0): Date {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const parts = helsinkiParts(new Date(asUtc));
+  const offsetMs = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - asUtc;
+  return new Date(asUtc - offsetMs);
+}
+
+// Midnight at the start of the day in Finland; Session.date is stored this way
+export function helsinkiDate(isoDate: string): Date {
+  return helsinkiDateTime(isoDate, 0);
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// The Finnish calendar day of an instant as YYYY-MM-DD
+export function helsinkiIsoDate(date: Date): string {
+  const p = helsinkiParts(date);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+// Value for an <input type="datetime-local"> showing the instant in Finnish time
+export function toHelsinkiInputValue(date: Date): string {
+  const p = helsinkiParts(date);
+  return `${helsinkiIsoDate(date)}T${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+// Reads an <input type="datetime-local"> value as Finnish time; null when it is incomplete
+export function fromHelsinkiInputValue(value: string): Date | null {
+  const match = value.match(/^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})/);
+  return match ? helsinkiDateTime(match[1], Number(match[2]), Number(match[3])) : null;
+}
+
+// Session day for display, e.g. 'Tuesday, 17 March 2026', the same in every viewer's time zone
+export function formatEventDate(date: Date): string {
+  return date.toLocaleDateString('en-GB', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: EVENT_TIME_ZONE
+  });
+}
+
+// Cutoffs and window times for display, e.g. 'Tuesday, 10 February 2026 at 08:00 EET'
+export function formatEventDateTime(date: Date): string {
+  return date.toLocaleDateString('en-GB', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+    timeZone: EVENT_TIME_ZONE
+  });
+}
+
+// Time left until a moment, e.g. '2 days 03:04:05' or '00:09:59'; never negative
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const time = `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+  return days > 0 ? `${days} ${days === 1 ? 'day' : 'days'} ${time}` : time;
+}
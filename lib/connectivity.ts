@@ -1,5 +1,6 @@
 // Utility to test network connectivity and Supabase connection
 import { supabase } from './supabase';
+import { getEnrollmentService } from './enrollment';
 
 export interface ConnectivityTestResult {
   supabaseConnected: boolean;
@@ -81,18 +82,48 @@ export async function logConnectivityStatus(): Promise<void> {
   }
 }
 
-// Monitor connectivity changes
-export function startConnectivityMonitoring(): void {
-  // Listen for online/offline events
-  window.addEventListener('online', () => {
+// Removes the listeners added by startConnectivityMonitoring; null while not monitoring
+let stopMonitoring: (() => void) | null = null;
+
+// Send enrollments and check-ins kept on this device while offline, the enrollments first
+function syncOfflineChanges(): void {
+  const service = getEnrollmentService();
+  service.syncOutbox()
+    .then(() => service.syncCheckIns())
+    .catch(error => console.warn('⚠️ Failed to sync offline changes:', error));
+}
+
+// Monitor connectivity changes. Calling it again while monitoring adds no more listeners;
+// the returned function stops monitoring.
+export function startConnectivityMonitoring(): () => void {
+  if (stopMonitoring) {
+    return stopMonitoring;
+  }
+
+  const handleOnline = () => {
     console.log('🌐 Network connection restored');
     logConnectivityStatus();
-  });
-  
-  window.addEventListener('offline', () => {
+    syncOfflineChanges();
+  };
+  const handleOffline = () => {
     console.warn('🚫 Network connection lost');
-  });
-  
+  };
+
+  // Listen for online/offline events
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  stopMonitoring = () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    stopMonitoring = null;
+  };
+
   // Initial connectivity test
   logConnectivityStatus();
-}
\ No newline at end of file
+
+  // Enrollments and check-ins left over from an earlier visit on this device
+  if (navigator.onLine) {
+    syncOfflineChanges();
+  }
+  return stopMonitoring;
+}
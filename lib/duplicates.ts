@@ -0,0 +1,115 @@
+// Detecting the same person enrolling twice, within a session and across sessions
+import { EnrollmentState, MultiSessionEnrollmentState, Participant } from '@/types';
+
+export type DuplicateMatchKind = 'name' | 'email' | 'token';
+
+export interface DuplicateMatch {
+  participant: Participant;
+  inWaitingQueue: boolean;
+  queuePosition?: number; // 1-based, when in the waiting queue
+  matchedOn: DuplicateMatchKind;
+}
+
+export interface DuplicateEntry {
+  participant: Participant;
+  sessionId: string;
+  inWaitingQueue: boolean;
+}
+
+export interface DuplicateGroup {
+  matchedOn: 'name' | 'email';
+  key: string; // The normalised name or email the entries share
+  entries: DuplicateEntry[];
+  sameSession: boolean; // true if at least two entries are in the same session
+}
+
+// Lowercase, without diacritics and with single spaces, so "Anna  Mäkinen" matches "anna makinen".
+// Used for every name comparison; normalize_name() in migrate-add-enrollment-rpc.sql does the same in the database.
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Find an existing enrollment in the session that belongs to the same person:
+// the same management token, the same contact email, or the same normalised name
+export function findDuplicateInSession(
+  state: EnrollmentState,
+  candidate: Pick<Participant, 'name' | 'contactEmail' | 'managementTokenHash'>
+): DuplicateMatch | null {
+  const name = normalizeName(candidate.name);
+  const email = candidate.contactEmail ? normalizeEmail(candidate.contactEmail) : undefined;
+
+  const matchOf = (p: Participant): DuplicateMatchKind | null => {
+    if (candidate.managementTokenHash && p.managementTokenHash === candidate.managementTokenHash) return 'token';
+    if (email && p.contactEmail && normalizeEmail(p.contactEmail) === email) return 'email';
+    if (normalizeName(p.name) === name) return 'name';
+    return null;
+  };
+
+  for (const participant of state.enrolled) {
+    const matchedOn = matchOf(participant);
+    if (matchedOn) {
+      return { participant, inWaitingQueue: false, matchedOn };
+    }
+  }
+  for (let index = 0; index < state.waitingQueue.length; index++) {
+    const matchedOn = matchOf(state.waitingQueue[index]);
+    if (matchedOn) {
+      return { participant: state.waitingQueue[index], inWaitingQueue: true, queuePosition: index + 1, matchedOn };
+    }
+  }
+  return null;
+}
+
+export function describeDuplicate(match: DuplicateMatch): string {
+  return match.inWaitingQueue
+    ? `You are already in the waiting queue for this session at position ${match.queuePosition}. Use your management link to check or change your enrollment.`
+    : 'You are already enrolled in this session. Use your management link to check or change your enrollment.';
+}
+
+// Group everyone who shares a normalised name or a contact email, across all sessions, for organisers to review.
+// `emailsByParticipantId` supplies addresses that are stored server-side rather than on the participant.
+export function findSuspectedDuplicates(
+  state: MultiSessionEnrollmentState,
+  emailsByParticipantId: Map<string, string> = new Map()
+): DuplicateGroup[] {
+  const entries: DuplicateEntry[] = Object.entries(state.sessions).flatMap(([sessionId, sessionState]) => [
+    ...sessionState.enrolled.map(participant => ({ participant, sessionId, inWaitingQueue: false })),
+    ...sessionState.waitingQueue.map(participant => ({ participant, sessionId, inWaitingQueue: true })),
+  ]);
+
+  const emailOf = (p: Participant) => {
+    const email = p.contactEmail ?? emailsByParticipantId.get(p.id);
+    return email ? normalizeEmail(email) : undefined;
+  };
+
+  const groupBy = (matchedOn: 'name' | 'email', keyOf: (p: Participant) => string | undefined): DuplicateGroup[] => {
+    const groups = new Map<string, DuplicateEntry[]>();
+    entries.forEach(entry => {
+      const key = keyOf(entry.participant);
+      if (key) {
+        groups.set(key, [...(groups.get(key) || []), entry]);
+      }
+    });
+    return Array.from(groups.entries())
+      .filter(([, group]) => group.length > 1)
+      .map(([key, group]) => ({
+        matchedOn,
+        key,
+        entries: group,
+        sameSession: new Set(group.map(e => e.sessionId)).size < group.length,
+      }));
+  };
+
+  // Same-session duplicates first, they are the ones that take someone else's seat
+  return [...groupBy('name', p => normalizeName(p.name)), ...groupBy('email', emailOf)]
+    .sort((a, b) => Number(b.sameSession) - Number(a.sameSession));
+}
@@ -1,14 +1,37 @@
 import { 
   Participant, 
+  ParticipationType,
   EnrollmentState, 
   MultiSessionEnrollmentState,
+  Session,
+  SessionArchive,
+  SessionPolicy,
   MAX_CAPACITY, 
   MEN_QUOTA, 
   WOMEN_NON_BINARY_SPOTS,
   SESSIONS,
   DEFAULT_SESSION_ID 
 } from '@/types';
-import { supabase } from './supabase';
+import type { RealtimeChannel, RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js';
+import {
+  createDefaultRepository,
+  mapRowToParticipant,
+  InMemoryEnrollmentRepository,
+  EnrollmentRepository,
+  ParticipantListName,
+  ENROLLED_TABLE,
+  WAITING_QUEUE_TABLE
+} from './repository';
+import { generateManagementToken, hashManagementToken, buildManagementLink } from './managementToken';
+import { evaluateEnrollmentRules, getPriorityWindowEligibility, getSessionRules, PriorityWindowEligibility } from './rules';
+import { isOrganiserSignedIn } from './auth';
+import type { ParticipantImportRow } from './import';
+import { notifyParticipant, createMailTransport, MailTransport } from './notifications';
+import { describeDuplicate, findDuplicateInSession, findSuspectedDuplicates, DuplicateGroup } from './duplicates';
+import { addToOutbox, loadOutbox, removeFromOutbox, updateOutboxEntry, PendingEnrollment } from './outbox';
+import { Clock, createPreviewClock, systemClock } from './clock';
+import { isSessionArchived } from './archive';
+import { addCheckInToOutbox, applyCheckIn, loadCheckInOutbox, removeCheckInFromOutbox, PendingCheckIn } from './checkin';
 
 // Retry configuration for network operations
 const RETRY_CONFIG = {
@@ -18,7 +41,7 @@ const RETRY_CONFIG = {
 };
 
 // Utility function for retry with exponential backoff
-async function retryOperation<T>(
+export async function retryOperation<T>(
   operation: () => Promise<T>,
   operationName: string,
   retries = RETRY_CONFIG.maxRetries
@@ -51,78 +74,450 @@ async function retryOperation<T>(
   throw lastError;
 }
 
-// Supabase table names
-const ENROLLED_TABLE = 'enrolled_participants';
-const WAITING_QUEUE_TABLE = 'waiting_queue_participants';
+// Postgres function that enrolls atomically (see migrate-add-enrollment-rpc.sql)
+const ENROLL_FUNCTION = 'enroll_participant';
+// Finds the enrollment a management token belongs to; the hashes never leave the database (see migrate-add-management-token.sql)
+const FIND_ENROLLMENT_FUNCTION = 'find_enrollment';
+// Self-service functions keyed on the management token (see migrate-lock-down-rls.sql)
+const CANCEL_FUNCTION = 'cancel_enrollment';
+const CHANGE_PARTICIPATION_FUNCTION = 'change_participation_type';
+// Stores or withdraws the optional contact email (see migrate-add-participant-contacts.sql)
+const SAVE_CONTACT_FUNCTION = 'save_contact_email';
+const CONTACTS_TABLE = 'participant_contacts';
+// PostgREST error code when a function has not been created yet
+const FUNCTION_NOT_FOUND_CODE = 'PGRST202';
 
-// Second session restriction configuration
-const SECOND_SESSION_RESTRICTION = {
-  cutoffDate: new Date('2026-02-10T08:00:00+02:00'), // Feb 10, 2026, 8 AM Finnish time (UTC+2)
-  restrictedSessionId: 'session-2',
-  maxWaitingQueuePosition: 17 // Only first 17 in waiting queue can enroll to second session
+// How often to reload when realtime updates are unavailable
+const POLLING_INTERVAL_MS = 15000;
+
+const ORGANISER_REQUIRED_MESSAGE = 'Only signed-in organisers can do this.';
+
+// Helper function to classify Supabase errors for user-facing messages
+function isNetworkError(error: any): boolean {
+  return error?.message?.includes('fetch') ||
+         error?.message?.includes('network') ||
+         error?.code === 'PGRST301' ||
+         error?.message?.includes('timeout');
+}
+
+// The result for a change the database did not save. `notSaved` tells the user what did not happen;
+// organisers are pointed at the Supabase dashboard rather than at support.
+function saveFailure(error: unknown, notSaved: string, forOrganiser = false): EnrollmentResult {
+  if (isNetworkError(error)) {
+    return { success: false, message: `Network error - please check your connection and try again. ${notSaved}`, networkError: true };
+  }
+  return {
+    success: false,
+    message: forOrganiser
+      ? 'Database error - please try again or check the Supabase dashboard.'
+      : 'Database error - please try again or contact support if the problem persists.'
+  };
+}
+
+// Generated once per enrollment so retries and outbox replays of the same request are recognised by the database
+function generateRequestId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Row-level changes needed to turn one session state into another
+function diffSessionState(previous: EnrollmentState, next: EnrollmentState): ParticipantChange[] {
+  const changes: ParticipantChange[] = [];
+  const lists: ParticipantListName[] = ['enrolled', 'waitingQueue'];
+  const listOf = (state: EnrollmentState, id: string) => lists.find(list => state[list].some(p => p.id === id));
+
+  lists.forEach(list => {
+    const beforeById = new Map(previous[list].map(p => [p.id, p]));
+    const afterIds = new Set(next[list].map(p => p.id));
+
+    next[list].forEach(participant => {
+      const existing = beforeById.get(participant.id);
+      const from = existing ? undefined : listOf(previous, participant.id);
+      if (from) {
+        changes.push({ operation: 'move', list, from, participant });
+      } else if (!existing) {
+        changes.push({ operation: 'insert', list, participant });
+      } else if (JSON.stringify(existing) !== JSON.stringify(participant)) {
+        changes.push({ operation: 'update', list, participant });
+      }
+    });
+    previous[list].forEach(participant => {
+      // Anyone now in the other list was moved there, not deleted
+      if (!afterIds.has(participant.id) && !listOf(next, participant.id)) {
+        changes.push({ operation: 'delete', list, participant });
+      }
+    });
+  });
+
+  // Apply every insert/update/move before any delete
+  return [
+    ...changes.filter(change => change.operation !== 'delete'),
+    ...changes.filter(change => change.operation === 'delete'),
+  ];
+}
+
+export type ChangeOperation = 'insert' | 'update' | 'move' | 'delete';
+
+// A walk-in still has its row in the waiting queue; moving it (insert, then delete) is safe to repeat
+function checkInChange(entry: PendingCheckIn): ParticipantChange {
+  return entry.walkIn
+    ? { operation: 'move', from: 'waitingQueue', list: 'enrolled', participant: entry.participant }
+    : { operation: 'update', list: 'enrolled', participant: entry.participant };
+}
+
+// A single row-level change to persist; only the participant's id is used for deletes
+interface ParticipantChange {
+  operation: ChangeOperation;
+  list: ParticipantListName; // For a move, the list the participant ends up in
+  from?: ParticipantListName; // For a move, the list the participant leaves
+  participant: Participant;
+}
+
+export interface OperationResult {
+  operation: ChangeOperation;
+  list: ParticipantListName;
+  participantId: string;
+  status: 'applied' | 'failed' | 'not-attempted';
+  error?: any;
+}
+
+export interface SaveResult {
+  success: boolean;
+  error?: any;
+  savedLocally: boolean;
+  operations: OperationResult[];
+}
+
+export interface CancellationResult {
+  success: boolean;
+  message: string;
+  promoted?: Participant;
+}
+
+export interface EnrollmentCheck {
+  canEnroll: boolean;
+  reason?: string;
+  participationFull?: ParticipationType; // Set when only the local or remote seats are the limit
+}
+
+export interface AdminActionResult {
+  success: boolean;
+  message: string;
+}
+
+export interface CheckInResult extends AdminActionResult {
+  pendingSync?: boolean; // Marked on this device only, sent when the connection returns
+}
+
+// Participant details an organiser may edit
+export type ParticipantDetails = Partial<Pick<Participant, 'name' | 'needsDiversityQuota' | 'participationType' | 'acceptsRemoteFallback'>>;
+
+export type EnrollmentRequest = Omit<Participant, 'id' | 'enrolledAt' | 'managementTokenHash'>;
+
+export interface EnrollmentResult {
+  success: boolean;
+  message: string;
+  addedToQueue?: boolean;
+  managementToken?: string; // Shown once; only its hash is stored
+  managementLink?: string;
+  participationType?: ParticipationType; // Seat actually taken, after any remote fallback
+  queuePosition?: number; // 1-based, when added to the waiting queue
+  quotaTrack?: QuotaTrack;
+  pendingSync?: boolean; // Saved on this device only, sent when the connection returns
+  networkError?: boolean; // The database could not be reached, nothing was saved there
+}
+
+// The management token handed to the participant. Outbox replays carry only the token, the link was shown
+// when the enrollment was saved; entries saved before tokens were kept in the outbox have neither.
+type TokenDetails = { managementToken?: string; managementLink?: string };
+
+// What happened to an outbox enrollment when it was finally sent
+export interface SyncOutcome {
+  requestId: string;
+  name: string;
+  sessionId: string;
+  success: boolean;
+  addedToQueue: boolean;
+  queuePosition?: number;
+  message: string;
+}
+
+// The quota a participant competes for: the men's diversity quota or the women/non-binary spots
+export type QuotaTrack = 'diversity-quota' | 'women-non-binary';
+
+export function getQuotaTrack(participant: Pick<Participant, 'needsDiversityQuota'>): QuotaTrack {
+  return participant.needsDiversityQuota ? 'diversity-quota' : 'women-non-binary';
+}
+
+export const QUOTA_TRACK_LABELS: Record<QuotaTrack, string> = {
+  'diversity-quota': 'diversity quota',
+  'women-non-binary': 'women and non-binary',
 };
 
-// Helper function to check if we're still in the restriction period
-function isSecondSessionRestricted(): boolean {
-  const now = new Date();
-  return now < SECOND_SESSION_RESTRICTION.cutoffDate;
+export interface QueueStatus {
+  sessionId: string;
+  position: number; // 1-based
+  quotaTrack: QuotaTrack;
+  participationType: ParticipationType;
+  aheadOnSameTrack: number; // People ahead waiting for the same quota track and seat type
+  aheadDiversityQuota: number;
+  aheadWomenNonBinary: number;
+  priorityWindows: PriorityWindowEligibility[];
 }
 
-// Helper function to get participant's position in first session waiting queue (1-based, 0 if not found)
-function getParticipantPositionInFirstWaitingQueue(participantName: string, state: MultiSessionEnrollmentState): number {
-  const firstSessionState = state.sessions['session-1'];
-  if (!firstSessionState) return 0;
-  
-  const normalizedName = participantName.toLowerCase().trim();
-  
-  // Find position in first session waiting queue (1-based index)
-  const position = firstSessionState.waitingQueue.findIndex(p => 
-    p.name.toLowerCase().trim() === normalizedName
-  );
-  
-  return position >= 0 ? position + 1 : 0; // Convert to 1-based, return 0 if not found
+// Outcome returned by the enroll_participant database function
+interface ServerEnrollmentOutcome {
+  status: 'enrolled' | 'queued' | 'rejected' | 'notice' | 'duplicate';
+  message: string;
+  participant?: any; // Row as stored in enrolled_participants or waiting_queue_participants
 }
 
-// Helper function to check if participant can enroll to second session during restriction
-function canParticipantEnrollToSecondSession(participantName: string, state: MultiSessionEnrollmentState): { canEnroll: boolean; position: number; reason?: string } {
-  const position = getParticipantPositionInFirstWaitingQueue(participantName, state);
-  
-  if (position === 0) {
-    return { canEnroll: false, position: 0, reason: 'not in first session waiting queue' };
-  }
-  
-  if (position > SECOND_SESSION_RESTRICTION.maxWaitingQueuePosition) {
-    return { canEnroll: false, position, reason: 'beyond eligible position in waiting queue' };
-  }
-  
-  return { canEnroll: true, position };
+// Outcome returned by the find_enrollment, cancel_enrollment and change_participation_type database functions
+interface ServerTokenOutcome {
+  status: 'found' | 'cancelled' | 'updated' | 'not_found' | 'rejected';
+  message?: string;
+  participant_id?: string; // Enrollment the token belongs to, from find_enrollment
+  was_waiting?: boolean;
+  promoted?: any; // Row moved into enrolled_participants, if a seat was freed
+}
+
+export interface ImportRowOutcome {
+  line: number;
+  name: string;
+  sessionId: string;
+  placement: 'enrolled' | 'queued' | 'rejected';
+  participationType: ParticipationType;
+  message: string;
+}
+
+export interface ImportResult {
+  success: boolean;
+  message: string;
+  outcomes: ImportRowOutcome[];
 }
 
-// Fallback to localStorage for offline support
-const STORAGE_KEY = 'vibe-coding-enrollment';
+interface PlacementDecision {
+  placement: 'enrolled' | 'queued' | 'rejected' | 'notice'; // notice: not placed, already in the queue system elsewhere
+  participationType: ParticipationType; // May differ from the request after the remote fallback
+  message: string;
+}
 
-interface StorageData {
-  state: MultiSessionEnrollmentState;
-  lastUpdated: string;
+export interface ManagedEnrollment {
+  participant: Participant;
+  sessionId: string;
+  inWaitingQueue: boolean;
+  queuePosition?: number; // 1-based position when in the waiting queue
 }
 
 export class EnrollmentService {
   private state: MultiSessionEnrollmentState;
+  private sessions: Session[] = SESSIONS;
   private isLoading = false;
   private currentSessionId = DEFAULT_SESSION_ID;
+  private initialLoad: Promise<void>;
+  private listeners = new Set<() => void>();
+  private realtimeChannel: RealtimeChannel | null = null;
+  private pollingTimer: ReturnType<typeof setInterval> | null = null;
+  private isSyncing = false;
+  private isSyncingCheckIns = false;
+  private syncOutcomes: SyncOutcome[] = [];
 
-  constructor(initialState?: MultiSessionEnrollmentState) {
+  private readonly repository: EnrollmentRepository;
+  // Only set with the Supabase repository: database functions, realtime and contact emails need it
+  private readonly supabase: SupabaseClient | null;
+  private readonly clock: Clock;
+  private readonly mailTransport: MailTransport;
+
+  constructor(
+    repository: EnrollmentRepository = createDefaultRepository(),
+    initialState?: MultiSessionEnrollmentState,
+    clock: Clock = systemClock,
+    mailTransport?: MailTransport
+  ) {
+    this.repository = repository;
+    this.supabase = repository.client ?? null;
+    this.clock = clock;
+    // From the repository's own client, so a preview or test service never mails through the live database
+    this.mailTransport = mailTransport ?? createMailTransport(this.supabase);
     // Initialize with empty states for all sessions
+    this.state = initialState || { sessions: this.createEmptySessionsState() };
+    this.initialLoad = this.archivePastSessions().then(() => this.loadFromRepository());
+  }
+
+  // false when enrollments are only stored on this device, so other visitors won't see them
+  isShared(): boolean {
+    return this.repository.shared;
+  }
+
+  // The time enrollment rules are evaluated at; the form asks here rather than calling new Date()
+  now(): Date {
+    return this.clock.now();
+  }
+
+  // The moment an organiser preview started from, or null for the real time
+  getPreviewTime(): Date | null {
+    return this.clock.previewFrom ?? null;
+  }
+
+  // Resolves once the first load (Supabase or localStorage) has finished
+  ready(): Promise<void> {
+    return this.initialLoad;
+  }
+
+  // Register a callback for any change to the enrollment state; returns an unsubscribe function
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.warn('Enrollment listener failed:', error);
+      }
+    });
+  }
+
+  // Push inserts/updates/deletes from other browsers into the local state as they happen.
+  // Falls back to polling when realtime is unavailable.
+  startLiveUpdates(): void {
+    if (!this.supabase) {
+      return;
+    }
+    if (this.realtimeChannel) {
+      return;
+    }
+
+    const handleChange = (table: string) => (payload: RealtimePostgresChangesPayload<any>) => {
+      this.applyRealtimeChange(table, payload);
+    };
+
+    this.realtimeChannel = this.supabase
+      .channel('enrollment-changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: ENROLLED_TABLE }, handleChange(ENROLLED_TABLE))
+      .on('postgres_changes', { event: '*', schema: 'public', table: WAITING_QUEUE_TABLE }, handleChange(WAITING_QUEUE_TABLE))
+      .subscribe((status) => {
+        console.log('📡 Realtime status:', status);
+        if (status === 'SUBSCRIBED') {
+          this.stopPolling();
+          // Catch up on anything that changed before the subscription was active
+          this.loadFromRepository();
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          this.startPolling();
+        }
+      });
+  }
+
+  stopLiveUpdates(): void {
+    if (this.realtimeChannel && this.supabase) {
+      this.supabase.removeChannel(this.realtimeChannel);
+    }
+    this.realtimeChannel = null;
+    this.stopPolling();
+  }
+
+  private startPolling(): void {
+    if (this.pollingTimer) {
+      return;
+    }
+    console.log(`⏱️ Realtime unavailable, polling every ${POLLING_INTERVAL_MS / 1000}s`);
+    this.pollingTimer = setInterval(() => {
+      this.loadFromRepository();
+    }, POLLING_INTERVAL_MS);
+  }
+
+  private stopPolling(): void {
+    if (this.pollingTimer) {
+      clearInterval(this.pollingTimer);
+      this.pollingTimer = null;
+    }
+  }
+
+  // Apply one realtime row change to the local copy of the state
+  private applyRealtimeChange(table: string, payload: RealtimePostgresChangesPayload<any>): void {
+    console.log(`📡 Realtime ${payload.eventType} on ${table}`);
+    const listKey: keyof EnrollmentState = table === ENROLLED_TABLE ? 'enrolled' : 'waitingQueue';
+
+    if (payload.eventType === 'DELETE') {
+      // Delete payloads only carry the primary key
+      const id = (payload.old as any)?.id;
+      Object.values(this.state.sessions).forEach(sessionState => {
+        sessionState[listKey] = sessionState[listKey].filter(p => p.id !== id);
+      });
+    } else {
+      const participant = mapRowToParticipant(payload.new);
+      const sessionState = this.state.sessions[participant.sessionId];
+      if (!sessionState) {
+        return;
+      }
+      const others = sessionState[listKey].filter(p => p.id !== participant.id);
+      sessionState[listKey] = [...others, participant]
+        .sort((a, b) => a.enrolledAt.getTime() - b.enrolledAt.getTime());
+    }
+
+    this.saveToCache();
+    this.notifyListeners();
+  }
+
+  private createEmptySessionsState(): { [sessionId: string]: EnrollmentState } {
     const sessionsState: { [sessionId: string]: EnrollmentState } = {};
-    SESSIONS.forEach(session => {
+    this.sessions.forEach(session => {
       sessionsState[session.id] = {
         enrolled: [],
         waitingQueue: [],
       };
     });
+    return sessionsState;
+  }
+
+  // Make sure every known session has a state entry so enrollments always have somewhere to go
+  private ensureSessionStates(): void {
+    this.sessions.forEach(session => {
+      if (!this.state.sessions[session.id]) {
+        this.state.sessions[session.id] = { enrolled: [], waitingQueue: [] };
+      }
+    });
+  }
 
-    this.state = initialState || { sessions: sessionsState };
-    this.loadFromSupabase();
+  // Sessions available for enrollment, ordered by date
+  getSessions(): Session[] {
+    return [...this.sessions];
+  }
+
+  getSession(sessionId: string): Session | undefined {
+    return this.sessions.find(session => session.id === sessionId);
+  }
+
+  // First session in the list, falling back to the built-in default
+  getDefaultSessionId(): string {
+    const active = this.getActiveSessions();
+    if (active.some(session => session.id === DEFAULT_SESSION_ID)) {
+      return DEFAULT_SESSION_ID;
+    }
+    return active[0]?.id ?? this.sessions[0]?.id ?? DEFAULT_SESSION_ID;
+  }
+
+  // Sessions that have not been archived yet; the public selectors only offer these
+  getActiveSessions(): Session[] {
+    const now = this.clock.now();
+    return this.sessions.filter(session => !isSessionArchived(session, now));
+  }
+
+  // Archived sessions with their final lists, for the organiser history view
+  async getArchive(): Promise<SessionArchive[]> {
+    return this.repository.loadArchive();
+  }
+
+  // Runs before the first load, so the lists of sessions that have taken place are already gone from it
+  private async archivePastSessions(): Promise<void> {
+    try {
+      await this.repository.archivePastSessions(this.clock.now());
+    } catch (error) {
+      console.warn('Failed to archive past sessions:', error);
+    }
   }
 
   // Set current session for operations
@@ -142,250 +537,153 @@ export class EnrollmentService {
     return this.state.sessions[sessionId] || { enrolled: [], waitingQueue: [] };
   }
 
-  // Load data from Supabase with localStorage fallback
-  private async loadFromSupabase(): Promise<void> {
+  // Load data from the repository, falling back to the offline cache
+  private async loadFromRepository(): Promise<void> {
     if (this.isLoading) {
       console.log('⏳ Already loading, skipping...');
       return;
     }
     this.isLoading = true;
     
-    console.log('🔄 Starting loadFromSupabase...');
+    console.log(`🔄 Loading from the ${this.repository.kind} repository...`);
 
     try {
-      // Check if Supabase is available
-      if (!supabase) {
-        console.log('Supabase not configured, using localStorage only');
-        this.loadFromLocalStorage();
-        this.isLoading = false;
-        return;
+      const snapshot = await this.repository.load();
+      if (snapshot.sessions) {
+        this.sessions = snapshot.sessions;
+        console.log(`🗓️ Loaded ${this.sessions.length} sessions`);
+      } else {
+        this.loadSessionsFromCache();
       }
 
-      // First try to load from Supabase
-      console.log('📡 Fetching data from Supabase...');
-      const [enrolledResponse, waitingResponse] = await Promise.all([
-        supabase.from(ENROLLED_TABLE).select('*').order('enrolled_at', { ascending: true }),
-        supabase.from(WAITING_QUEUE_TABLE).select('*').order('enrolled_at', { ascending: true })
-      ]);
+      console.log(`📊 Loaded ${snapshot.enrolled.length} enrolled and ${snapshot.waitingQueue.length} waiting`);
 
-      if (enrolledResponse.error || waitingResponse.error) {
-        console.warn('Supabase error, falling back to localStorage:', 
-                    enrolledResponse.error || waitingResponse.error);
-        this.loadFromLocalStorage();
-      } else {
-        console.log(`📊 Loaded ${(enrolledResponse.data || []).length} enrolled and ${(waitingResponse.data || []).length} waiting from Supabase`);
-        
-        // Successfully loaded from Supabase - group by session
-        const enrolledParticipants = (enrolledResponse.data || []).map(this.mapSupabaseToParticipant);
-        const waitingParticipants = (waitingResponse.data || []).map(this.mapSupabaseToParticipant);
-
-        console.log('👥 Mapped participants:', {
-          enrolled: enrolledParticipants.length,
-          waiting: waitingParticipants.length,
-          enrolledBySession: enrolledParticipants.reduce((acc, p) => {
-            acc[p.sessionId] = (acc[p.sessionId] || 0) + 1;
-            return acc;
-          }, {} as Record<string, number>)
-        });
-
-        // Reset session states
-        const sessionsState: { [sessionId: string]: EnrollmentState } = {};
-        SESSIONS.forEach(session => {
-          sessionsState[session.id] = {
-            enrolled: enrolledParticipants.filter(p => p.sessionId === session.id),
-            waitingQueue: waitingParticipants.filter(p => p.sessionId === session.id),
-          };
-        });
-        
-        this.state = { sessions: sessionsState };
-        
-        console.log('🏠 Updated state with session breakdown:', 
-          Object.entries(this.state.sessions).map(([id, state]) => 
-            `${id}: ${state.enrolled.length} enrolled, ${state.waitingQueue.length} waiting`
-          )
-        );
-        
-        // Update localStorage with latest data
-        this.saveToLocalStorage();
-        console.log('✅ Data loaded from Supabase successfully');
-      }
+      // Group by session
+      const sessionsState: { [sessionId: string]: EnrollmentState } = {};
+      this.sessions.forEach(session => {
+        sessionsState[session.id] = {
+          enrolled: snapshot.enrolled.filter(p => p.sessionId === session.id),
+          waitingQueue: snapshot.waitingQueue.filter(p => p.sessionId === session.id),
+        };
+      });
+      this.state = { sessions: sessionsState };
+      // Check-ins still waiting on this device stay visible on top of what the database has
+      this.getPendingCheckIns().forEach(entry => {
+        if (this.state.sessions[entry.sessionId]) {
+          this.state.sessions[entry.sessionId] = applyCheckIn(this.state.sessions[entry.sessionId], entry.participant, entry.walkIn);
+        }
+      });
+      
+      console.log('🏠 Updated state with session breakdown:', 
+        Object.entries(this.state.sessions).map(([id, state]) => 
+          `${id}: ${state.enrolled.length} enrolled, ${state.waitingQueue.length} waiting`
+        )
+      );
+      
+      // Update the offline cache with the latest data
+      this.saveToCache();
+      console.log('✅ Data loaded successfully');
     } catch (error) {
-      console.warn('❌ Failed to load from Supabase, using localStorage:', error);
-      this.loadFromLocalStorage();
+      console.warn('❌ Failed to load from the repository, using the offline cache:', error);
+      this.loadFromCache();
     } finally {
       this.isLoading = false;
+      this.notifyListeners();
     }
   }
 
-  // Fallback to localStorage
-  private loadFromLocalStorage(): void {
+  // Restore the cached session list without touching participant state
+  private loadSessionsFromCache(): void {
     try {
-      const localData = localStorage.getItem(STORAGE_KEY);
-      if (localData) {
-        const parsed: StorageData = JSON.parse(localData);
-        
-        // Handle both old single-session format and new multi-session format
-        if ('sessions' in parsed.state) {
-          // New multi-session format
-          this.state = {
-            sessions: Object.fromEntries(
-              Object.entries(parsed.state.sessions).map(([sessionId, sessionState]) => [
-                sessionId,
-                {
-                  enrolled: sessionState.enrolled.map(p => ({...p, enrolledAt: new Date(p.enrolledAt)})),
-                  waitingQueue: sessionState.waitingQueue.map(p => ({...p, enrolledAt: new Date(p.enrolledAt)}))
-                }
-              ])
-            )
-          };
-        } else {
-          // Legacy single-session format - migrate to first session
-          const legacyState = parsed.state as any;
-          const sessionsState: { [sessionId: string]: EnrollmentState } = {};
-          SESSIONS.forEach((session, index) => {
-            if (index === 0) {
-              // First session gets the legacy data
-              sessionsState[session.id] = {
-                enrolled: (legacyState.enrolled || []).map((p: any) => ({
-                  ...p, 
-                  enrolledAt: new Date(p.enrolledAt),
-                  sessionId: session.id
-                })),
-                waitingQueue: (legacyState.waitingQueue || []).map((p: any) => ({
-                  ...p, 
-                  enrolledAt: new Date(p.enrolledAt),
-                  sessionId: session.id
-                }))
-              };
-            } else {
-              // Other sessions start empty
-              sessionsState[session.id] = { enrolled: [], waitingQueue: [] };
-            }
-          });
-          this.state = { sessions: sessionsState };
-        }
-        
-        console.log('Data loaded from localStorage');
+      const cached = this.repository.readCache();
+      if (cached?.sessions && cached.sessions.length > 0) {
+        this.sessions = cached.sessions;
       }
     } catch (error) {
-      console.warn('Failed to load from localStorage:', error);
+      console.warn('Failed to load cached sessions:', error);
     }
   }
 
-  // Convert Supabase row to Participant object
-  private mapSupabaseToParticipant(row: any): Participant {
-    return {
-      id: row.id,
-      name: row.name,
-      needsDiversityQuota: row.needs_diversity_quota,
-      participationType: row.participation_type,
-      enrolledAt: new Date(row.enrolled_at),
-      sessionId: row.session_id || DEFAULT_SESSION_ID // Handle legacy data without session_id
-    };
-  }
-
-  // Convert Participant to Supabase row
-  private mapParticipantToSupabase(participant: Participant) {
-    return {
-      id: participant.id,
-      name: participant.name,
-      needs_diversity_quota: participant.needsDiversityQuota,
-      participation_type: participant.participationType,
-      enrolled_at: participant.enrolledAt.toISOString(),
-      session_id: participant.sessionId
-    };
-  }
-
-  // Save to localStorage as backup
-  private saveToLocalStorage(): void {
+  // Offline fallback (see lib/storage.ts for the localStorage format and its migrations)
+  private loadFromCache(): void {
     try {
-      const storageData: StorageData = {
-        state: this.state,
-        lastUpdated: new Date().toISOString()
-      };
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(storageData));
+      const cached = this.repository.readCache();
+      if (cached) {
+        if (cached.sessions && cached.sessions.length > 0) {
+          this.sessions = cached.sessions;
+        }
+        this.state = cached.state;
+        console.log('Data loaded from the offline cache');
+      }
     } catch (error) {
-      console.warn('Failed to save to localStorage:', error);
+      console.warn('Failed to load the offline cache:', error);
     }
+    this.ensureSessionStates();
   }
 
-  // Save data to Supabase using upsert to handle duplicates properly with retry logic
-  private async saveToSupabase(): Promise<void> {
-    if (!supabase) {
-      console.log('Supabase not configured, skipping sync');
-      return;
+  // Keep an offline copy of the whole state
+  private saveToCache(): void {
+    try {
+      this.repository.writeCache({ state: this.state, sessions: this.sessions });
+    } catch (error) {
+      console.warn('Failed to save the offline cache:', error);
     }
-    
-    // Capture supabase reference for use inside retry callback
-    const supabaseClient = supabase;
-    
-    await retryOperation(async () => {
-      console.log('🗄️ Starting Supabase upsert operation...');
-
-      // Collect all participants from all sessions
-      const allEnrolled: Participant[] = [];
-      const allWaiting: Participant[] = [];
-
-      Object.values(this.state.sessions).forEach(sessionState => {
-        allEnrolled.push(...sessionState.enrolled);
-        allWaiting.push(...sessionState.waitingQueue);
-      });
-      
-      console.log(`📊 Preparing to upsert ${allEnrolled.length} enrolled and ${allWaiting.length} waiting participants`);
-
-      // Upsert enrolled participants (insert new, update existing)
-      if (allEnrolled.length > 0) {
-        const enrolledData = allEnrolled.map(this.mapParticipantToSupabase);
-        console.log('💾 Upserting enrolled participants:', enrolledData);
-        const { error: enrolledError } = await supabaseClient
-          .from(ENROLLED_TABLE)
-          .upsert(enrolledData, { onConflict: 'id' })
-          .select();
-
-        if (enrolledError) {
-          console.error('❌ Error upserting enrolled participants:', enrolledError);
-          throw enrolledError;
-        } else {
-          console.log('✅ Enrolled participants upserted successfully');
-        }
-      }
+  }
 
-      // Upsert waiting queue participants (insert new, update existing)
-      if (allWaiting.length > 0) {
-        const waitingData = allWaiting.map(this.mapParticipantToSupabase);
-        console.log('💾 Upserting waiting participants:', waitingData);
-        const { error: waitingError } = await supabaseClient
-          .from(WAITING_QUEUE_TABLE)
-          .upsert(waitingData, { onConflict: 'id' })
-          .select();
+  // Persist one change, touching only that participant's row
+  private async applyChange(change: ParticipantChange): Promise<void> {
+    const { operation, list, from, participant } = change;
 
-        if (waitingError) {
-          console.error('❌ Error upserting waiting participants:', waitingError);
-          throw waitingError;
+    await retryOperation(async () => {
+      try {
+        if (operation === 'insert') {
+          await this.repository.insertParticipant(list, participant);
+        } else if (operation === 'update') {
+          await this.repository.updateParticipant(list, participant);
+        } else if (operation === 'move') {
+          await this.repository.moveParticipant(participant, from!, list);
         } else {
-          console.log('✅ Waiting participants upserted successfully');
+          await this.repository.deleteParticipant(list, participant);
         }
+      } catch (error) {
+        console.error(`❌ Error applying ${operation} on ${list} for ${participant.id}:`, error);
+        throw error;
       }
-
-      console.log('✅ Data upserted to Supabase successfully');
-    }, 'Supabase upsert operation');
+      console.log(`✅ ${operation} on ${list} for ${participant.id} succeeded`);
+    }, `${operation} on ${list}`);
   }
 
-  // Save data to both Supabase and localStorage
-  private async saveData(): Promise<{ success: boolean; error?: any; savedLocally: boolean }> {
-    // Always save to localStorage first (for immediate backup)
-    this.saveToLocalStorage();
+  // Save the offline cache and persist the given changes to the repository in order.
+  // Stops at the first failure; later changes are reported as not attempted.
+  private async saveData(changes: ParticipantChange[]): Promise<SaveResult> {
+    // Always save the offline cache first (for immediate backup)
+    this.saveToCache();
     const savedLocally = true;
-    
-    try {
-      // Then save to Supabase with retry logic
-      await this.saveToSupabase();
-      return { success: true, savedLocally };
-    } catch (error) {
-      console.error('❌ Supabase save failed after retries:', error);
-      // Don't just warn - throw the error so the user knows about the failure
-      return { success: false, error, savedLocally };
+    this.notifyListeners();
+
+    const operations: OperationResult[] = [];
+    let firstError: any;
+
+    for (const change of changes) {
+      const base = { operation: change.operation, list: change.list, participantId: change.participant.id };
+      if (firstError) {
+        operations.push({ ...base, status: 'not-attempted' });
+        continue;
+      }
+      try {
+        await this.applyChange(change);
+        operations.push({ ...base, status: 'applied' });
+      } catch (error) {
+        console.error('❌ Save failed after retries:', error);
+        firstError = error;
+        operations.push({ ...base, status: 'failed', error });
+      }
     }
+
+    console.log('💾 Save operations:', operations.map(op => `${op.operation} ${op.list} ${op.participantId}: ${op.status}`));
+    return firstError
+      ? { success: false, error: firstError, savedLocally, operations }
+      : { success: true, savedLocally, operations };
   }
 
   getState(sessionId?: string): EnrollmentState {
@@ -397,10 +695,23 @@ export class EnrollmentService {
     };
   }
 
+  // Capacity and quota numbers for a session, falling back to the global defaults
+  getSessionPolicy(sessionId?: string): SessionPolicy {
+    const session = this.getSession(sessionId || this.currentSessionId);
+    return {
+      capacity: session?.capacity ?? MAX_CAPACITY,
+      menQuota: session?.menQuota ?? MEN_QUOTA,
+      womenNonBinarySpots: session?.womenNonBinarySpots ?? WOMEN_NON_BINARY_SPOTS,
+      localCapacity: session?.localCapacity,
+      remoteCapacity: session?.remoteCapacity,
+    };
+  }
+
   getEnrollmentStats(sessionId?: string) {
     const targetSessionId = sessionId || this.currentSessionId;
     const sessionState = this.getSessionState(targetSessionId);
     const enrolled = sessionState.enrolled;
+    const policy = this.getSessionPolicy(targetSessionId);
     
     const menCount = enrolled.filter(p => p.needsDiversityQuota).length;
     const womenCount = enrolled.filter(p => !p.needsDiversityQuota).length;
@@ -416,34 +727,63 @@ export class EnrollmentService {
       women: womenCount,
       local: localCount,
       remote: remoteCount,
-      availableSpots: MAX_CAPACITY - enrolled.length,
+      availableSpots: policy.capacity - enrolled.length,
       waitingQueueLength: sessionState.waitingQueue.length,
-      menQuotaRemaining: MEN_QUOTA - menQuotaUsed,
-      womenNonBinarySpotsRemaining: WOMEN_NON_BINARY_SPOTS - womenNonBinaryCount,
+      menQuotaRemaining: policy.menQuota - menQuotaUsed,
+      womenNonBinarySpotsRemaining: policy.womenNonBinarySpots - womenNonBinaryCount,
       menQuotaUsed: menQuotaUsed,
+      capacity: policy.capacity,
+      menQuota: policy.menQuota,
+      womenNonBinarySpots: policy.womenNonBinarySpots,
+      localCapacity: policy.localCapacity,
+      remoteCapacity: policy.remoteCapacity,
+      // null when the session has no separate limit for that participation type
+      localSpotsRemaining: policy.localCapacity !== undefined ? policy.localCapacity - localCount : null,
+      remoteSpotsRemaining: policy.remoteCapacity !== undefined ? policy.remoteCapacity - remoteCount : null,
     };
   }
 
-  canEnroll(needsDiversityQuota: boolean, sessionId?: string): { canEnroll: boolean; reason?: string } {
+  // Quota rules first, then the local/remote seat limits for the requested participation type
+  canEnroll(needsDiversityQuota: boolean, sessionId?: string, participationType?: ParticipationType): EnrollmentCheck {
     const targetSessionId = sessionId || this.currentSessionId;
+    const quotaCheck = this.checkQuota(needsDiversityQuota, targetSessionId);
+    if (!quotaCheck.canEnroll || !participationType) {
+      return quotaCheck;
+    }
+
     const stats = this.getEnrollmentStats(targetSessionId);
+    const spotsRemaining = participationType === 'local' ? stats.localSpotsRemaining : stats.remoteSpotsRemaining;
+    if (spotsRemaining !== null && spotsRemaining <= 0) {
+      return {
+        canEnroll: false,
+        reason: participationType === 'local'
+          ? 'The room is full. You will be added to the waiting queue for a local seat.'
+          : 'Remote seats are full. You will be added to the waiting queue for a remote seat.',
+        participationFull: participationType
+      };
+    }
+    return quotaCheck;
+  }
+
+  private checkQuota(needsDiversityQuota: boolean, sessionId: string): EnrollmentCheck {
+    const stats = this.getEnrollmentStats(sessionId);
 
     // Check if already at capacity
-    if (stats.total >= MAX_CAPACITY) {
+    if (stats.total >= stats.capacity) {
       return { canEnroll: false, reason: 'Diversity quota full' };
     }
 
     // For those needing diversity quota (men)
     if (needsDiversityQuota) {
-      // Check if men quota spots are available (first 3 men)
+      // Check if men quota spots are available (first menQuota men)
       if (stats.menQuotaRemaining > 0) {
         return { canEnroll: true };
       }
-      // Men quota is full (3 men enrolled)
+      // Men quota is full
       // After women/non-binary spots are full, remaining spots become available for men
       if (stats.womenNonBinarySpotsRemaining <= 0) {
         // Check if there are remaining spots after women/non-binary spots are filled
-        const remainingSpots = MAX_CAPACITY - stats.total;
+        const remainingSpots = stats.capacity - stats.total;
         if (remainingSpots > 0) {
           return { canEnroll: true };
         }
@@ -468,216 +808,1216 @@ export class EnrollmentService {
     };
   }
 
-  async enroll(participant: Omit<Participant, 'id' | 'enrolledAt'>): Promise<{ success: boolean; message: string; addedToQueue?: boolean }> {
-    console.log('🚀 Starting enrollment for:', participant);
-    const sessionId = participant.sessionId || DEFAULT_SESSION_ID;
-    console.log('📋 Using session ID:', sessionId);
-    
-    // Check second session restriction
-    if (sessionId === SECOND_SESSION_RESTRICTION.restrictedSessionId && isSecondSessionRestricted()) {
-      const eligibilityCheck = canParticipantEnrollToSecondSession(participant.name, this.state);
-      console.log('🔒 Second session restricted. Eligibility check:', eligibilityCheck);
-      
-      if (!eligibilityCheck.canEnroll) {
-        // Handle different restriction scenarios
-        if (eligibilityCheck.position === 0) {
-          // Not in first session waiting queue - add to second session waiting queue
-          const newParticipant: Participant = {
-            ...participant,
-            sessionId,
-            id: `waiting-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            enrolledAt: new Date(),
-          };
-          
-          console.log('⏳ Adding to second session waiting queue (not in first queue):', newParticipant);
-          this.state.sessions[sessionId].waitingQueue.push(newParticipant);
-          
-          const saveResult = await this.saveData();
-          console.log('💾 Waiting queue save result:', saveResult);
-          
-          if (saveResult.success) {
-            const cutoffDateFormatted = SECOND_SESSION_RESTRICTION.cutoffDate.toLocaleDateString('en-GB', {
-              weekday: 'long',
-              year: 'numeric',
-              month: 'long',
-              day: 'numeric',
-              hour: '2-digit',
-              minute: '2-digit',
-              timeZoneName: 'short'
-            });
-            
-            return { 
-              success: true, 
-              message: `Until ${cutoffDateFormatted}, only the first ${SECOND_SESSION_RESTRICTION.maxWaitingQueuePosition} participants from the first session waiting queue can enroll directly to the second session. You have been added to the second session waiting queue.`, 
-              addedToQueue: true 
-            };
-          } else {
-            // Remove from local state if database save failed
-            this.state.sessions[sessionId].waitingQueue.pop();
-            
-            const isNetworkError = saveResult.error?.message?.includes('fetch') || 
-                                   saveResult.error?.message?.includes('network') ||
-                                   saveResult.error?.code === 'PGRST301' ||
-                                   saveResult.error?.message?.includes('timeout');
-            
-            if (isNetworkError) {
-              return { 
-                success: false, 
-                message: 'Network error - please check your connection and try again. You were not added to the waiting queue.' 
-              };
-            } else {
-              return { 
-                success: false, 
-                message: 'Database error - please try again or contact support if the problem persists.' 
-              };
-            }
-          }
-        } else {
-          // Participant is in waiting queue but beyond position 17 - don't add to second session queue
-          return {
-            success: true,
-            message: `You are at position ${eligibilityCheck.position} in the first session waiting queue. Only the first ${SECOND_SESSION_RESTRICTION.maxWaitingQueuePosition} participants can enroll to the second session during the restriction period. You are already in the queue system.`
-          };
-        }
+  // Where a new participant goes under the quota and seat rules; shared by enroll() and the CSV import
+  private decidePlacement(
+    participant: Pick<Participant, 'needsDiversityQuota' | 'participationType' | 'acceptsRemoteFallback'>,
+    sessionId: string
+  ): PlacementDecision {
+    let check = this.canEnroll(participant.needsDiversityQuota, sessionId, participant.participationType);
+    let participationType = participant.participationType;
+
+    // Room is full: take a remote seat instead if the participant said that is fine
+    let movedToRemote = false;
+    if (check.participationFull === 'local' && participant.acceptsRemoteFallback) {
+      const remoteCheck = this.canEnroll(participant.needsDiversityQuota, sessionId, 'remote');
+      if (remoteCheck.canEnroll) {
+        check = remoteCheck;
+        participationType = 'remote';
+        movedToRemote = true;
       }
     }
-    
-    const initialStats = this.getEnrollmentStats(sessionId);
-    console.log('📊 Initial stats:', initialStats);
-    
-    const canEnrollResult = this.canEnroll(participant.needsDiversityQuota, sessionId);
-    console.log('✅ Can enroll result:', canEnrollResult);
-
-    if (!canEnrollResult.canEnroll) {
-      // If it's a woman/non-binary and spots are full, add to waiting queue
-      if (!participant.needsDiversityQuota && 
-          this.getEnrollmentStats(sessionId).womenNonBinarySpotsRemaining <= 0) {
-        const newParticipant: Participant = {
-          ...participant,
-          sessionId,
-          id: `waiting-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          enrolledAt: new Date(),
-        };
-        console.log('⏳ Adding to waiting queue:', newParticipant);
-        this.state.sessions[sessionId].waitingQueue.push(newParticipant);
-        
-        const saveResult = await this.saveData();
-        console.log('💾 Waiting queue save result:', saveResult);
-        
-        if (saveResult.success) {
-          return { 
-            success: true, 
-            message: 'Added to waiting queue', 
-            addedToQueue: true 
-          };
-        } else {
-          // Remove from local state if database save failed
-          this.state.sessions[sessionId].waitingQueue.pop();
-          
-          const isNetworkError = saveResult.error?.message?.includes('fetch') || 
-                                 saveResult.error?.message?.includes('network') ||
-                                 saveResult.error?.code === 'PGRST301' ||
-                                 saveResult.error?.message?.includes('timeout');
-          
-          if (isNetworkError) {
-            return { 
-              success: false, 
-              message: 'Network error - please check your connection and try again. You were not added to the waiting queue.' 
-            };
-          } else {
-            return { 
-              success: false, 
-              message: 'Database error - please try again or contact support if the problem persists.' 
-            };
-          }
-        }
+
+    if (check.canEnroll) {
+      return {
+        placement: 'enrolled',
+        participationType,
+        message: movedToRemote
+          ? 'Successfully enrolled! The room is full, so you will join remotely in Teams.'
+          : 'Successfully enrolled!'
+      };
+    }
+
+    // If it's a woman/non-binary and spots are full, or the room/remote seats are full, add to waiting queue
+    if (check.participationFull ||
+        (!participant.needsDiversityQuota &&
+         this.getEnrollmentStats(sessionId).womenNonBinarySpotsRemaining <= 0)) {
+      return {
+        placement: 'queued',
+        participationType: participant.participationType,
+        message: check.participationFull === 'local'
+          ? 'The room is full. Added to waiting queue for a local seat'
+          : check.participationFull === 'remote'
+            ? 'Remote seats are full. Added to waiting queue for a remote seat'
+            : 'Added to waiting queue'
+      };
+    }
+    return { placement: 'rejected', participationType: participant.participationType, message: check.reason || 'Cannot enroll' };
+  }
+
+  // decidePlacement() after the session's declarative rules (enrollment window, priority windows),
+  // as the client-side enroll path and the import preview apply them
+  private decideWithRules(
+    participant: Pick<Participant, 'name' | 'needsDiversityQuota' | 'participationType' | 'acceptsRemoteFallback'>,
+    sessionId: string
+  ): PlacementDecision {
+    const session = this.getSession(sessionId);
+    if (session) {
+      const ruleDecision = evaluateEnrollmentRules(getSessionRules(session), {
+        name: participant.name,
+        session,
+        sessions: this.sessions,
+        state: this.state,
+        now: this.clock.now()
+      });
+      if (ruleDecision.action === 'reject') {
+        return { placement: 'rejected', participationType: participant.participationType, message: ruleDecision.message };
+      }
+      if (ruleDecision.action === 'notice') {
+        return { placement: 'notice', participationType: participant.participationType, message: ruleDecision.message };
+      }
+      if (ruleDecision.action === 'queue') {
+        return { placement: 'queued', participationType: participant.participationType, message: ruleDecision.message };
       }
-      console.log('❌ Cannot enroll:', canEnrollResult.reason);
-      return { success: false, message: canEnrollResult.reason || 'Cannot enroll' };
     }
+    return this.decidePlacement(participant, sessionId);
+  }
 
-    // Enroll the participant
+  // Put a new participant at the end of a session's waiting queue and persist it
+  private async addToWaitingQueue(
+    participant: Omit<Participant, 'id' | 'enrolledAt'>,
+    sessionId: string,
+    message: string,
+    tokenDetails: TokenDetails
+  ): Promise<EnrollmentResult> {
     const newParticipant: Participant = {
       ...participant,
       sessionId,
-      id: `enrolled-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      enrolledAt: new Date(),
+      id: `waiting-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      enrolledAt: this.clock.now(),
     };
-    console.log('🎉 Enrolling participant:', newParticipant);
-    
-    this.state.sessions[sessionId].enrolled.push(newParticipant);
-    console.log('📝 Added to local state. New count:', this.state.sessions[sessionId].enrolled.length);
+    console.log('⏳ Adding to waiting queue:', newParticipant);
+    const previousState = this.getState(sessionId);
+    this.state.sessions[sessionId].waitingQueue.push(newParticipant);
     
-    const saveResult = await this.saveData();
-    console.log('💾 Save result:', saveResult);
+    const saveResult = await this.saveData([{ operation: 'insert', list: 'waitingQueue', participant: newParticipant }]);
+    console.log('💾 Waiting queue save result:', saveResult);
     
-    const finalStats = this.getEnrollmentStats(sessionId);
-    console.log('📊 Final stats:', finalStats);
-
-    // Handle different save scenarios
     if (saveResult.success) {
-      return { success: true, message: 'Successfully enrolled!' };
-    } else {
-      // Database save failed, but data is saved locally
-      console.error('🚨 Database save failed for enrollment:', saveResult.error);
-      
-      // Remove from local state since we couldn't save to database
-      // This prevents inconsistency between local and database state
-      this.state.sessions[sessionId].enrolled.pop();
-      
-      // Return appropriate error message
-      const isNetworkError = saveResult.error?.message?.includes('fetch') || 
-                             saveResult.error?.message?.includes('network') ||
-                             saveResult.error?.code === 'PGRST301' ||
-                             saveResult.error?.message?.includes('timeout');
-      
-      if (isNetworkError) {
-        return { 
-          success: false, 
-          message: 'Network error - please check your connection and try again. Your enrollment was not saved.' 
-        };
-      } else {
-        return { 
-          success: false, 
-          message: 'Database error - please try again or contact support if the problem persists.' 
-        };
-      }
+      return { 
+        success: true, 
+        message, 
+        addedToQueue: true,
+        ...tokenDetails
+      };
     }
-  }
-  // Set state and save to storage (for a specific session)
-  async setState(state: EnrollmentState, sessionId?: string): Promise<void> {
-    const targetSessionId = sessionId || this.currentSessionId;
-    this.state.sessions[targetSessionId] = state;
-    await this.saveData();
+
+    return this.rollBack(sessionId, previousState, saveResult.error, 'You were not added to the waiting queue.');
   }
 
-  // Manually refresh data from Supabase
-  async refresh(): Promise<void> {
-    console.log('🔄 Manual refresh requested');
-    await this.loadFromSupabase();
+  // Atomic server-side enrollment: the database locks the session, applies the quota rules and
+  // decides enrolled/queued/rejected. Returns null when the database function is not installed.
+  private async enrollOnServer(
+    participant: Omit<Participant, 'id' | 'enrolledAt'>,
+    sessionId: string,
+    tokenDetails: TokenDetails,
+    requestId: string
+  ): Promise<EnrollmentResult | null> {
+    if (!this.supabase) {
+      return null;
+    }
+    const supabaseClient = this.supabase;
+
+    let outcome: ServerEnrollmentOutcome | null;
+    try {
+      outcome = await retryOperation(async () => {
+        const { data, error } = await supabaseClient.rpc(ENROLL_FUNCTION, {
+          p_request_id: requestId,
+          p_session_id: sessionId,
+          p_name: participant.name,
+          p_needs_diversity_quota: participant.needsDiversityQuota,
+          p_participation_type: participant.participationType,
+          p_accepts_remote_fallback: participant.acceptsRemoteFallback ?? false,
+          p_management_token: tokenDetails.managementToken ?? null,
+          p_contact_email: participant.contactEmail ?? null,
+        });
+
+        if (error?.code === FUNCTION_NOT_FOUND_CODE) {
+          return null;
+        }
+        if (error) {
+          throw error;
+        }
+        return data as ServerEnrollmentOutcome;
+      }, 'Enrollment RPC');
+    } catch (error) {
+      console.error('🚨 Server-side enrollment failed:', error);
+      return saveFailure(error, 'Your enrollment was not saved.');
+    }
+
+    if (!outcome) {
+      return null;
+    }
+    console.log('🗄️ Server enrollment outcome:', outcome);
+
+    // Mirror the server's decision in the local copy so the UI updates without a full reload
+    if (outcome.participant && (outcome.status === 'enrolled' || outcome.status === 'queued')) {
+      const saved = mapRowToParticipant(outcome.participant);
+      const sessionState = this.state.sessions[sessionId];
+      const list = outcome.status === 'enrolled' ? sessionState.enrolled : sessionState.waitingQueue;
+      if (!list.some(p => p.id === saved.id)) {
+        list.push(saved);
+      }
+      this.saveToCache();
+      this.notifyListeners();
+    }
+
+    switch (outcome.status) {
+      case 'enrolled':
+        return {
+          success: true,
+          message: outcome.message,
+          participationType: outcome.participant?.participation_type,
+          ...tokenDetails
+        };
+      case 'queued':
+        return { success: true, message: outcome.message, addedToQueue: true, ...tokenDetails };
+      case 'notice':
+        return { success: true, message: outcome.message };
+      default:
+        return { success: false, message: outcome.message };
+    }
+  }
+
+  async enroll(request: EnrollmentRequest): Promise<EnrollmentResult> {
+    console.log('🚀 Starting enrollment for:', request);
+    const sessionId = request.sessionId || DEFAULT_SESSION_ID;
+    console.log('📋 Using session ID:', sessionId);
+
+    // Issue the personal management token up front; the database stores only its hash
+    const managementToken = generateManagementToken();
+    const contactEmail = request.contactEmail?.trim() || undefined;
+    const participant = {
+      ...request,
+      // An email is only kept together with the time consent was given
+      contactEmail: contactEmail && request.emailConsentAt ? contactEmail : undefined,
+      emailConsentAt: contactEmail && request.emailConsentAt ? request.emailConsentAt : undefined,
+      managementTokenHash: await hashManagementToken(managementToken)
+    };
+    const tokenDetails = { managementToken, managementLink: buildManagementLink(managementToken) };
+
+    // Answer from the local copy when we can; the database function checks again under the session lock
+    const duplicate = findDuplicateInSession(this.getSessionState(sessionId), participant);
+    if (duplicate) {
+      console.log('👯 Duplicate enrollment:', duplicate);
+      return { success: false, message: describeDuplicate(duplicate) };
+    }
+
+    // Generated once so retries and outbox replays of the same request are recognised by the database
+    const requestId = generateRequestId();
+
+    // Known to be offline: skip the retries and keep the enrollment for later straight away
+    const offline = this.supabase && typeof navigator !== 'undefined' && !navigator.onLine;
+    const result: EnrollmentResult = offline
+      ? { success: false, message: 'Offline', networkError: true }
+      : await this.placeEnrollment(participant, sessionId, tokenDetails, requestId);
+
+    if (result.networkError && this.supabase) {
+      return this.deferEnrollment({ requestId, sessionId, participant, managementToken, createdAt: new Date(), attempts: 0 }, tokenDetails);
+    }
+
+    // A management token in the result means a row was written (enrolled or queued)
+    if (result.success && result.managementToken) {
+      await this.completeEnrollment(participant, sessionId, result, tokenDetails);
+    }
+    return result;
+  }
+
+  // After a row was written: store the contact email, report the queue position and send the confirmation
+  private async completeEnrollment(
+    participant: Omit<Participant, 'id' | 'enrolledAt'>,
+    sessionId: string,
+    result: EnrollmentResult,
+    tokenDetails: TokenDetails
+  ): Promise<void> {
+    if (participant.contactEmail && tokenDetails.managementToken && this.supabase) {
+      await this.saveContactEmail(tokenDetails.managementToken, participant.contactEmail);
+    }
+    const match = tokenDetails.managementToken ? await this.findByManagementToken(tokenDetails.managementToken) : null;
+    if (match?.inWaitingQueue) {
+      result.queuePosition = match.queuePosition;
+      result.quotaTrack = getQuotaTrack(match.participant);
+    }
+    if (match) {
+      await notifyParticipant(
+        this.mailTransport,
+        match.inWaitingQueue ? 'queued' : 'enrolled',
+        { ...match.participant, contactEmail: participant.contactEmail },
+        this.getSession(sessionId),
+        { ...tokenDetails, queuePosition: match.queuePosition }
+      );
+    }
+  }
+
+  // Keep an enrollment on this device when the database is unreachable; syncOutbox() sends it later
+  private deferEnrollment(entry: PendingEnrollment, tokenDetails: TokenDetails): EnrollmentResult {
+    console.log('📮 Database unreachable, enrollment kept in the outbox:', entry);
+    addToOutbox(entry);
+    this.notifyListeners();
+    return {
+      success: true,
+      pendingSync: true,
+      message: 'No connection to the enrollment database right now. Your enrollment is saved on this device and will be sent automatically when the connection returns. Whether you get a seat or a waiting-queue place is decided then; use your management link to check.',
+      ...tokenDetails
+    };
+  }
+
+  // Enrollments waiting in this device's outbox, oldest first
+  getPendingEnrollments(): PendingEnrollment[] {
+    return typeof window === 'undefined' ? [] : loadOutbox();
+  }
+
+  // Results of the outbox replays since the page was opened, newest first
+  getSyncOutcomes(): SyncOutcome[] {
+    return this.syncOutcomes;
+  }
+
+  // Send the outbox in order. The database applies the quota rules as they are now, so someone who
+  // enrolled while offline may end up in the waiting queue, or be rejected if the session has closed.
+  // Stops at the first network failure and keeps the rest for the next attempt.
+  async syncOutbox(): Promise<SyncOutcome[]> {
+    const pending = this.getPendingEnrollments();
+    if (!this.supabase || this.isSyncing || pending.length === 0) {
+      return [];
+    }
+    this.isSyncing = true;
+    console.log(`📮 Sending ${pending.length} pending enrollment(s)...`);
+
+    const outcomes: SyncOutcome[] = [];
+    try {
+      // Current state, for the client-side fallback and to spot enrollments that already got through
+      await this.loadFromRepository();
+
+      for (const entry of pending) {
+        const { participant, sessionId } = entry;
+        const tokenDetails = { managementToken: entry.managementToken };
+        const existing = entry.managementToken ? await this.findByManagementToken(entry.managementToken) : null;
+
+        let result: EnrollmentResult;
+        if (existing) {
+          // An earlier attempt was saved but its reply was lost
+          result = {
+            success: true,
+            message: existing.inWaitingQueue ? 'Added to waiting queue' : 'Successfully enrolled!',
+            addedToQueue: existing.inWaitingQueue
+          };
+        } else {
+          result = await this.placeEnrollment(participant, sessionId, tokenDetails, entry.requestId);
+        }
+
+        if (result.networkError) {
+          updateOutboxEntry(entry.requestId, { attempts: entry.attempts + 1, lastError: result.message });
+          console.warn('⚠️ Outbox replay stopped, database still unreachable');
+          break;
+        }
+
+        removeFromOutbox(entry.requestId);
+        if (result.success && !existing && (result.addedToQueue || result.participationType)) {
+          await this.completeEnrollment(participant, sessionId, result, tokenDetails);
+        }
+        const match = existing ?? (entry.managementToken ? await this.findByManagementToken(entry.managementToken) : null);
+        outcomes.push({
+          requestId: entry.requestId,
+          name: participant.name,
+          sessionId,
+          success: result.success,
+          addedToQueue: !!result.addedToQueue,
+          queuePosition: match?.queuePosition,
+          message: result.message
+        });
+        console.log('✅ Outbox enrollment sent:', outcomes[outcomes.length - 1]);
+      }
+    } finally {
+      this.isSyncing = false;
+      this.syncOutcomes = [...outcomes.slice().reverse(), ...this.syncOutcomes];
+      this.notifyListeners();
+    }
+    return outcomes;
+  }
+
+  private async placeEnrollment(
+    participant: Omit<Participant, 'id' | 'enrolledAt'>,
+    sessionId: string,
+    tokenDetails: TokenDetails,
+    requestId: string
+  ): Promise<EnrollmentResult> {
+    // With a database, the decision is made server-side so concurrent enrollments can't overbook
+    const serverResult = await this.enrollOnServer(participant, sessionId, tokenDetails, requestId);
+    if (serverResult) {
+      return serverResult;
+    }
+    if (this.supabase) {
+      console.warn(`⚠️ ${ENROLL_FUNCTION} is not installed, enrolling client-side. Run migrate-add-enrollment-rpc.sql.`);
+    }
+
+    const initialStats = this.getEnrollmentStats(sessionId);
+    console.log('📊 Initial stats:', initialStats);
+
+    const decision = this.decideWithRules(participant, sessionId);
+    console.log('✅ Placement decision:', decision);
+    if (decision.placement === 'queued') {
+      return this.addToWaitingQueue(participant, sessionId, decision.message, tokenDetails);
+    }
+    if (decision.placement === 'notice') {
+      return { success: true, message: decision.message };
+    }
+    if (decision.placement === 'rejected') {
+      return { success: false, message: decision.message };
+    }
+    participant.participationType = decision.participationType;
+
+    // Enroll the participant
+    const newParticipant: Participant = {
+      ...participant,
+      sessionId,
+      id: `enrolled-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      enrolledAt: this.clock.now(),
+    };
+    console.log('🎉 Enrolling participant:', newParticipant);
+    
+    const previousState = this.getState(sessionId);
+    this.state.sessions[sessionId].enrolled.push(newParticipant);
+    console.log('📝 Added to local state. New count:', this.state.sessions[sessionId].enrolled.length);
+    
+    const saveResult = await this.saveData([{ operation: 'insert', list: 'enrolled', participant: newParticipant }]);
+    console.log('💾 Save result:', saveResult);
+    
+    const finalStats = this.getEnrollmentStats(sessionId);
+    console.log('📊 Final stats:', finalStats);
+
+    // Handle different save scenarios
+    if (saveResult.success) {
+      return { success: true, message: decision.message, participationType: newParticipant.participationType, ...tokenDetails };
+    } else {
+      // Database save failed, but data is saved locally
+      console.error('🚨 Database save failed for enrollment:', saveResult.error);
+      return this.rollBack(sessionId, previousState, saveResult.error, 'Your enrollment was not saved.');
+    }
+  }
+  // Run one of the management-token database functions. Returns null when Supabase is not
+  // configured or the function is not installed yet; throws on any other error.
+  private async callTokenFunction(name: string, params: Record<string, unknown>): Promise<ServerTokenOutcome | null> {
+    if (!this.supabase) {
+      return null;
+    }
+    const supabaseClient = this.supabase;
+    return retryOperation(async () => {
+      const { data, error } = await supabaseClient.rpc(name, params);
+      if (error?.code === FUNCTION_NOT_FOUND_CODE) {
+        return null;
+      }
+      if (error) {
+        throw error;
+      }
+      return data as ServerTokenOutcome;
+    }, `${name} RPC`);
+  }
+
+  // Store the contact email server-side; it never goes into the public participant tables
+  private async saveContactEmail(token: string, email: string | null): Promise<boolean> {
+    try {
+      const outcome = await this.callTokenFunction(SAVE_CONTACT_FUNCTION, {
+        p_management_token: token.trim(),
+        p_email: email,
+      });
+      if (!outcome) {
+        console.warn(`⚠️ ${SAVE_CONTACT_FUNCTION} is not installed. Run migrate-add-participant-contacts.sql.`);
+        return false;
+      }
+      return outcome.status !== 'not_found';
+    } catch (error) {
+      console.warn('⚠️ Failed to save contact email:', error);
+      return false;
+    }
+  }
+
+  // Give or withdraw consent for email notifications using the management token; null removes the email
+  async updateContactEmail(token: string, email: string | null): Promise<{ success: boolean; message: string }> {
+    const match = await this.findByManagementToken(token);
+    if (!match) {
+      return { success: false, message: 'No enrollment found for this management link.' };
+    }
+    const trimmed = email?.trim() || null;
+
+    if (this.supabase) {
+      const saved = await this.saveContactEmail(token, trimmed);
+      if (!saved) {
+        return { success: false, message: 'Could not update your email preferences. Please try again.' };
+      }
+    } else {
+      const sessionState = this.state.sessions[match.sessionId];
+      const list = match.inWaitingQueue ? sessionState.waitingQueue : sessionState.enrolled;
+      list[list.indexOf(match.participant)] = {
+        ...match.participant,
+        contactEmail: trimmed ?? undefined,
+        emailConsentAt: trimmed ? new Date() : undefined
+      };
+      this.saveToCache();
+    }
+    return {
+      success: true,
+      message: trimmed ? 'You will get email notifications about this enrollment.' : 'Your email has been removed.'
+    };
+  }
+
+  // Look up an enrollment by its personal management token across all sessions. With a database the
+  // token is checked there, since token hashes are never sent to the browser.
+  async findByManagementToken(token: string): Promise<ManagedEnrollment | null> {
+    if (!token.trim()) {
+      return null;
+    }
+
+    let outcome: ServerTokenOutcome | null;
+    try {
+      outcome = await this.callTokenFunction(FIND_ENROLLMENT_FUNCTION, { p_management_token: token.trim() });
+    } catch (error) {
+      console.error('🚨 Management token lookup failed:', error);
+      return null;
+    }
+    if (!outcome) {
+      if (this.supabase) {
+        console.warn(`⚠️ ${FIND_ENROLLMENT_FUNCTION} is not installed. Run migrate-add-management-token.sql.`);
+      }
+      const tokenHash = await hashManagementToken(token);
+      return this.findParticipant(p => p.managementTokenHash === tokenHash);
+    }
+
+    const participantId = outcome.participant_id;
+    if (outcome.status !== 'found' || !participantId) {
+      return null;
+    }
+    // The local copy may not have caught up with an enrollment made on another device yet
+    if (!this.findParticipant(p => p.id === participantId)) {
+      await this.loadFromRepository();
+    }
+    return this.findParticipant(p => p.id === participantId);
+  }
+
+  // The outbox entry for a management token whose enrollment has not reached the database yet
+  async findPendingByManagementToken(token: string): Promise<PendingEnrollment | null> {
+    if (!token.trim()) {
+      return null;
+    }
+    return this.getPendingEnrollments().find(e => e.managementToken === token.trim()) ?? null;
+  }
+
+  private findParticipant(matches: (participant: Participant) => boolean): ManagedEnrollment | null {
+    for (const [sessionId, sessionState] of Object.entries(this.state.sessions)) {
+      const enrolled = sessionState.enrolled.find(matches);
+      if (enrolled) {
+        return { participant: enrolled, sessionId, inWaitingQueue: false };
+      }
+
+      const waitingIndex = sessionState.waitingQueue.findIndex(matches);
+      if (waitingIndex >= 0) {
+        return {
+          participant: sessionState.waitingQueue[waitingIndex],
+          sessionId,
+          inWaitingQueue: true,
+          queuePosition: waitingIndex + 1
+        };
+      }
+    }
+
+    return null;
+  }
+
+  // Where someone stands in the waiting queue, for the "check my status" view; null if not queued
+  async getQueueStatus(token: string): Promise<QueueStatus | null> {
+    const match = await this.findByManagementToken(token);
+    return match ? this.describeQueueStatus(match) : null;
+  }
+
+  // Queue status for an enrollment that has already been looked up
+  describeQueueStatus(match: ManagedEnrollment): QueueStatus | null {
+    if (!match.inWaitingQueue || !match.queuePosition) {
+      return null;
+    }
+
+    const ahead = this.getSessionState(match.sessionId).waitingQueue.slice(0, match.queuePosition - 1);
+    const quotaTrack = getQuotaTrack(match.participant);
+    return {
+      sessionId: match.sessionId,
+      position: match.queuePosition,
+      quotaTrack,
+      participationType: match.participant.participationType,
+      aheadOnSameTrack: ahead.filter(p =>
+        getQuotaTrack(p) === quotaTrack && p.participationType === match.participant.participationType).length,
+      aheadDiversityQuota: ahead.filter(p => p.needsDiversityQuota).length,
+      aheadWomenNonBinary: ahead.filter(p => !p.needsDiversityQuota).length,
+      priorityWindows: getPriorityWindowEligibility(match.sessionId, match.queuePosition, this.sessions, this.clock.now()),
+    };
+  }
+
+  // Switch between local and remote participation using the management token
+  async changeParticipationType(token: string, participationType: ParticipationType): Promise<{ success: boolean; message: string }> {
+    const match = await this.findByManagementToken(token);
+    if (!match) {
+      return { success: false, message: 'No enrollment found for this management link.' };
+    }
+    if (match.participant.participationType === participationType) {
+      return { success: true, message: 'Nothing to change.' };
+    }
+
+    // Participants cannot write rows directly once row-level security is locked down,
+    // so the database function checks the seat limits and promotes in one transaction
+    let outcome: ServerTokenOutcome | null;
+    try {
+      outcome = await this.callTokenFunction(CHANGE_PARTICIPATION_FUNCTION, {
+        p_management_token: token.trim(),
+        p_participation_type: participationType,
+      });
+    } catch (error) {
+      console.error('🚨 Server-side participation change failed:', error);
+      return saveFailure(error, 'Your participation type was not changed.');
+    }
+    if (outcome) {
+      console.log('🗄️ Server participation change outcome:', outcome);
+      await this.loadFromRepository();
+      if (outcome.status === 'not_found') {
+        return { success: false, message: 'No enrollment found for this management link.' };
+      }
+      if (outcome.status !== 'updated') {
+        return { success: false, message: outcome.message || 'Your participation type was not changed.' };
+      }
+      if (outcome.promoted) {
+        await notifyParticipant(this.mailTransport, 'promoted', mapRowToParticipant(outcome.promoted), this.getSession(match.sessionId));
+      }
+      return {
+        success: true,
+        message: participationType === 'local' ? 'You will now participate locally.' : 'You will now participate remotely.'
+      };
+    }
+
+    const sessionState = this.state.sessions[match.sessionId];
+    if (!match.inWaitingQueue) {
+      const stats = this.getEnrollmentStats(match.sessionId);
+      const spotsRemaining = participationType === 'local' ? stats.localSpotsRemaining : stats.remoteSpotsRemaining;
+      if (spotsRemaining !== null && spotsRemaining <= 0) {
+        return {
+          success: false,
+          message: participationType === 'local'
+            ? 'The room is full, so you cannot switch to local participation right now.'
+            : 'Remote seats are full, so you cannot switch to remote participation right now.'
+        };
+      }
+    }
+
+    const previousState = this.getState(match.sessionId);
+    const updated: Participant = { ...match.participant, participationType };
+    const list = match.inWaitingQueue ? sessionState.waitingQueue : sessionState.enrolled;
+    list[list.indexOf(match.participant)] = updated;
+
+    const changes: ParticipantChange[] = [{
+      operation: 'update',
+      list: match.inWaitingQueue ? 'waitingQueue' : 'enrolled',
+      participant: updated
+    }];
+
+    // Switching away from a limited seat type can free a seat for someone in the queue
+    const promoted = match.inWaitingQueue ? undefined : this.promoteFromWaitingQueue(match.sessionId, changes);
+
+    const saveResult = await this.saveData(changes);
+    if (!saveResult.success) {
+      return this.rollBack(match.sessionId, previousState, saveResult.error, 'Your participation type was not changed.');
+    }
+
+    if (promoted) {
+      await notifyParticipant(this.mailTransport, 'promoted', promoted, this.getSession(match.sessionId));
+    }
+    return {
+      success: true,
+      message: participationType === 'local' ? 'You will now participate locally.' : 'You will now participate remotely.'
+    };
+  }
+
+  // Cancel using the management token, so nobody can cancel someone else's spot by name
+  async cancelWithManagementToken(token: string): Promise<CancellationResult> {
+    const match = await this.findByManagementToken(token);
+    if (!match) {
+      return { success: false, message: 'No enrollment found for this management link.' };
+    }
+
+    let outcome: ServerTokenOutcome | null;
+    try {
+      outcome = await this.callTokenFunction(CANCEL_FUNCTION, {
+        p_management_token: token.trim(),
+      });
+    } catch (error) {
+      console.error('🚨 Server-side cancellation failed:', error);
+      return saveFailure(error, 'Your spot was not cancelled.');
+    }
+    if (!outcome) {
+      // No database function (local mode or migration not run yet)
+      return this.cancelEnrollment(match.participant.id, match.sessionId);
+    }
+
+    console.log('🗄️ Server cancellation outcome:', outcome);
+    await this.loadFromRepository();
+    if (outcome.status !== 'cancelled') {
+      return { success: false, message: 'No enrollment found for this management link.' };
+    }
+    const session = this.getSession(match.sessionId);
+    await notifyParticipant(this.mailTransport, 'cancelled', match.participant, session);
+    if (outcome.was_waiting) {
+      return { success: true, message: 'You have been removed from the waiting queue.' };
+    }
+    const promoted = outcome.promoted ? mapRowToParticipant(outcome.promoted) : undefined;
+    if (promoted) {
+      await notifyParticipant(this.mailTransport, 'promoted', promoted, session);
+    }
+    return {
+      success: true,
+      message: promoted
+        ? 'Your spot has been cancelled and offered to the next person in the waiting queue.'
+        : 'Your spot has been cancelled.',
+      promoted
+    };
+  }
+
+  // Pick the first person in the waiting queue who fits the seat that was freed,
+  // using the same quota rules as a fresh enrollment
+  private findPromotionCandidate(sessionId: string): { candidate: Participant; participationType: ParticipationType } | undefined {
+    const sessionState = this.getSessionState(sessionId);
+    for (const candidate of sessionState.waitingQueue) {
+      const check = this.canEnroll(candidate.needsDiversityQuota, sessionId, candidate.participationType);
+      if (check.canEnroll) {
+        return { candidate, participationType: candidate.participationType };
+      }
+      if (check.participationFull === 'local' && candidate.acceptsRemoteFallback &&
+          this.canEnroll(candidate.needsDiversityQuota, sessionId, 'remote').canEnroll) {
+        return { candidate, participationType: 'remote' };
+      }
+    }
+    return undefined;
+  }
+
+  // Move the first eligible person from the waiting queue into a freed seat (local state only)
+  private promoteFromWaitingQueue(sessionId: string, changes: ParticipantChange[]): Participant | undefined {
+    const sessionState = this.state.sessions[sessionId];
+    const match = this.findPromotionCandidate(sessionId);
+    if (!sessionState || !match) {
+      return undefined;
+    }
+
+    const promoted: Participant = { ...match.candidate, participationType: match.participationType, enrolledAt: this.clock.now() };
+    sessionState.waitingQueue = sessionState.waitingQueue.filter(p => p.id !== match.candidate.id);
+    sessionState.enrolled.push(promoted);
+    changes.push({ operation: 'move', list: 'enrolled', from: 'waitingQueue', participant: promoted });
+    console.log('⬆️ Promoting from waiting queue:', promoted);
+    return promoted;
+  }
+
+  // Withdraw a participant; a freed seat goes to the first eligible person in the waiting queue
+  async cancelEnrollment(participantId: string, sessionId?: string): Promise<CancellationResult> {
+    const targetSessionId = sessionId || this.currentSessionId;
+    const sessionState = this.state.sessions[targetSessionId];
+    if (!sessionState) {
+      return { success: false, message: 'Session not found' };
+    }
+
+    const enrolledIndex = sessionState.enrolled.findIndex(p => p.id === participantId);
+    const waitingIndex = sessionState.waitingQueue.findIndex(p => p.id === participantId);
+    if (enrolledIndex < 0 && waitingIndex < 0) {
+      return { success: false, message: 'Participant not found in this session' };
+    }
+
+    const previousState = this.getState(targetSessionId);
+    let promoted: Participant | undefined;
+    let removed: Participant;
+    const changes: ParticipantChange[] = [];
+
+    if (waitingIndex >= 0) {
+      // Leaving the waiting queue frees no seat
+      [removed] = sessionState.waitingQueue.splice(waitingIndex, 1);
+      changes.push({ operation: 'delete', list: 'waitingQueue', participant: removed });
+    } else {
+      [removed] = sessionState.enrolled.splice(enrolledIndex, 1);
+      changes.push({ operation: 'delete', list: 'enrolled', participant: removed });
+
+      promoted = this.promoteFromWaitingQueue(targetSessionId, changes);
+    }
+
+    const saveResult = await this.saveData(changes);
+    console.log('💾 Cancellation save result:', saveResult);
+
+    if (!saveResult.success) {
+      return this.rollBack(targetSessionId, previousState, saveResult.error, 'Your spot was not cancelled.');
+    }
+
+    const session = this.getSession(targetSessionId);
+    await notifyParticipant(this.mailTransport, 'cancelled', removed, session);
+    if (promoted) {
+      await notifyParticipant(this.mailTransport, 'promoted', promoted, session);
+    }
+
+    if (waitingIndex >= 0) {
+      return { success: true, message: 'You have been removed from the waiting queue.' };
+    }
+    return {
+      success: true,
+      message: promoted
+        ? 'Your spot has been cancelled and offered to the next person in the waiting queue.'
+        : 'Your spot has been cancelled.',
+      promoted
+    };
+  }
+
+  // Organiser-only operations are refused here before anything changes locally;
+  // with Supabase, row-level security enforces the same rule on the server
+  private async refuseUnlessOrganiser(): Promise<SaveResult | null> {
+    if (await isOrganiserSignedIn()) {
+      return null;
+    }
+    console.warn('🔒 Refused organiser-only operation without an organiser session');
+    return { success: false, error: new Error(ORGANISER_REQUIRED_MESSAGE), savedLocally: false, operations: [] };
+  }
+
+  // Put a session back as it was before a change the database did not save, so the page never shows
+  // what isn't stored, and explain what was not done
+  private rollBack(sessionId: string, previousState: EnrollmentState, error: unknown, notSaved: string, forOrganiser = false): EnrollmentResult {
+    this.state.sessions[sessionId] = previousState;
+    this.saveToCache();
+    this.notifyListeners();
+    return saveFailure(error, notSaved, forOrganiser);
+  }
+
+  // Organiser actions below write only the rows that differ and restore the local state on failure
+  private async commitSessionState(sessionId: string, next: EnrollmentState, successMessage: string): Promise<AdminActionResult> {
+    if (await this.refuseUnlessOrganiser()) {
+      return { success: false, message: ORGANISER_REQUIRED_MESSAGE };
+    }
+
+    const previousState = this.getState(sessionId);
+    const changes = diffSessionState(previousState, next);
+    this.state.sessions[sessionId] = next;
+
+    const saveResult = await this.saveData(changes);
+    if (!saveResult.success) {
+      return this.rollBack(sessionId, previousState, saveResult.error, 'Nothing was changed.', true);
+    }
+    return { success: true, message: successMessage };
+  }
+
+  // Remove a participant as an organiser; by default a freed seat is offered to the waiting queue
+  async removeParticipant(participantId: string, sessionId: string, promoteNext = true): Promise<AdminActionResult> {
+    if (promoteNext) {
+      if (await this.refuseUnlessOrganiser()) {
+        return { success: false, message: ORGANISER_REQUIRED_MESSAGE };
+      }
+      const result = await this.cancelEnrollment(participantId, sessionId);
+      return {
+        success: result.success,
+        message: result.success && result.promoted
+          ? `Participant removed. ${result.promoted.name} was promoted from the waiting queue.`
+          : result.success ? 'Participant removed.' : result.message
+      };
+    }
+
+    const current = this.getState(sessionId);
+    return this.commitSessionState(sessionId, {
+      enrolled: current.enrolled.filter(p => p.id !== participantId),
+      waitingQueue: current.waitingQueue.filter(p => p.id !== participantId),
+    }, 'Participant removed.');
+  }
+
+  // Move someone from the waiting queue into the enrolled list, overriding the quota rules
+  async promoteParticipant(participantId: string, sessionId: string): Promise<AdminActionResult> {
+    const current = this.getState(sessionId);
+    const participant = current.waitingQueue.find(p => p.id === participantId);
+    if (!participant) {
+      return { success: false, message: 'Participant is not in the waiting queue.' };
+    }
+
+    const overCapacity = current.enrolled.length >= this.getSessionPolicy(sessionId).capacity;
+    const promoted = { ...participant, enrolledAt: this.clock.now() };
+    const result = await this.commitSessionState(sessionId, {
+      enrolled: [...current.enrolled, promoted],
+      waitingQueue: current.waitingQueue.filter(p => p.id !== participantId),
+    }, overCapacity
+      ? `${participant.name} promoted. Note: the session is now over its capacity.`
+      : `${participant.name} promoted.`);
+    if (result.success) {
+      await notifyParticipant(this.mailTransport, 'promoted', promoted, this.getSession(sessionId));
+    }
+    return result;
+  }
+
+  // Move an enrolled participant back to the front of the waiting queue
+  async demoteParticipant(participantId: string, sessionId: string): Promise<AdminActionResult> {
+    const current = this.getState(sessionId);
+    const participant = current.enrolled.find(p => p.id === participantId);
+    if (!participant) {
+      return { success: false, message: 'Participant is not enrolled.' };
+    }
+
+    // Queue order follows enrolledAt, so take a timestamp just before the current first in line
+    const first = current.waitingQueue[0];
+    const enrolledAt = first ? new Date(first.enrolledAt.getTime() - 1) : this.clock.now();
+    return this.commitSessionState(sessionId, {
+      enrolled: current.enrolled.filter(p => p.id !== participantId),
+      waitingQueue: [{ ...participant, enrolledAt }, ...current.waitingQueue],
+    }, `${participant.name} moved to the front of the waiting queue.`);
+  }
+
+  // Put the waiting queue in the given order. Queue order follows enrolledAt, so the
+  // existing timestamps are handed out again in the new order.
+  async reorderQueue(sessionId: string, orderedIds: string[]): Promise<AdminActionResult> {
+    const current = this.getState(sessionId);
+    if (orderedIds.length !== current.waitingQueue.length ||
+        !current.waitingQueue.every(p => orderedIds.includes(p.id))) {
+      return { success: false, message: 'The new order must contain everyone in the waiting queue exactly once.' };
+    }
+
+    const timestamps = current.waitingQueue.map(p => p.enrolledAt.getTime()).sort((a, b) => a - b);
+    const reordered = orderedIds.map((id, index) => ({
+      ...current.waitingQueue.find(p => p.id === id) as Participant,
+      enrolledAt: new Date(timestamps[index])
+    }));
+    return this.commitSessionState(sessionId, {
+      enrolled: current.enrolled,
+      waitingQueue: reordered,
+    }, 'Waiting queue reordered.');
+  }
+
+  // Edit a participant's details without changing their place
+  async updateParticipant(participantId: string, sessionId: string, details: ParticipantDetails): Promise<AdminActionResult> {
+    const current = this.getState(sessionId);
+    const apply = (p: Participant) => p.id === participantId ? { ...p, ...details } : p;
+    if (![...current.enrolled, ...current.waitingQueue].some(p => p.id === participantId)) {
+      return { success: false, message: 'Participant not found in this session.' };
+    }
+    if (details.name !== undefined && !details.name.trim()) {
+      return { success: false, message: 'Name cannot be empty.' };
+    }
+
+    return this.commitSessionState(sessionId, {
+      enrolled: current.enrolled.map(apply),
+      waitingQueue: current.waitingQueue.map(apply),
+    }, 'Participant updated.');
+  }
+
+  // Mark an enrolled participant as arrived at the door
+  async checkIn(participantId: string, sessionId: string): Promise<CheckInResult> {
+    const participant = this.getState(sessionId).enrolled.find(p => p.id === participantId);
+    if (!participant) {
+      return { success: false, message: 'Participant is not enrolled.' };
+    }
+    return this.recordCheckIn(sessionId, { ...participant, checkedInAt: this.clock.now() }, false, `${participant.name} checked in.`);
+  }
+
+  // Take back a check-in tapped by mistake
+  async undoCheckIn(participantId: string, sessionId: string): Promise<CheckInResult> {
+    const participant = this.getState(sessionId).enrolled.find(p => p.id === participantId);
+    if (!participant?.checkedInAt) {
+      return { success: false, message: 'Participant is not checked in.' };
+    }
+    return this.recordCheckIn(sessionId, { ...participant, checkedInAt: undefined }, false, `Check-in of ${participant.name} undone.`);
+  }
+
+  // Let someone from the waiting queue in at the door: promoted and checked in in one step,
+  // overriding the quota rules and capacity like promoteParticipant()
+  async checkInWalkIn(participantId: string, sessionId: string): Promise<CheckInResult> {
+    const current = this.getState(sessionId);
+    const participant = current.waitingQueue.find(p => p.id === participantId);
+    if (!participant) {
+      return { success: false, message: 'Participant is not in the waiting queue.' };
+    }
+    const now = this.clock.now();
+    return this.recordCheckIn(sessionId, { ...participant, enrolledAt: now, checkedInAt: now }, true, `${participant.name} checked in as a walk-in.`);
+  }
+
+  // Check-ins show up in the lists straight away. At the door the connection may come and go, so
+  // instead of rolling back, a check-in that can't reach the database waits in the check-in outbox.
+  private async recordCheckIn(sessionId: string, participant: Participant, walkIn: boolean, successMessage: string): Promise<CheckInResult> {
+    if (await this.refuseUnlessOrganiser()) {
+      return { success: false, message: ORGANISER_REQUIRED_MESSAGE };
+    }
+
+    const previousState = this.getState(sessionId);
+    this.state.sessions[sessionId] = applyCheckIn(previousState, participant, walkIn);
+    const entry: PendingCheckIn = { participantId: participant.id, sessionId, participant, walkIn, createdAt: new Date() };
+
+    // Known to be offline, or an earlier change for this person is still waiting: queue behind it
+    const offline = this.supabase && typeof navigator !== 'undefined' && !navigator.onLine;
+    if (offline || this.getPendingCheckIns().some(e => e.participantId === participant.id)) {
+      return this.deferCheckIn(entry, successMessage);
+    }
+
+    const saveResult = await this.saveData([checkInChange(entry)]);
+    if (!saveResult.success) {
+      if (isNetworkError(saveResult.error)) {
+        return this.deferCheckIn(entry, successMessage);
+      }
+      return this.rollBack(sessionId, previousState, saveResult.error, 'Nothing was changed.', true);
+    }
+    return { success: true, message: successMessage };
+  }
+
+  private deferCheckIn(entry: PendingCheckIn, successMessage: string): CheckInResult {
+    console.log('📮 Database unreachable, check-in kept in the outbox:', entry);
+    addCheckInToOutbox(entry);
+    this.saveToCache();
+    this.notifyListeners();
+    return { success: true, pendingSync: true, message: `${successMessage} Saved on this device until the connection returns.` };
+  }
+
+  // Check-ins waiting in this device's outbox, oldest first
+  getPendingCheckIns(): PendingCheckIn[] {
+    return typeof localStorage === 'undefined' ? [] : loadCheckInOutbox();
+  }
+
+  // Send the check-in outbox in order; returns how many were saved. Stops at the first network
+  // failure and keeps the rest. Needs an organiser session, as row-level security would drop them otherwise.
+  async syncCheckIns(): Promise<number> {
+    const pending = this.getPendingCheckIns();
+    if (this.isSyncingCheckIns || pending.length === 0 || !(await isOrganiserSignedIn())) {
+      return 0;
+    }
+    this.isSyncingCheckIns = true;
+    console.log(`📮 Sending ${pending.length} pending check-in(s)...`);
+
+    let sent = 0;
+    try {
+      for (const entry of pending) {
+        try {
+          await this.applyChange(checkInChange(entry));
+          sent++;
+        } catch (error) {
+          if (isNetworkError(error)) {
+            console.warn('⚠️ Check-in sync stopped, database still unreachable');
+            break;
+          }
+          console.error(`❌ Check-in of ${entry.participant.name} was refused by the database and dropped:`, error);
+        }
+        removeCheckInFromOutbox(entry.participantId);
+      }
+    } finally {
+      this.isSyncingCheckIns = false;
+    }
+    console.log(`✅ ${sent} check-in(s) sent`);
+    await this.loadFromRepository();
+    this.notifyListeners();
+    return sent;
+  }
+
+  // Add imported rows in file order through the same session rules, quota and seat checks as enroll(), so overflow
+  // lands in the waiting queue. Each row goes through enroll_participant when it is installed, which locks the
+  // session, so an import can't overbook while people are enrolling. With dryRun nothing is saved: the rows are
+  // placed against the local copy, which is left as it was.
+  async importParticipants(rows: ParticipantImportRow[], dryRun: boolean): Promise<ImportResult> {
+    if (!dryRun && await this.refuseUnlessOrganiser()) {
+      return { success: false, message: ORGANISER_REQUIRED_MESSAGE, outcomes: [] };
+    }
+    return dryRun ? this.previewImport(rows) : this.runImport(rows);
+  }
+
+  // Why a row can't be imported before any rule is checked, or null
+  private rejectImportRow(row: ParticipantImportRow): ImportRowOutcome | null {
+    const sessionState = this.state.sessions[row.sessionId];
+    const rejected = (message: string): ImportRowOutcome =>
+      ({ line: row.line, name: row.name, sessionId: row.sessionId, placement: 'rejected', participationType: row.participationType, message });
+    if (!sessionState) {
+      return rejected('Session not found');
+    }
+    // Also catches the same person listed twice in the file, since earlier rows are already in the state
+    const duplicate = findDuplicateInSession(sessionState, row);
+    if (duplicate) {
+      return rejected(duplicate.inWaitingQueue
+        ? `Duplicate: ${duplicate.participant.name} is already in the waiting queue at position ${duplicate.queuePosition}`
+        : `Duplicate: ${duplicate.participant.name} is already enrolled`);
+    }
+    return null;
+  }
+
+  private summarizeImport(outcomes: ImportRowOutcome[]): string {
+    const count = (placement: ImportRowOutcome['placement']) => outcomes.filter(o => o.placement === placement).length;
+    return `${count('enrolled')} enrolled, ${count('queued')} queued, ${count('rejected')} rejected.`;
+  }
+
+  private previewImport(rows: ParticipantImportRow[]): ImportResult {
+    const sessionIds = Array.from(new Set(rows.map(row => row.sessionId))).filter(id => this.state.sessions[id]);
+    const previousStates = new Map(sessionIds.map(id => [id, this.getState(id)]));
+
+    const outcomes = rows.map((row, index): ImportRowOutcome => {
+      const rejected = this.rejectImportRow(row);
+      if (rejected) {
+        return rejected;
+      }
+      const decision = this.decideWithRules(row, row.sessionId);
+      if (decision.placement === 'enrolled' || decision.placement === 'queued') {
+        const sessionState = this.state.sessions[row.sessionId];
+        const participant: Participant = {
+          id: `preview-${index}`,
+          name: row.name,
+          needsDiversityQuota: row.needsDiversityQuota,
+          participationType: decision.participationType,
+          acceptsRemoteFallback: row.acceptsRemoteFallback,
+          sessionId: row.sessionId,
+          enrolledAt: this.clock.now(),
+        };
+        (decision.placement === 'enrolled' ? sessionState.enrolled : sessionState.waitingQueue).push(participant);
+      }
+      return {
+        line: row.line,
+        name: row.name,
+        sessionId: row.sessionId,
+        // Someone who gets a notice is not added, so the row is not imported
+        placement: decision.placement === 'notice' ? 'rejected' : decision.placement,
+        participationType: decision.participationType,
+        message: decision.message
+      };
+    });
+
+    previousStates.forEach((state, id) => { this.state.sessions[id] = state; });
+    return { success: true, message: `Preview: ${this.summarizeImport(outcomes)} Nothing has been saved yet.`, outcomes };
+  }
+
+  private async runImport(rows: ParticipantImportRow[]): Promise<ImportResult> {
+    const outcomes: ImportRowOutcome[] = [];
+    let connectionLost = false;
+    for (const row of rows) {
+      const notImported = (message: string): ImportRowOutcome =>
+        ({ line: row.line, name: row.name, sessionId: row.sessionId, placement: 'rejected', participationType: row.participationType, message });
+      if (connectionLost) {
+        outcomes.push(notImported('Not imported: the connection was lost'));
+        continue;
+      }
+      const rejected = this.rejectImportRow(row);
+      if (rejected) {
+        outcomes.push(rejected);
+        continue;
+      }
+
+      const participant = {
+        name: row.name,
+        needsDiversityQuota: row.needsDiversityQuota,
+        participationType: row.participationType,
+        acceptsRemoteFallback: row.acceptsRemoteFallback,
+        sessionId: row.sessionId,
+      };
+      const result = await this.placeEnrollment(participant, row.sessionId, {}, generateRequestId());
+      if (result.networkError) {
+        connectionLost = true;
+        outcomes.push(notImported(result.message));
+        continue;
+      }
+      outcomes.push({
+        line: row.line,
+        name: row.name,
+        sessionId: row.sessionId,
+        // A notice succeeds without adding anyone, so only a seat or a queue place counts as imported
+        placement: !result.success ? 'rejected' : result.addedToQueue ? 'queued' : result.participationType ? 'enrolled' : 'rejected',
+        participationType: result.participationType ?? row.participationType,
+        message: result.message
+      });
+    }
+    this.notifyListeners();
+
+    const summary = this.summarizeImport(outcomes);
+    if (connectionLost) {
+      return {
+        success: false,
+        message: `Network error - the import stopped when the connection was lost: ${summary} Import the remaining rows again.`,
+        outcomes
+      };
+    }
+    console.log('📥 Imported participants:', summary);
+    return { success: true, message: `Imported: ${summary}`, outcomes };
+  }
+
+  // People who share a normalised name or contact email, across all sessions. Organisers can read the
+  // stored contact emails, so those are matched too when available.
+  async getDuplicateReport(): Promise<DuplicateGroup[]> {
+    const emailsByParticipantId = new Map<string, string>();
+    if (this.supabase) {
+      const { data, error } = await this.supabase.from(CONTACTS_TABLE).select('participant_id, email');
+      if (error) {
+        console.warn('Failed to load contact emails for the duplicate report:', error);
+      }
+      (data || []).forEach((row: any) => emailsByParticipantId.set(row.participant_id, row.email));
+    }
+    return findSuspectedDuplicates(this.state, emailsByParticipantId);
+  }
+
+  // Email a reminder to everyone enrolled in a session who agreed to notifications
+  async sendReminders(sessionId: string): Promise<AdminActionResult> {
+    if (await this.refuseUnlessOrganiser()) {
+      return { success: false, message: ORGANISER_REQUIRED_MESSAGE };
+    }
+    const session = this.getSession(sessionId);
+    const enrolled = this.getState(sessionId).enrolled;
+    for (const participant of enrolled) {
+      await notifyParticipant(this.mailTransport, 'reminder', participant, session);
+    }
+    return { success: true, message: `Reminders sent for ${enrolled.length} enrolled participant(s); only those who gave an email receive one.` };
+  }
+
+  // Remove everyone from one session
+  async resetSession(sessionId: string): Promise<AdminActionResult> {
+    const result = await this.clearData(sessionId);
+    if (result.success) {
+      return { success: true, message: 'Session reset.' };
+    }
+    return {
+      success: false,
+      message: result.error?.message === ORGANISER_REQUIRED_MESSAGE
+        ? ORGANISER_REQUIRED_MESSAGE
+        : 'Failed to reset the session. Please try again.'
+    };
+  }
+
+  // Set state and save to storage (for a specific session); only rows that differ are written
+  async setState(state: EnrollmentState, sessionId?: string): Promise<SaveResult> {
+    const refused = await this.refuseUnlessOrganiser();
+    if (refused) {
+      return refused;
+    }
+
+    const targetSessionId = sessionId || this.currentSessionId;
+    const changes = diffSessionState(this.getSessionState(targetSessionId), state);
+    this.state.sessions[targetSessionId] = state;
+    return this.saveData(changes);
+  }
+
+  // Manually reload data from the repository
+  async refresh(): Promise<void> {
+    console.log('🔄 Manual refresh requested');
+    await this.loadFromRepository();
     console.log('✅ Manual refresh completed');
   }
 
-  // Clear all enrollment data (for admin/testing purposes)
-  async clearData(sessionId?: string): Promise<void> {
+  // Clear all enrollment data (organisers only)
+  async clearData(sessionId?: string): Promise<SaveResult> {
+    const refused = await this.refuseUnlessOrganiser();
+    if (refused) {
+      return refused;
+    }
+
+    const empty: EnrollmentState = { enrolled: [], waitingQueue: [] };
+    const changes: ParticipantChange[] = [];
+
     if (sessionId) {
       // Clear specific session
-      this.state.sessions[sessionId] = {
-        enrolled: [],
-        waitingQueue: []
-      };
+      changes.push(...diffSessionState(this.getSessionState(sessionId), empty));
+      this.state.sessions[sessionId] = empty;
     } else {
       // Clear all sessions
-      const sessionsState: { [sessionId: string]: EnrollmentState } = {};
-      SESSIONS.forEach(session => {
-        sessionsState[session.id] = {
-          enrolled: [],
-          waitingQueue: [],
-        };
+      Object.values(this.state.sessions).forEach(sessionState => {
+        changes.push(...diffSessionState(sessionState, empty));
       });
-      this.state = { sessions: sessionsState };
+      this.state = { sessions: this.createEmptySessionsState() };
     }
-    await this.saveData();
+    return this.saveData(changes);
   }
 }
 
@@ -692,6 +2032,40 @@ export function getEnrollmentService(): EnrollmentService {
   return enrollmentService;
 }
 
+// Set while an organiser preview stands in for the real service
+let liveEnrollment: { service: EnrollmentService } | null = null;
+
+// Organiser preview: a copy of the current data in memory with the clock set to `at`, so the page can be
+// checked before and after a cutoff. Nothing done in the preview reaches the real repository.
+export async function startEnrollmentPreview(at: Date): Promise<EnrollmentService> {
+  const live = liveEnrollment?.service ?? await initializeEnrollmentService();
+  const sessions = live.getSessions();
+  const repository = new InMemoryEnrollmentRepository(sessions, {
+    enrolled: sessions.flatMap(session => live.getState(session.id).enrolled),
+    waitingQueue: sessions.flatMap(session => live.getState(session.id).waitingQueue),
+  });
+  live.stopLiveUpdates();
+
+  if (!liveEnrollment) {
+    liveEnrollment = { service: live };
+  }
+  // The in-memory repository has no database client, so participants copied into the preview are
+  // never mailed about changes that never happened
+  enrollmentService = new EnrollmentService(repository, undefined, createPreviewClock(at));
+  await enrollmentService.ready();
+  console.log(`🕰️ Previewing enrollment as of ${at.toISOString()}`);
+  return enrollmentService;
+}
+
+// Back to the real service, e.g. when leaving the previewed page
+export function stopEnrollmentPreview(): void {
+  if (!liveEnrollment) {
+    return;
+  }
+  enrollmentService = liveEnrollment.service;
+  liveEnrollment = null;
+}
+
 // Initialize service (load data)
 export async function initializeEnrollmentService(): Promise<EnrollmentService> {
   if (!enrollmentService) {
@@ -699,8 +2073,8 @@ export async function initializeEnrollmentService(): Promise<EnrollmentService>
   }
   
   if (!serviceInitialized) {
-    // Give it a moment to load from storage
-    await new Promise(resolve => setTimeout(resolve, 500));
+    // Wait for sessions and participants to load from Supabase or storage
+    await enrollmentService.ready();
     serviceInitialized = true;
   }
   
@@ -0,0 +1,78 @@
+// CSV export of a session's participants for door lists and Teams invites
+import { EnrollmentState, Participant, ParticipationType } from '@/types';
+
+export type ExportStatusFilter = 'all' | 'enrolled' | 'waiting';
+
+export interface ParticipantExportOptions {
+  status?: ExportStatusFilter;
+  participationType?: ParticipationType | 'all';
+  // Excel in Finnish and other European locales expects semicolons, and needs a byte order mark to read UTF-8
+  excelCompatible?: boolean;
+}
+
+const CSV_HEADERS = ['Name', 'Diversity quota', 'Participation type', 'Status', 'Queue position', 'Enrolled at', 'Checked in at'];
+const BYTE_ORDER_MARK = '\uFEFF';
+
+// Quote a value when needed, and keep spreadsheet apps from treating names as formulas
+function escapeCsvValue(value: string, delimiter: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  if (safe.includes(delimiter) || safe.includes('"') || safe.includes('\n') || safe.includes('\r')) {
+    return `"${safe.replace(/"/g, '""')}"`;
+  }
+  return safe;
+}
+
+function toRow(participant: Participant, status: 'enrolled' | 'waiting', queuePosition: number | null): string[] {
+  return [
+    participant.name,
+    participant.needsDiversityQuota ? 'yes' : 'no',
+    participant.participationType,
+    status,
+    queuePosition === null ? '' : String(queuePosition),
+    participant.enrolledAt.toISOString(),
+    participant.checkedInAt?.toISOString() ?? '',
+  ];
+}
+
+export function buildParticipantCsv(state: EnrollmentState, options: ParticipantExportOptions = {}): string {
+  const { status = 'all', participationType = 'all', excelCompatible = false } = options;
+  const delimiter = excelCompatible ? ';' : ',';
+  const matchesType = (p: Participant) => participationType === 'all' || p.participationType === participationType;
+
+  const rows: string[][] = [];
+  if (status !== 'waiting') {
+    state.enrolled.filter(matchesType).forEach(p => rows.push(toRow(p, 'enrolled', null)));
+  }
+  if (status !== 'enrolled') {
+    // Positions are counted over the whole queue, so filtering doesn't renumber anyone
+    state.waitingQueue.forEach((p, index) => {
+      if (matchesType(p)) {
+        rows.push(toRow(p, 'waiting', index + 1));
+      }
+    });
+  }
+
+  const lines = [CSV_HEADERS, ...rows].map(row => row.map(value => escapeCsvValue(value, delimiter)).join(delimiter));
+  const csv = lines.join('\r\n') + '\r\n';
+  return excelCompatible ? BYTE_ORDER_MARK + csv : csv;
+}
+
+export function buildExportFilename(sessionId: string, options: ParticipantExportOptions = {}): string {
+  const parts = [sessionId];
+  if (options.status && options.status !== 'all') parts.push(options.status);
+  if (options.participationType && options.participationType !== 'all') parts.push(options.participationType);
+  return `${parts.join('-')}-participants.csv`;
+}
+
+// Trigger a browser download of the CSV
+export function downloadCsv(filename: string, csv: string): void {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,165 @@
+// CSV import of participants, e.g. a team lead's list or an export from the old form
+import { ParticipationType } from '@/types';
+
+export interface ParticipantImportRow {
+  line: number; // 1-based line in the file, for error messages
+  name: string;
+  needsDiversityQuota: boolean;
+  participationType: ParticipationType;
+  sessionId: string;
+  acceptsRemoteFallback: boolean;
+}
+
+export interface ImportRowError {
+  line: number;
+  message: string;
+}
+
+export interface ParsedImport {
+  rows: ParticipantImportRow[];
+  errors: ImportRowError[];
+}
+
+// Accepted header names (compared lowercase, ignoring spaces, dashes and underscores)
+const COLUMN_ALIASES: Record<keyof Omit<ParticipantImportRow, 'line'>, string[]> = {
+  name: ['name', 'participant'],
+  needsDiversityQuota: ['diversityquota', 'needsdiversityquota', 'quota'],
+  participationType: ['participationtype', 'participation', 'type'],
+  sessionId: ['session', 'sessionid'],
+  acceptsRemoteFallback: ['acceptsremotefallback', 'remotefallback'],
+};
+
+const TRUE_VALUES = ['yes', 'y', 'true', '1', 'x'];
+const FALSE_VALUES = ['no', 'n', 'false', '0', ''];
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_-]/g, '');
+}
+
+// Split CSV text into records, honouring quoted values with delimiters, quotes and newlines.
+// Each record keeps the line it started on.
+function parseCsvRecords(text: string, delimiter: string): { line: number; values: string[] }[] {
+  const records: { line: number; values: string[] }[] = [];
+  let values: string[] = [];
+  let value = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    values.push(value);
+    if (values.some(v => v.trim() !== '')) {
+      records.push({ line: recordLine, values });
+    }
+    values = [];
+    value = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      values.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      value += char;
+    }
+  }
+  endRecord();
+  return records;
+}
+
+function parseBoolean(raw: string): boolean | null {
+  const value = raw.trim().toLowerCase();
+  if (TRUE_VALUES.includes(value)) return true;
+  if (FALSE_VALUES.includes(value)) return false;
+  return null;
+}
+
+// Parse and validate an import file. Rows without a session column go to `defaultSessionId`.
+// Files written by the export (comma or semicolon separated, with or without a byte order mark) are accepted.
+export function parseParticipantCsv(text: string, knownSessionIds: string[], defaultSessionId: string): ParsedImport {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const [header, ...records] = parseCsvRecords(content, delimiter);
+  if (!header) {
+    return { rows: [], errors: [{ line: 1, message: 'The file is empty.' }] };
+  }
+
+  const headers = header.values.map(normalizeHeader);
+  const columnIndex = (column: keyof typeof COLUMN_ALIASES) =>
+    headers.findIndex(h => COLUMN_ALIASES[column].includes(h));
+  const columns = {
+    name: columnIndex('name'),
+    needsDiversityQuota: columnIndex('needsDiversityQuota'),
+    participationType: columnIndex('participationType'),
+    sessionId: columnIndex('sessionId'),
+    acceptsRemoteFallback: columnIndex('acceptsRemoteFallback'),
+  };
+
+  const missing = (['name', 'needsDiversityQuota', 'participationType'] as const).filter(c => columns[c] < 0);
+  if (missing.length > 0) {
+    return {
+      rows: [],
+      errors: [{ line: header.line, message: `Missing column(s): ${missing.join(', ')}. Expected a header row with name, diversity quota and participation type.` }]
+    };
+  }
+
+  const rows: ParticipantImportRow[] = [];
+  const errors: ImportRowError[] = [];
+  for (const record of records) {
+    const cell = (index: number) => (index >= 0 ? record.values[index] ?? '' : '').trim();
+    const problems: string[] = [];
+
+    // Undo the apostrophe the export puts in front of formula-like names
+    const name = cell(columns.name).replace(/^'(?=[=+\-@])/, '');
+    if (!name) problems.push('name is empty');
+
+    const needsDiversityQuota = parseBoolean(cell(columns.needsDiversityQuota));
+    if (needsDiversityQuota === null) problems.push(`diversity quota "${cell(columns.needsDiversityQuota)}" is not yes/no`);
+
+    const participationType = cell(columns.participationType).toLowerCase();
+    if (participationType !== 'local' && participationType !== 'remote') {
+      problems.push(`participation type "${cell(columns.participationType)}" must be local or remote`);
+    }
+
+    const sessionId = cell(columns.sessionId) || defaultSessionId;
+    if (!knownSessionIds.includes(sessionId)) problems.push(`unknown session "${sessionId}"`);
+
+    const acceptsRemoteFallback = parseBoolean(cell(columns.acceptsRemoteFallback));
+    if (acceptsRemoteFallback === null) problems.push(`remote fallback "${cell(columns.acceptsRemoteFallback)}" is not yes/no`);
+
+    if (problems.length > 0) {
+      errors.push({ line: record.line, message: problems.join('; ') });
+      continue;
+    }
+    rows.push({
+      line: record.line,
+      name,
+      needsDiversityQuota: needsDiversityQuota as boolean,
+      participationType: participationType as ParticipationType,
+      sessionId,
+      acceptsRemoteFallback: acceptsRemoteFallback as boolean,
+    });
+  }
+
+  return { rows, errors };
+}
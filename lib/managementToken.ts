@@ -0,0 +1,45 @@
+// One-time management tokens that let a participant manage their own enrollment
+// without an account. Only the SHA-256 hash of a token is ever stored.
+
+const TOKEN_BYTES = 24;
+export const MANAGE_QUERY_PARAM = 'manage';
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function generateManagementToken(): string {
+  const bytes = new Uint8Array(TOKEN_BYTES);
+  crypto.getRandomValues(bytes);
+  return toBase64Url(bytes);
+}
+
+export async function hashManagementToken(token: string): Promise<string> {
+  const data = new TextEncoder().encode(token.trim());
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Shareable link back to the current page with the token in the query string
+export function buildManagementLink(token: string): string {
+  if (typeof window === 'undefined') {
+    return `?${MANAGE_QUERY_PARAM}=${encodeURIComponent(token)}`;
+  }
+  const url = new URL(window.location.pathname, window.location.origin);
+  url.searchParams.set(MANAGE_QUERY_PARAM, token);
+  return url.toString();
+}
+
+// Read a token from the current page URL, if one was shared
+export function getManagementTokenFromUrl(): string | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  return new URLSearchParams(window.location.search).get(MANAGE_QUERY_PARAM);
+}
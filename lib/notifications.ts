@@ -0,0 +1,124 @@
+// Email notifications about enrollment changes, sent through a pluggable mail transport
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Participant, Session } from '@/types';
+import { formatEventDate } from './clock';
+import { NotificationKind, renderNotification } from '../supabase/functions/_shared/notificationTemplates';
+
+export type { NotificationKind };
+
+export interface Notification {
+  kind: NotificationKind;
+  // Only known locally; with Supabase the address stays in participant_contacts and no browser reads it
+  to?: string;
+  participantId: string;
+  managementToken?: string; // Lets send-notification check that the enrollee asked for their own confirmation
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  // true when the transport finds the address itself, so participants without a local `to` are still reached
+  readonly looksUpAddress?: boolean;
+  send(notification: Notification): Promise<void>;
+}
+
+export interface NotificationDetails {
+  managementToken?: string;
+  managementLink?: string;
+  queuePosition?: number;
+}
+
+// Supabase Edge Function that delivers mail over SMTP (supabase/functions/send-notification)
+const SEND_NOTIFICATION_FUNCTION = 'send-notification';
+
+// Development stand-in: print the message instead of sending it
+export class ConsoleMailTransport implements MailTransport {
+  async send(notification: Notification): Promise<void> {
+    console.log(`📧 [${notification.kind}] to ${notification.to || `participant ${notification.participantId}`}: ${notification.subject}\n${notification.text}`);
+  }
+}
+
+// Keeps sent messages in memory, for tests
+export class MemoryMailTransport implements MailTransport {
+  readonly sent: Notification[] = [];
+
+  async send(notification: Notification): Promise<void> {
+    this.sent.push(notification);
+  }
+}
+
+// Asks the send-notification Edge Function to deliver over SMTP. Only the kind, the participant and, for
+// confirmations, their management token are sent: the function looks the address up in participant_contacts
+// (so nobody without consent is mailed), checks the participant's current state and renders the text itself,
+// so it can't be used as an open relay.
+export class EdgeFunctionMailTransport implements MailTransport {
+  readonly looksUpAddress = true;
+
+  constructor(private readonly client: SupabaseClient) {}
+
+  async send(notification: Notification): Promise<void> {
+    const { error } = await this.client.functions.invoke(SEND_NOTIFICATION_FUNCTION, {
+      body: {
+        kind: notification.kind,
+        participantId: notification.participantId,
+        managementToken: notification.managementToken,
+      }
+    });
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+// The transport for a service on `client`: the Edge Function when email is enabled, else the console
+export function createMailTransport(client: SupabaseClient | null): MailTransport {
+  return client && process.env.NEXT_PUBLIC_EMAIL_NOTIFICATIONS === 'true'
+    ? new EdgeFunctionMailTransport(client)
+    : new ConsoleMailTransport();
+}
+
+export function buildNotification(
+  kind: NotificationKind,
+  participant: Participant,
+  session: Session,
+  details: NotificationDetails = {}
+): Notification {
+  const message = renderNotification(kind, {
+    name: participant.name,
+    description: session.description,
+    day: formatEventDate(session.startsAt),
+    timeSlot: session.timeSlot,
+    participationType: participant.participationType,
+    location: session.location,
+    teamsLink: session.teamsLink,
+    managementLink: details.managementLink,
+    queuePosition: details.queuePosition,
+  });
+  return {
+    kind,
+    to: participant.contactEmail,
+    participantId: participant.id,
+    managementToken: details.managementToken,
+    ...message,
+  };
+}
+
+// Send a notification if the participant can be reached. Failures are logged and never
+// interrupt the enrollment change that triggered them.
+export async function notifyParticipant(
+  transport: MailTransport,
+  kind: NotificationKind,
+  participant: Participant,
+  session: Session | undefined,
+  details: NotificationDetails = {}
+): Promise<void> {
+  // Without an address, or a transport that can look one up, there is nobody to reach
+  if (!session || (!participant.contactEmail && !transport.looksUpAddress)) {
+    return;
+  }
+  try {
+    await transport.send(buildNotification(kind, participant, session, details));
+  } catch (error) {
+    console.warn(`⚠️ Failed to send ${kind} notification:`, error);
+  }
+}
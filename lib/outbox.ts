@@ -0,0 +1,74 @@
+// Enrollments made while the database could not be reached, kept on this device until they can be sent
+import { Participant } from '@/types';
+import { isRecord, loadStoredList, parseStoredDate } from './storage';
+
+const OUTBOX_KEY = 'vibe-coding-outbox';
+
+export interface PendingEnrollment {
+  requestId: string; // Sent on every attempt so the database recognises a replay of the same request
+  sessionId: string;
+  participant: Omit<Participant, 'id' | 'enrolledAt'>;
+  managementToken?: string; // Sent with the replay so the database can store its hash; missing in entries from older versions
+  createdAt: Date;
+  attempts: number; // Replays that failed because the database was still unreachable
+  lastError?: string;
+}
+
+function parsePendingEnrollment(raw: unknown): PendingEnrollment | null {
+  if (!isRecord(raw) || !isRecord(raw.participant)) {
+    return null;
+  }
+  const { participant } = raw;
+  const createdAt = parseStoredDate(raw.createdAt);
+  const valid = typeof raw.requestId === 'string' && raw.requestId &&
+    typeof raw.sessionId === 'string' &&
+    (raw.managementToken === undefined || typeof raw.managementToken === 'string') &&
+    createdAt !== undefined &&
+    typeof raw.attempts === 'number' &&
+    (raw.lastError === undefined || typeof raw.lastError === 'string') &&
+    typeof participant.name === 'string' &&
+    typeof participant.needsDiversityQuota === 'boolean' &&
+    (participant.participationType === 'local' || participant.participationType === 'remote') &&
+    typeof participant.sessionId === 'string' &&
+    (participant.contactEmail === undefined || typeof participant.contactEmail === 'string');
+  if (!valid) {
+    return null;
+  }
+  return {
+    ...(raw as unknown as PendingEnrollment),
+    createdAt,
+    participant: {
+      ...(participant as unknown as PendingEnrollment['participant']),
+      emailConsentAt: parseStoredDate(participant.emailConsentAt),
+    },
+  };
+}
+
+// Oldest first, which is the order they are replayed in
+export function loadOutbox(): PendingEnrollment[] {
+  return loadStoredList(OUTBOX_KEY, 'enrollment outbox', parsePendingEnrollment);
+}
+
+function saveOutbox(entries: PendingEnrollment[]): void {
+  try {
+    if (entries.length === 0) {
+      localStorage.removeItem(OUTBOX_KEY);
+    } else {
+      localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+    }
+  } catch (error) {
+    console.warn('Failed to save the enrollment outbox:', error);
+  }
+}
+
+export function addToOutbox(entry: PendingEnrollment): void {
+  saveOutbox([...loadOutbox().filter(e => e.requestId !== entry.requestId), entry]);
+}
+
+export function updateOutboxEntry(requestId: string, changes: Partial<Pick<PendingEnrollment, 'attempts' | 'lastError'>>): void {
+  saveOutbox(loadOutbox().map(e => (e.requestId === requestId ? { ...e, ...changes } : e)));
+}
+
+export function removeFromOutbox(requestId: string): void {
+  saveOutbox(loadOutbox().filter(e => e.requestId !== requestId));
+}
@@ -0,0 +1,389 @@
+// Where enrollment data is stored. EnrollmentService works against this interface, so it can run on
+// Supabase, on this browser's localStorage only, or entirely in memory (Node tests and demos).
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  Participant,
+  Session,
+  SessionArchive,
+  SESSIONS,
+  MAX_CAPACITY,
+  MEN_QUOTA,
+  WOMEN_NON_BINARY_SPOTS,
+  DEFAULT_SESSION_ID
+} from '@/types';
+import { supabase, backendId } from './supabase';
+import { sessionTimesFromSlot } from './calendar';
+import { helsinkiDate } from './clock';
+import { parseEnrollmentRules } from './rules';
+import { CachedEnrollmentData, readEnrollmentCache, writeEnrollmentCache } from './storage';
+import { isSessionArchived, loadLocalArchive, saveLocalArchive, toArchivedParticipant } from './archive';
+
+// Supabase table names
+export const ENROLLED_TABLE = 'enrolled_participants';
+export const WAITING_QUEUE_TABLE = 'waiting_queue_participants';
+const SESSIONS_TABLE = 'sessions';
+const ARCHIVE_TABLE = 'archived_participants';
+
+// Database function that moves the lists of past sessions into the archive (migrate-add-session-archive.sql)
+const ARCHIVE_FUNCTION = 'archive_past_sessions';
+const FUNCTION_NOT_FOUND_CODE = 'PGRST202';
+
+export type ParticipantListName = 'enrolled' | 'waitingQueue';
+
+export interface RepositorySnapshot {
+  sessions: Session[] | null; // null when the backend has no session list; the cached or built-in one is kept
+  enrolled: Participant[]; // All sessions, ordered by enrolledAt
+  waitingQueue: Participant[];
+}
+
+export interface EnrollmentRepository {
+  readonly kind: 'supabase' | 'local' | 'memory';
+  // true when every browser sees the same data; false means only this device (or process) does
+  readonly shared: boolean;
+  // Supabase client for the database functions and realtime; only the Supabase repository has one
+  readonly client?: SupabaseClient;
+
+  load(): Promise<RepositorySnapshot>;
+  insertParticipant(list: ParticipantListName, participant: Participant): Promise<void>;
+  updateParticipant(list: ParticipantListName, participant: Participant): Promise<void>;
+  // The participant is in `to` before it leaves `from`, so it is never missing from both
+  moveParticipant(participant: Participant, from: ParticipantListName, to: ParticipantListName): Promise<void>;
+  deleteParticipant(list: ParticipantListName, participant: Participant): Promise<void>;
+
+  // Move the lists of sessions that have taken place out of the live lists. The database decides by its own
+  // clock; the browser-only and in-memory repositories use `now`.
+  archivePastSessions(now: Date): Promise<void>;
+  // Archived sessions with their final lists, newest first
+  loadArchive(): Promise<SessionArchive[]>;
+
+  // Offline copy of the whole state, written before every change
+  readCache(): CachedEnrollmentData | null;
+  writeCache(data: CachedEnrollmentData): void;
+}
+
+export function mapRowToSession(row: any): Session {
+  // `date` is a DATE column ('YYYY-MM-DD'): the day in Finland, not UTC midnight
+  const date = helsinkiDate(String(row.date).slice(0, 10));
+  const slotTimes = sessionTimesFromSlot(date, row.time_slot || '');
+  return {
+    id: row.id,
+    date,
+    timeSlot: row.time_slot,
+    startsAt: row.starts_at ? new Date(row.starts_at) : slotTimes.startsAt,
+    endsAt: row.ends_at ? new Date(row.ends_at) : slotTimes.endsAt,
+    description: row.description || undefined,
+    capacity: row.capacity ?? MAX_CAPACITY,
+    menQuota: row.men_quota ?? MEN_QUOTA,
+    womenNonBinarySpots: row.women_non_binary_spots ?? WOMEN_NON_BINARY_SPOTS,
+    localCapacity: row.local_capacity ?? undefined,
+    remoteCapacity: row.remote_capacity ?? undefined,
+    location: row.location || undefined,
+    teamsLink: row.teams_link || undefined,
+    enrollmentOpensAt: row.enrollment_opens_at ? new Date(row.enrollment_opens_at) : undefined,
+    enrollmentClosesAt: row.enrollment_closes_at ? new Date(row.enrollment_closes_at) : undefined,
+    rules: parseEnrollmentRules(row.enrollment_rules),
+    archivedAt: row.archived_at ? new Date(row.archived_at) : undefined,
+  };
+}
+
+export function mapRowToParticipant(row: any): Participant {
+  return {
+    id: row.id,
+    name: row.name,
+    needsDiversityQuota: row.needs_diversity_quota,
+    participationType: row.participation_type,
+    enrolledAt: new Date(row.enrolled_at),
+    sessionId: row.session_id || DEFAULT_SESSION_ID, // Handle legacy data without session_id
+    acceptsRemoteFallback: row.accepts_remote_fallback ?? false,
+    checkedInAt: row.checked_in_at ? new Date(row.checked_in_at) : undefined
+  };
+}
+
+function mapParticipantToRow(participant: Participant) {
+  return {
+    id: participant.id,
+    name: participant.name,
+    needs_diversity_quota: participant.needsDiversityQuota,
+    participation_type: participant.participationType,
+    enrolled_at: participant.enrolledAt.toISOString(),
+    session_id: participant.sessionId,
+    accepts_remote_fallback: participant.acceptsRemoteFallback ?? false,
+    checked_in_at: participant.checkedInAt?.toISOString() ?? null
+  };
+}
+
+const byEnrolledAt = (a: Participant, b: Participant) => a.enrolledAt.getTime() - b.enrolledAt.getTime();
+const newestFirst = (a: SessionArchive, b: SessionArchive) => b.archivedAt.getTime() - a.archivedAt.getTime();
+
+// Group archive rows by session
+function groupArchiveRows(rows: any[]): SessionArchive[] {
+  const archives = new Map<string, SessionArchive>();
+  rows.forEach(row => {
+    const participant = mapRowToParticipant(row);
+    const archivedAt = new Date(row.archived_at);
+    const archive = archives.get(participant.sessionId) ?? { sessionId: participant.sessionId, archivedAt, enrolled: [], waitingQueue: [] };
+    (row.in_waiting_queue ? archive.waitingQueue : archive.enrolled).push(participant);
+    if (archivedAt > archive.archivedAt) {
+      archive.archivedAt = archivedAt;
+    }
+    archives.set(participant.sessionId, archive);
+  });
+  return [...archives.values()].sort(newestFirst);
+}
+
+// Moves the lists of sessions due for archiving from `lists` into `archives`; returns what changed
+function archiveDueSessions(
+  sessions: Session[],
+  lists: Record<ParticipantListName, Participant[]>,
+  archives: SessionArchive[],
+  now: Date
+): { lists: Record<ParticipantListName, Participant[]>; archives: SessionArchive[]; archivedIds: string[] } {
+  const due = sessions.filter(session => isSessionArchived(session, now)).map(session => session.id);
+  const archivedIds = due.filter(id => lists.enrolled.some(p => p.sessionId === id) || lists.waitingQueue.some(p => p.sessionId === id));
+  if (archivedIds.length === 0) {
+    return { lists, archives, archivedIds };
+  }
+
+  const updated = archivedIds.map((sessionId): SessionArchive => {
+    const existing = archives.find(a => a.sessionId === sessionId);
+    return {
+      sessionId,
+      archivedAt: now,
+      enrolled: [...(existing?.enrolled || []), ...lists.enrolled.filter(p => p.sessionId === sessionId).map(toArchivedParticipant)],
+      waitingQueue: [...(existing?.waitingQueue || []), ...lists.waitingQueue.filter(p => p.sessionId === sessionId).map(toArchivedParticipant)],
+    };
+  });
+  return {
+    lists: {
+      enrolled: lists.enrolled.filter(p => !archivedIds.includes(p.sessionId)),
+      waitingQueue: lists.waitingQueue.filter(p => !archivedIds.includes(p.sessionId)),
+    },
+    archives: [...archives.filter(a => !archivedIds.includes(a.sessionId)), ...updated].sort(newestFirst),
+    archivedIds,
+  };
+}
+
+function flattenCache(cached: CachedEnrollmentData | null): RepositorySnapshot {
+  const states = Object.values(cached?.state.sessions || {});
+  return {
+    sessions: cached?.sessions && cached.sessions.length > 0 ? cached.sessions : null,
+    enrolled: states.flatMap(s => s.enrolled).sort(byEnrolledAt),
+    waitingQueue: states.flatMap(s => s.waitingQueue).sort(byEnrolledAt),
+  };
+}
+
+export class SupabaseEnrollmentRepository implements EnrollmentRepository {
+  readonly kind = 'supabase';
+  readonly shared = true;
+
+  constructor(readonly client: SupabaseClient, private readonly backend: string) {}
+
+  private table(list: ParticipantListName): string {
+    return list === 'enrolled' ? ENROLLED_TABLE : WAITING_QUEUE_TABLE;
+  }
+
+  async load(): Promise<RepositorySnapshot> {
+    const [sessionsResponse, enrolledResponse, waitingResponse] = await Promise.all([
+      this.client.from(SESSIONS_TABLE).select('*').order('date', { ascending: true }),
+      this.client.from(ENROLLED_TABLE).select('*').order('enrolled_at', { ascending: true }),
+      this.client.from(WAITING_QUEUE_TABLE).select('*').order('enrolled_at', { ascending: true })
+    ]);
+
+    if (enrolledResponse.error || waitingResponse.error) {
+      throw enrolledResponse.error || waitingResponse.error;
+    }
+    if (sessionsResponse.error) {
+      // Sessions table may not be migrated yet; keep the cached or built-in list
+      console.warn('Could not load sessions from Supabase, using cached sessions:', sessionsResponse.error);
+    }
+    const sessionRows = sessionsResponse.error ? [] : sessionsResponse.data || [];
+
+    return {
+      sessions: sessionRows.length > 0 ? sessionRows.map(mapRowToSession) : null,
+      enrolled: (enrolledResponse.data || []).map(mapRowToParticipant),
+      waitingQueue: (waitingResponse.data || []).map(mapRowToParticipant),
+    };
+  }
+
+  async insertParticipant(list: ParticipantListName, participant: Participant): Promise<void> {
+    // Upsert on id keeps a retried insert from failing on its own earlier success
+    const { error } = await this.client
+      .from(this.table(list))
+      .upsert(mapParticipantToRow(participant), { onConflict: 'id' });
+    if (error) {
+      throw error;
+    }
+  }
+
+  async updateParticipant(list: ParticipantListName, participant: Participant): Promise<void> {
+    const { error } = await this.client
+      .from(this.table(list))
+      .update({ ...mapParticipantToRow(participant), updated_at: new Date().toISOString() })
+      .eq('id', participant.id);
+    if (error) {
+      throw error;
+    }
+  }
+
+  async moveParticipant(participant: Participant, from: ParticipantListName, to: ParticipantListName): Promise<void> {
+    await this.insertParticipant(to, participant);
+    await this.deleteParticipant(from, participant);
+  }
+
+  async deleteParticipant(list: ParticipantListName, participant: Participant): Promise<void> {
+    const { error } = await this.client
+      .from(this.table(list))
+      .delete()
+      .eq('id', participant.id);
+    if (error) {
+      throw error;
+    }
+  }
+
+  async archivePastSessions(): Promise<void> {
+    const { data, error } = await this.client.rpc(ARCHIVE_FUNCTION);
+    if (error?.code === FUNCTION_NOT_FOUND_CODE) {
+      // Past sessions are still hidden from the public selectors; their rows just stay in the live tables
+      console.warn(`⚠️ ${ARCHIVE_FUNCTION} is not installed, past sessions are not archived. Run migrate-add-session-archive.sql.`);
+      return;
+    }
+    if (error) {
+      throw error;
+    }
+    if (data) {
+      console.log(`🗄️ Archived ${data} past session(s)`);
+    }
+  }
+
+  async loadArchive(): Promise<SessionArchive[]> {
+    const { data, error } = await this.client
+      .from(ARCHIVE_TABLE)
+      .select('*')
+      .order('enrolled_at', { ascending: true });
+    if (error) {
+      throw error;
+    }
+    return groupArchiveRows(data || []);
+  }
+
+  readCache(): CachedEnrollmentData | null {
+    return readEnrollmentCache(this.backend);
+  }
+
+  writeCache(data: CachedEnrollmentData): void {
+    writeEnrollmentCache(data, this.backend);
+  }
+}
+
+// This browser only: the cached state is the data, so row changes need no extra work
+export class LocalStorageEnrollmentRepository implements EnrollmentRepository {
+  readonly kind = 'local';
+  readonly shared = false;
+
+  async load(): Promise<RepositorySnapshot> {
+    return flattenCache(this.readCache());
+  }
+
+  async insertParticipant(): Promise<void> {}
+  async updateParticipant(): Promise<void> {}
+  async moveParticipant(): Promise<void> {}
+  async deleteParticipant(): Promise<void> {}
+
+  async archivePastSessions(now: Date): Promise<void> {
+    const cached = this.readCache();
+    if (!cached) {
+      return;
+    }
+    const snapshot = flattenCache(cached);
+    const result = archiveDueSessions(snapshot.sessions ?? SESSIONS, snapshot, loadLocalArchive(), now);
+    if (result.archivedIds.length === 0) {
+      return;
+    }
+    saveLocalArchive(result.archives);
+    const sessions = { ...cached.state.sessions };
+    result.archivedIds.forEach(sessionId => {
+      sessions[sessionId] = { enrolled: [], waitingQueue: [] };
+    });
+    this.writeCache({ ...cached, state: { sessions } });
+    console.log(`🗄️ Archived ${result.archivedIds.length} past session(s) in this browser`);
+  }
+
+  async loadArchive(): Promise<SessionArchive[]> {
+    return loadLocalArchive();
+  }
+
+  readCache(): CachedEnrollmentData | null {
+    return readEnrollmentCache('local');
+  }
+
+  writeCache(data: CachedEnrollmentData): void {
+    writeEnrollmentCache(data, 'local');
+  }
+}
+
+// Nothing leaves the process; two services sharing one instance behave like two browsers on one database
+export class InMemoryEnrollmentRepository implements EnrollmentRepository {
+  readonly kind = 'memory';
+  readonly shared = false;
+  private lists: Record<ParticipantListName, Participant[]> = { enrolled: [], waitingQueue: [] };
+  private cache: CachedEnrollmentData | null = null;
+  private archives: SessionArchive[] = [];
+
+  constructor(private readonly sessions: Session[] = SESSIONS, participants: Partial<Record<ParticipantListName, Participant[]>> = {}) {
+    this.lists.enrolled = [...(participants.enrolled || [])];
+    this.lists.waitingQueue = [...(participants.waitingQueue || [])];
+  }
+
+  async load(): Promise<RepositorySnapshot> {
+    return {
+      sessions: this.sessions.map(session => ({ ...session })),
+      enrolled: this.lists.enrolled.map(p => ({ ...p })).sort(byEnrolledAt),
+      waitingQueue: this.lists.waitingQueue.map(p => ({ ...p })).sort(byEnrolledAt),
+    };
+  }
+
+  async insertParticipant(list: ParticipantListName, participant: Participant): Promise<void> {
+    this.lists[list] = [...this.lists[list].filter(p => p.id !== participant.id), { ...participant }];
+  }
+
+  async updateParticipant(list: ParticipantListName, participant: Participant): Promise<void> {
+    this.lists[list] = this.lists[list].map(p => (p.id === participant.id ? { ...participant } : p));
+  }
+
+  async moveParticipant(participant: Participant, from: ParticipantListName, to: ParticipantListName): Promise<void> {
+    await this.insertParticipant(to, participant);
+    await this.deleteParticipant(from, participant);
+  }
+
+  async deleteParticipant(list: ParticipantListName, participant: Participant): Promise<void> {
+    this.lists[list] = this.lists[list].filter(p => p.id !== participant.id);
+  }
+
+  async archivePastSessions(now: Date): Promise<void> {
+    const result = archiveDueSessions(this.sessions, this.lists, this.archives, now);
+    this.lists = result.lists;
+    this.archives = result.archives;
+  }
+
+  async loadArchive(): Promise<SessionArchive[]> {
+    return structuredClone(this.archives);
+  }
+
+  readCache(): CachedEnrollmentData | null {
+    return this.cache && structuredClone(this.cache);
+  }
+
+  writeCache(data: CachedEnrollmentData): void {
+    this.cache = structuredClone(data);
+  }
+}
+
+// Supabase when it is configured; otherwise every browser keeps its own data, which is only
+// suitable for local development and demos
+export function createDefaultRepository(): EnrollmentRepository {
+  if (supabase) {
+    return new SupabaseEnrollmentRepository(supabase, backendId);
+  }
+  console.warn('⚠️ Supabase is not configured: enrollments are stored in this browser only and other visitors will not see them');
+  return new LocalStorageEnrollmentRepository();
+}
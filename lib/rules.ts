@@ -0,0 +1,224 @@
+// Generic evaluation of the declarative enrollment rules attached to sessions.
+// New priority rules are added as session configuration, not as new code branches.
+import {
+  EnrollmentRule,
+  EnrollmentWindowRule,
+  PriorityWindowRule,
+  MultiSessionEnrollmentState,
+  Session
+} from '@/types';
+import { formatEventDateTime } from './clock';
+import { normalizeName } from './duplicates';
+
+export interface RuleContext {
+  name: string;
+  session: Session;
+  sessions: Session[];
+  state: MultiSessionEnrollmentState;
+  now: Date;
+}
+
+// What the rules say should happen before the regular quota check runs
+export type RuleDecision =
+  | { action: 'allow' }
+  | { action: 'queue'; message: string; rule: EnrollmentRule } // Added to this session's waiting queue
+  | { action: 'reject'; message: string; rule: EnrollmentRule } // Not enrolled
+  | { action: 'notice'; message: string; rule: EnrollmentRule }; // Not enrolled, but already in the queue system elsewhere
+
+// Rule times are shown in Finnish time whatever the viewer's time zone
+export function formatRuleDate(date: Date): string {
+  return formatEventDateTime(date);
+}
+
+function sessionLabel(sessionId: string, sessions: Session[]): string {
+  const session = sessions.find(s => s.id === sessionId);
+  return session?.description || sessionId;
+}
+
+// 1-based position in a session's waiting queue, 0 if not found
+export function getWaitingQueuePosition(name: string, sessionId: string, state: MultiSessionEnrollmentState): number {
+  const sessionState = state.sessions[sessionId];
+  if (!sessionState) return 0;
+
+  const normalizedName = normalizeName(name);
+  const position = sessionState.waitingQueue.findIndex(p => normalizeName(p.name) === normalizedName);
+  return position >= 0 ? position + 1 : 0;
+}
+
+// Where a session is in its enrollment schedule, for labels and for enabling the form
+export type EnrollmentPhase = 'upcoming' | 'open' | 'closed' | 'past';
+
+export const ENROLLMENT_PHASE_LABELS: Record<EnrollmentPhase, string> = {
+  upcoming: 'Upcoming',
+  open: 'Open',
+  closed: 'Closed',
+  past: 'Past'
+};
+
+// A session without its own closing time closes when it starts, the same default the database
+// gives sessions (migrate-add-enrollment-schedule.sql)
+export function getEnrollmentWindow(session: Session): { opensAt?: Date; closesAt: Date } {
+  return {
+    opensAt: session.enrollmentOpensAt,
+    closesAt: session.enrollmentClosesAt ?? session.startsAt
+  };
+}
+
+export function getEnrollmentPhase(session: Session, now: Date): EnrollmentPhase {
+  const window = getEnrollmentWindow(session);
+  if (now >= session.endsAt) return 'past';
+  if (now >= window.closesAt) return 'closed';
+  if (window.opensAt && now < window.opensAt) return 'upcoming';
+  return 'open';
+}
+
+// All rules that apply to a session, starting with the window from its open/close times
+export function getSessionRules(session: Session): EnrollmentRule[] {
+  const rules: EnrollmentRule[] = [{ type: 'enrollment-window', ...getEnrollmentWindow(session) }];
+  return rules.concat(session.rules || []);
+}
+
+export function isRuleActive(rule: EnrollmentRule, now: Date): boolean {
+  switch (rule.type) {
+    case 'priority-window':
+      return now < rule.until;
+    case 'enrollment-window':
+      return (!!rule.opensAt && now < rule.opensAt) || (!!rule.closesAt && now >= rule.closesAt);
+  }
+}
+
+function evaluateEnrollmentWindow(rule: EnrollmentWindowRule, context: RuleContext): RuleDecision {
+  if (rule.opensAt && context.now < rule.opensAt) {
+    return { action: 'reject', message: `Enrollment opens on ${formatRuleDate(rule.opensAt)}.`, rule };
+  }
+  if (rule.closesAt && context.now >= rule.closesAt) {
+    return { action: 'reject', message: `Enrollment closed on ${formatRuleDate(rule.closesAt)}.`, rule };
+  }
+  return { action: 'allow' };
+}
+
+function evaluatePriorityWindow(rule: PriorityWindowRule, context: RuleContext): RuleDecision {
+  if (context.now >= rule.until) {
+    return { action: 'allow' };
+  }
+
+  const position = getWaitingQueuePosition(context.name, rule.sourceSessionId, context.state);
+  const source = sessionLabel(rule.sourceSessionId, context.sessions);
+
+  if (position === 0) {
+    return {
+      action: 'queue',
+      message: `Until ${formatRuleDate(rule.until)}, only the first ${rule.maxQueuePosition} participants from the ${source} waiting queue can enroll directly to this session. You have been added to this session's waiting queue.`,
+      rule
+    };
+  }
+
+  if (position > rule.maxQueuePosition) {
+    return {
+      action: 'notice',
+      message: `You are at position ${position} in the ${source} waiting queue. Only the first ${rule.maxQueuePosition} participants can enroll to this session during the restriction period. You are already in the queue system.`,
+      rule
+    };
+  }
+
+  return { action: 'allow' };
+}
+
+// Rules are evaluated in order; the first one that doesn't allow decides
+export function evaluateEnrollmentRules(rules: EnrollmentRule[], context: RuleContext): RuleDecision {
+  for (const rule of rules) {
+    const decision = rule.type === 'priority-window'
+      ? evaluatePriorityWindow(rule, context)
+      : evaluateEnrollmentWindow(rule, context);
+    if (decision.action !== 'allow') {
+      console.log(`📏 Rule ${rule.type} decided:`, decision.action);
+      return decision;
+    }
+  }
+  return { action: 'allow' };
+}
+
+export interface PriorityWindowEligibility {
+  session: Session; // The session whose priority window admits people from the source queue
+  rule: PriorityWindowRule;
+  eligible: boolean;
+}
+
+// Active priority windows in other sessions that admit people from this session's waiting queue,
+// and whether someone at `queuePosition` is within them
+export function getPriorityWindowEligibility(
+  sourceSessionId: string,
+  queuePosition: number,
+  sessions: Session[],
+  now: Date
+): PriorityWindowEligibility[] {
+  return sessions.flatMap(session =>
+    getSessionRules(session)
+      .filter((rule): rule is PriorityWindowRule =>
+        rule.type === 'priority-window' && rule.sourceSessionId === sourceSessionId && isRuleActive(rule, now))
+      .map(rule => ({ session, rule, eligible: queuePosition <= rule.maxQueuePosition }))
+  );
+}
+
+// Human-readable notices for the rules currently in effect, for the enrollment form
+export function describeActiveRules(session: Session, sessions: Session[], now: Date): string[] {
+  return getSessionRules(session)
+    .filter(rule => isRuleActive(rule, now))
+    .map(rule => {
+      if (rule.type === 'priority-window') {
+        return `Until ${formatRuleDate(rule.until)}, only the first ${rule.maxQueuePosition} participants from the ${sessionLabel(rule.sourceSessionId, sessions)} waiting queue can enroll directly to this session. ` +
+          'Others will be added to this session\'s waiting queue, or will receive a notice if they are already in the queue system.';
+      }
+      if (rule.opensAt && now < rule.opensAt) {
+        return `Enrollment opens on ${formatRuleDate(rule.opensAt)}.`;
+      }
+      return `Enrollment closed on ${formatRuleDate(rule.closesAt as Date)}.`;
+    });
+}
+
+export interface RuleCutoff {
+  session: Session;
+  label: string;
+  at: Date;
+}
+
+// Every moment a session's rules change what the page does, in time order; organisers preview around these
+export function getRuleCutoffs(sessions: Session[]): RuleCutoff[] {
+  return sessions
+    .flatMap(session => getSessionRules(session).flatMap((rule): RuleCutoff[] => {
+      if (rule.type === 'priority-window') {
+        return [{ session, label: `Priority window for the ${sessionLabel(rule.sourceSessionId, sessions)} queue ends`, at: rule.until }];
+      }
+      return [
+        ...(rule.opensAt ? [{ session, label: 'Enrollment opens', at: rule.opensAt }] : []),
+        ...(rule.closesAt ? [{ session, label: 'Enrollment closes', at: rule.closesAt }] : []),
+      ];
+    }))
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+// Rules arrive as JSON from the sessions table or localStorage; turn date strings back into Dates
+export function parseEnrollmentRules(raw: unknown): EnrollmentRule[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.flatMap((rule: any): EnrollmentRule[] => {
+    if (rule?.type === 'priority-window' && rule.sourceSessionId && rule.until) {
+      return [{
+        type: 'priority-window',
+        sourceSessionId: rule.sourceSessionId,
+        maxQueuePosition: Number(rule.maxQueuePosition) || 0,
+        until: new Date(rule.until)
+      }];
+    }
+    if (rule?.type === 'enrollment-window') {
+      return [{
+        type: 'enrollment-window',
+        opensAt: rule.opensAt ? new Date(rule.opensAt) : undefined,
+        closesAt: rule.closesAt ? new Date(rule.closesAt) : undefined
+      }];
+    }
+    console.warn('Ignoring unknown enrollment rule:', rule);
+    return [];
+  });
+}
@@ -0,0 +1,276 @@
+// Versioned localStorage cache of the enrollment state and session list.
+// Older shapes are upgraded through MIGRATIONS one version at a time; entries that fail
+// validation are moved to a quarantine key instead of being dropped silently.
+import {
+  EnrollmentState,
+  MultiSessionEnrollmentState,
+  Participant,
+  Session,
+  DEFAULT_SESSION_ID
+} from '@/types';
+import { sessionTimesFromSlot } from './calendar';
+import { parseEnrollmentRules } from './rules';
+
+const STORAGE_KEY = 'vibe-coding-enrollment';
+const QUARANTINE_KEY = 'vibe-coding-enrollment-quarantine';
+const MAX_QUARANTINED = 50;
+
+let quarantinedCount = 0;
+
+// 1: single session { state: { enrolled, waitingQueue } }
+// 2: multi-session { state: { sessions }, sessions?, lastUpdated }, no version field
+// 3: StorageEnvelope
+const STORAGE_VERSION = 3;
+
+export interface CachedEnrollmentData {
+  state: MultiSessionEnrollmentState;
+  sessions?: Session[];
+}
+
+interface StorageEnvelope {
+  version: number;
+  backend: string; // Supabase project URL, or 'local' without Supabase
+  savedAt: string;
+  data: CachedEnrollmentData; // Dates serialized as strings
+}
+
+// MIGRATIONS[n] turns version n into version n + 1
+const MIGRATIONS: Record<number, (stored: any, backend: string) => any> = {
+  1: stored => ({
+    // Everyone from the single-session days belongs to the first session
+    state: {
+      sessions: {
+        [DEFAULT_SESSION_ID]: {
+          enrolled: (stored.state?.enrolled || []).map((p: any) => ({ participationType: 'local', ...p, sessionId: DEFAULT_SESSION_ID })),
+          waitingQueue: (stored.state?.waitingQueue || []).map((p: any) => ({ participationType: 'local', ...p, sessionId: DEFAULT_SESSION_ID })),
+        },
+      },
+    },
+    lastUpdated: stored.lastUpdated,
+  }),
+  // Unversioned caches can't say which project wrote them; assume the current one
+  2: (stored, backend) => ({
+    version: 3,
+    backend,
+    savedAt: stored.lastUpdated || new Date().toISOString(),
+    data: { state: stored.state, sessions: stored.sessions },
+  }),
+};
+
+function quarantine(reason: string, value: unknown): void {
+  console.warn(`🧪 Quarantined cached enrollment data (${reason}):`, value);
+  quarantinedCount++;
+  try {
+    const existing = JSON.parse(localStorage.getItem(QUARANTINE_KEY) || '[]');
+    const entries = [...(Array.isArray(existing) ? existing : []), { quarantinedAt: new Date().toISOString(), reason, value }];
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify(entries.slice(-MAX_QUARANTINED)));
+  } catch (error) {
+    console.warn('Failed to save quarantined data:', error);
+  }
+}
+
+const isValidDate = (value: unknown) => (typeof value === 'string' || typeof value === 'number') && !isNaN(new Date(value).getTime());
+const isOptionalDate = (value: unknown) => value === undefined || value === null || isValidDate(value);
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The version of a stored cache, or null when it has none of the shapes above
+function detectVersion(stored: unknown): number | null {
+  if (!isRecord(stored)) {
+    return null;
+  }
+  if (typeof stored.version === 'number') {
+    return stored.version;
+  }
+  if (!isRecord(stored.state)) {
+    return null;
+  }
+  if ('sessions' in stored.state) {
+    return 2;
+  }
+  return Array.isArray(stored.state.enrolled) && Array.isArray(stored.state.waitingQueue) ? 1 : null;
+}
+
+// A stored date (string or number), or undefined when missing or unreadable
+export function parseStoredDate(value: unknown): Date | undefined {
+  return isValidDate(value) ? new Date(value as string | number) : undefined;
+}
+
+// A participant as serialized by JSON.stringify, with its dates revived; null if it isn't one.
+// Caches from before participants had a session id get `fallbackSessionId`.
+export function parseStoredParticipant(raw: unknown, fallbackSessionId?: string): Participant | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+  const sessionId = typeof raw.sessionId === 'string' ? raw.sessionId : fallbackSessionId;
+  const valid = typeof raw.id === 'string' && raw.id &&
+    typeof raw.name === 'string' &&
+    typeof raw.needsDiversityQuota === 'boolean' &&
+    (raw.participationType === 'local' || raw.participationType === 'remote') &&
+    sessionId !== undefined &&
+    isValidDate(raw.enrolledAt) &&
+    isOptionalDate(raw.emailConsentAt) &&
+    isOptionalDate(raw.checkedInAt);
+  if (!valid) {
+    return null;
+  }
+  return {
+    ...(raw as unknown as Participant),
+    sessionId,
+    enrolledAt: new Date(raw.enrolledAt as string),
+    emailConsentAt: parseStoredDate(raw.emailConsentAt),
+    checkedInAt: parseStoredDate(raw.checkedInAt),
+  };
+}
+
+// A list kept in localStorage under `key`, such as an outbox. Entries `parse` rejects are left out
+// with a warning, so one damaged entry doesn't lose the others; an unreadable list gives [].
+export function loadStoredList<T>(key: string, description: string, parse: (raw: unknown) => T | null): T[] {
+  try {
+    const stored = localStorage.getItem(key);
+    if (!stored) {
+      return [];
+    }
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) {
+      console.warn(`Ignoring the ${description}: not a list`, parsed);
+      return [];
+    }
+    return parsed.flatMap(raw => {
+      const entry = parse(raw);
+      if (entry === null) {
+        console.warn(`Skipping an unreadable entry in the ${description}:`, raw);
+        return [];
+      }
+      return [entry];
+    });
+  } catch (error) {
+    console.warn(`Failed to load the ${description}:`, error);
+    return [];
+  }
+}
+
+function reviveParticipant(raw: unknown, sessionId: string): Participant | null {
+  const participant = parseStoredParticipant(raw, sessionId);
+  if (!participant) {
+    quarantine(`invalid participant in ${sessionId}`, raw);
+  }
+  return participant;
+}
+
+function reviveSession(raw: any): Session | null {
+  const valid = raw && typeof raw.id === 'string' && raw.id &&
+    isValidDate(raw.date) &&
+    typeof raw.capacity === 'number' &&
+    typeof raw.menQuota === 'number' &&
+    typeof raw.womenNonBinarySpots === 'number' &&
+    isOptionalDate(raw.startsAt) && isOptionalDate(raw.endsAt) &&
+    isOptionalDate(raw.enrollmentOpensAt) && isOptionalDate(raw.enrollmentClosesAt) &&
+    isOptionalDate(raw.archivedAt);
+  if (!valid) {
+    quarantine('invalid session', raw);
+    return null;
+  }
+  const date = new Date(raw.date);
+  // Caches written before sessions had start and end times only have the time slot
+  const slotTimes = sessionTimesFromSlot(date, raw.timeSlot || '');
+  return {
+    ...raw,
+    date,
+    timeSlot: raw.timeSlot || '',
+    startsAt: raw.startsAt ? new Date(raw.startsAt) : slotTimes.startsAt,
+    endsAt: raw.endsAt ? new Date(raw.endsAt) : slotTimes.endsAt,
+    enrollmentOpensAt: raw.enrollmentOpensAt ? new Date(raw.enrollmentOpensAt) : undefined,
+    enrollmentClosesAt: raw.enrollmentClosesAt ? new Date(raw.enrollmentClosesAt) : undefined,
+    archivedAt: raw.archivedAt ? new Date(raw.archivedAt) : undefined,
+    rules: parseEnrollmentRules(raw.rules),
+  };
+}
+
+function reviveSessionState(raw: any, sessionId: string): EnrollmentState {
+  if (!raw || !Array.isArray(raw.enrolled) || !Array.isArray(raw.waitingQueue)) {
+    quarantine(`invalid state for ${sessionId}`, raw);
+    return { enrolled: [], waitingQueue: [] };
+  }
+  const revive = (list: any[]) => list.map(p => reviveParticipant(p, sessionId)).filter((p): p is Participant => p !== null);
+  return { enrolled: revive(raw.enrolled), waitingQueue: revive(raw.waitingQueue) };
+}
+
+// The cached data for `backend` (a Supabase project URL, or 'local'), upgraded to the current
+// version and validated. Returns null when there is nothing usable.
+export function readEnrollmentCache(backend: string): CachedEnrollmentData | null {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) {
+    return null;
+  }
+
+  let envelope: any;
+  try {
+    envelope = JSON.parse(stored);
+  } catch {
+    quarantine('not valid JSON', stored);
+    localStorage.removeItem(STORAGE_KEY);
+    return null;
+  }
+
+  const quarantinedBefore = quarantinedCount;
+  const storedVersion = detectVersion(envelope);
+  if (storedVersion === null) {
+    quarantine('unrecognised data', envelope);
+    localStorage.removeItem(STORAGE_KEY);
+    return null;
+  }
+  let version = storedVersion;
+  if (version > STORAGE_VERSION || !Number.isInteger(version) || version < 1) {
+    quarantine(`unknown storage version ${version}`, envelope);
+    localStorage.removeItem(STORAGE_KEY);
+    return null;
+  }
+  while (version < STORAGE_VERSION) {
+    console.log(`🔧 Migrating cached enrollment data from version ${version} to ${version + 1}`);
+    envelope = MIGRATIONS[version](envelope, backend);
+    version++;
+  }
+
+  if ((envelope as StorageEnvelope).backend !== backend) {
+    console.log(`🗑️ Discarding cached enrollment data from another backend (${envelope.backend})`);
+    localStorage.removeItem(STORAGE_KEY);
+    return null;
+  }
+
+  const data = envelope.data;
+  if (!data?.state?.sessions || typeof data.state.sessions !== 'object') {
+    quarantine('missing enrollment state', envelope);
+    localStorage.removeItem(STORAGE_KEY);
+    return null;
+  }
+
+  const sessions = Array.isArray(data.sessions)
+    ? data.sessions.map(reviveSession).filter((s: Session | null): s is Session => s !== null)
+    : undefined;
+  const cached: CachedEnrollmentData = {
+    state: {
+      sessions: Object.fromEntries(
+        Object.entries(data.state.sessions).map(([sessionId, sessionState]) => [sessionId, reviveSessionState(sessionState, sessionId)])
+      ),
+    },
+    sessions,
+  };
+
+  // Store the upgraded, cleaned-up copy so the next read doesn't migrate or quarantine again
+  if (storedVersion !== STORAGE_VERSION || quarantinedCount !== quarantinedBefore) {
+    writeEnrollmentCache(cached, backend);
+  }
+  return cached;
+}
+
+export function writeEnrollmentCache(data: CachedEnrollmentData, backend: string): void {
+  const envelope: StorageEnvelope = {
+    version: STORAGE_VERSION,
+    backend,
+    savedAt: new Date().toISOString(),
+    data,
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+}
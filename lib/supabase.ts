@@ -5,4 +5,7 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
 
 export const supabase = (supabaseUrl && supabaseAnonKey) 
   ? createClient(supabaseUrl, supabaseAnonKey)
-  : null
\ No newline at end of file
+  : null
+
+// Which backend cached data belongs to, so a cache written against another project is not reused
+export const backendId = supabase ? supabaseUrl! : 'local'
@@ -0,0 +1,5 @@
+-- Migration to support self-service cancellation
+-- Cancelling removes the row from enrolled_participants and promotes someone from the
+-- waiting queue, so deletes must be allowed on the enrolled table as well
+CREATE POLICY "Allow public delete on enrolled_participants" ON enrolled_participants
+    FOR DELETE USING (true);
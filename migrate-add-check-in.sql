@@ -0,0 +1,12 @@
+-- Migration to record attendance check-in on the workshop day
+-- Run this AFTER migrate-add-session-archive.sql. Safe to run again.
+--
+-- checked_in_at is set by organisers from the check-in mode of the dashboard. The waiting queue gets the
+-- column too so rows move between the lists unchanged, but only enrolled check-ins are archived.
+-- Organisers already have UPDATE on both tables (migrate-lock-down-rls.sql), so no new policies are needed.
+-- archive_past_sessions() in migrate-add-session-archive.sql already copies checked_in_at into the archive;
+-- databases archived before it did simply have no check-in times for those sessions.
+
+ALTER TABLE enrolled_participants ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE waiting_queue_participants ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE archived_participants ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP WITH TIME ZONE;
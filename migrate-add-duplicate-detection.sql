@@ -0,0 +1,18 @@
+-- Migration to remove the old duplicate-detection wrapper
+-- Run this AFTER migrate-add-enrollment-rpc.sql. Safe to run again.
+--
+-- The duplicate check used to be a wrapper around enroll_participant, which kept the original as
+-- enroll_participant_unchecked. Re-running migrate-add-enrollment-rpc.sql replaced the wrapper and
+-- the check with it, so the check now lives in enroll_participant itself. This drops the leftover copy.
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_proc
+                WHERE proname = 'enroll_participant' AND pronamespace = 'public'::regnamespace
+                  AND prosrc LIKE '%enroll_participant_unchecked%') THEN
+        RAISE EXCEPTION 'enroll_participant is still the old wrapper: run migrate-add-enrollment-rpc.sql first';
+    END IF;
+END $$;
+
+DROP FUNCTION IF EXISTS enroll_participant_unchecked(TEXT, TEXT, TEXT, BOOLEAN, TEXT, BOOLEAN, TEXT);
+DROP FUNCTION IF EXISTS enroll_participant_unchecked(TEXT, TEXT, TEXT, BOOLEAN, TEXT, BOOLEAN, TEXT, TEXT);
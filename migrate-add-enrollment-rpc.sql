@@ -0,0 +1,259 @@
+-- Migration to make enrollment an atomic server-side operation
+-- Run this AFTER migrate-add-sessions-table.sql, migrate-add-participation-capacity.sql,
+-- migrate-add-management-token.sql and migrate-add-enrollment-rules.sql.
+--
+-- The client calls supabase.rpc('enroll_participant', ...) and only displays the result.
+-- The session row is locked for the duration of the call, so two people enrolling at the
+-- same moment are handled one after the other and can never both get the last seat.
+-- The rules mirror EnrollmentService.canEnroll and lib/rules.ts.
+-- The management token is sent as is and only its hash is stored, in management_tokens.
+-- A person can hold one place per session: the same management token, contact email or
+-- normalised name is answered with "already enrolled" or "already in the queue at position N".
+-- Contact emails are only compared once migrate-add-participant-contacts.sql has been run.
+
+-- Lowercase, without diacritics and with single spaces: the same steps as normalizeName in lib/duplicates.ts
+CREATE OR REPLACE FUNCTION normalize_name(p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT btrim(regexp_replace(lower(regexp_replace(normalize(p_name, NFKD), '[\u0300-\u036f]', '', 'g')), '\s+', ' ', 'g'));
+$$;
+
+-- Replaces the versions that took the token hash and had no contact email
+DROP FUNCTION IF EXISTS enroll_participant(TEXT, TEXT, TEXT, BOOLEAN, TEXT, BOOLEAN, TEXT);
+
+CREATE OR REPLACE FUNCTION enroll_participant(
+    p_request_id TEXT,
+    p_session_id TEXT,
+    p_name TEXT,
+    p_needs_diversity_quota BOOLEAN,
+    p_participation_type TEXT,
+    p_accepts_remote_fallback BOOLEAN DEFAULT false,
+    p_management_token TEXT DEFAULT NULL,
+    -- Not stored here (save_contact_email does that); only compared by the duplicate check
+    p_contact_email TEXT DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session sessions%ROWTYPE;
+    v_now TIMESTAMP WITH TIME ZONE := NOW();
+    v_enrolled_id TEXT := 'enrolled-' || p_request_id;
+    v_waiting_id TEXT := 'waiting-' || p_request_id;
+    v_rule JSONB;
+    v_position INTEGER;
+    v_source_label TEXT;
+    v_total INTEGER;
+    v_men INTEGER;
+    v_women INTEGER;
+    v_local INTEGER;
+    v_remote INTEGER;
+    v_quota_ok BOOLEAN;
+    v_reason TEXT;
+    v_type TEXT := p_participation_type;
+    v_type_full BOOLEAN := false;
+    v_moved_to_remote BOOLEAN := false;
+    v_queue_message TEXT;
+    -- Whoever already holds this management token, e.g. an enrollment sent again from an outbox
+    v_token_holder TEXT := participant_id_for_token(p_management_token);
+    v_same_email TEXT[] := '{}';
+BEGIN
+    IF p_participation_type NOT IN ('local', 'remote') THEN
+        RETURN jsonb_build_object('status', 'rejected', 'message', 'Invalid participation type.');
+    END IF;
+
+    IF p_name IS NULL OR length(trim(p_name)) = 0 THEN
+        RETURN jsonb_build_object('status', 'rejected', 'message', 'Name is required.');
+    END IF;
+
+    -- Lock the session so concurrent enrollments are serialised
+    SELECT * INTO v_session FROM sessions WHERE id = p_session_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'rejected', 'message', 'Session not found.');
+    END IF;
+
+    -- The client generates the request id, so a retried call returns the first outcome
+    IF EXISTS (SELECT 1 FROM enrolled_participants WHERE id = v_enrolled_id) THEN
+        RETURN jsonb_build_object(
+            'status', 'enrolled',
+            'message', 'Successfully enrolled!',
+            'participant', (SELECT to_jsonb(e) FROM enrolled_participants e WHERE e.id = v_enrolled_id)
+        );
+    END IF;
+    IF EXISTS (SELECT 1 FROM waiting_queue_participants WHERE id = v_waiting_id) THEN
+        RETURN jsonb_build_object(
+            'status', 'queued',
+            'message', 'Added to waiting queue',
+            'participant', (SELECT to_jsonb(w) FROM waiting_queue_participants w WHERE w.id = v_waiting_id)
+        );
+    END IF;
+
+    -- The same person: the same management token, the same contact email or the same normalised name
+    IF length(trim(COALESCE(p_contact_email, ''))) > 0 AND to_regclass('public.participant_contacts') IS NOT NULL THEN
+        SELECT COALESCE(array_agg(participant_id), '{}') INTO v_same_email
+          FROM participant_contacts
+         WHERE email = lower(trim(p_contact_email)) AND left_at IS NULL;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM enrolled_participants
+                WHERE session_id = p_session_id
+                  AND (id = v_token_holder OR id = ANY (v_same_email) OR normalize_name(name) = normalize_name(p_name))) THEN
+        RETURN jsonb_build_object('status', 'duplicate', 'message',
+            'You are already enrolled in this session. Use your management link to check or change your enrollment.');
+    END IF;
+
+    SELECT q.pos INTO v_position FROM (
+        SELECT id, normalize_name(name) AS normalized_name,
+               row_number() OVER (ORDER BY enrolled_at) AS pos
+        FROM waiting_queue_participants
+        WHERE session_id = p_session_id
+    ) q
+    WHERE q.id = v_token_holder OR q.id = ANY (v_same_email) OR q.normalized_name = normalize_name(p_name)
+    ORDER BY q.pos
+    LIMIT 1;
+
+    IF v_position IS NOT NULL THEN
+        RETURN jsonb_build_object('status', 'duplicate', 'message',
+            'You are already in the waiting queue for this session at position ' || v_position ||
+            '. Use your management link to check or change your enrollment.');
+    END IF;
+
+    -- Enrollment window from the session's own open/close times
+    IF v_session.enrollment_opens_at IS NOT NULL AND v_now < v_session.enrollment_opens_at THEN
+        RETURN jsonb_build_object('status', 'rejected', 'message',
+            'Enrollment opens on ' || to_char(v_session.enrollment_opens_at AT TIME ZONE 'Europe/Helsinki', 'FMDay DD FMMonth YYYY HH24:MI') || ' Finnish time.');
+    END IF;
+    IF v_session.enrollment_closes_at IS NOT NULL AND v_now >= v_session.enrollment_closes_at THEN
+        RETURN jsonb_build_object('status', 'rejected', 'message',
+            'Enrollment closed on ' || to_char(v_session.enrollment_closes_at AT TIME ZONE 'Europe/Helsinki', 'FMDay DD FMMonth YYYY HH24:MI') || ' Finnish time.');
+    END IF;
+
+    -- Declarative rules, evaluated in order; the first one that doesn't allow decides
+    FOR v_rule IN SELECT * FROM jsonb_array_elements(v_session.enrollment_rules) LOOP
+        IF v_rule->>'type' = 'enrollment-window' THEN
+            IF v_rule->>'opensAt' IS NOT NULL AND v_now < (v_rule->>'opensAt')::TIMESTAMP WITH TIME ZONE THEN
+                RETURN jsonb_build_object('status', 'rejected', 'message',
+                    'Enrollment opens on ' || to_char((v_rule->>'opensAt')::TIMESTAMP WITH TIME ZONE AT TIME ZONE 'Europe/Helsinki', 'FMDay DD FMMonth YYYY HH24:MI') || ' Finnish time.');
+            END IF;
+            IF v_rule->>'closesAt' IS NOT NULL AND v_now >= (v_rule->>'closesAt')::TIMESTAMP WITH TIME ZONE THEN
+                RETURN jsonb_build_object('status', 'rejected', 'message',
+                    'Enrollment closed on ' || to_char((v_rule->>'closesAt')::TIMESTAMP WITH TIME ZONE AT TIME ZONE 'Europe/Helsinki', 'FMDay DD FMMonth YYYY HH24:MI') || ' Finnish time.');
+            END IF;
+        ELSIF v_rule->>'type' = 'priority-window' AND v_now < (v_rule->>'until')::TIMESTAMP WITH TIME ZONE THEN
+            SELECT q.pos INTO v_position FROM (
+                SELECT normalize_name(name) AS normalized_name,
+                       row_number() OVER (ORDER BY enrolled_at) AS pos
+                FROM waiting_queue_participants
+                WHERE session_id = v_rule->>'sourceSessionId'
+            ) q
+            WHERE q.normalized_name = normalize_name(p_name)
+            ORDER BY q.pos
+            LIMIT 1;
+
+            SELECT COALESCE(description, id) INTO v_source_label FROM sessions WHERE id = v_rule->>'sourceSessionId';
+            v_source_label := COALESCE(v_source_label, v_rule->>'sourceSessionId');
+
+            IF v_position IS NULL THEN
+                INSERT INTO waiting_queue_participants (id, name, needs_diversity_quota, participation_type, enrolled_at, session_id, accepts_remote_fallback)
+                VALUES (v_waiting_id, trim(p_name), p_needs_diversity_quota, p_participation_type, v_now, p_session_id, COALESCE(p_accepts_remote_fallback, false));
+                PERFORM save_management_token(v_waiting_id, p_management_token);
+
+                RETURN jsonb_build_object(
+                    'status', 'queued',
+                    'message', 'Until ' || to_char((v_rule->>'until')::TIMESTAMP WITH TIME ZONE AT TIME ZONE 'Europe/Helsinki', 'FMDay DD FMMonth YYYY HH24:MI') ||
+                               ' Finnish time, only the first ' || (v_rule->>'maxQueuePosition') || ' participants from the ' || v_source_label ||
+                               ' waiting queue can enroll directly to this session. You have been added to this session''s waiting queue.',
+                    'participant', (SELECT to_jsonb(w) FROM waiting_queue_participants w WHERE w.id = v_waiting_id)
+                );
+            ELSIF v_position > (v_rule->>'maxQueuePosition')::INTEGER THEN
+                RETURN jsonb_build_object(
+                    'status', 'notice',
+                    'message', 'You are at position ' || v_position || ' in the ' || v_source_label || ' waiting queue. Only the first ' ||
+                               (v_rule->>'maxQueuePosition') || ' participants can enroll to this session during the restriction period. You are already in the queue system.'
+                );
+            END IF;
+        END IF;
+    END LOOP;
+
+    -- Current counts for the locked session
+    SELECT count(*),
+           count(*) FILTER (WHERE needs_diversity_quota),
+           count(*) FILTER (WHERE NOT needs_diversity_quota),
+           count(*) FILTER (WHERE participation_type = 'local'),
+           count(*) FILTER (WHERE participation_type = 'remote')
+      INTO v_total, v_men, v_women, v_local, v_remote
+      FROM enrolled_participants
+     WHERE session_id = p_session_id;
+
+    -- Quota rules (same as EnrollmentService.canEnroll)
+    IF v_total >= v_session.capacity THEN
+        v_quota_ok := false;
+        v_reason := 'Diversity quota full';
+    ELSIF p_needs_diversity_quota THEN
+        IF v_men < v_session.men_quota THEN
+            v_quota_ok := true;
+        ELSIF v_women >= v_session.women_non_binary_spots THEN
+            -- After women/non-binary spots are full, remaining spots become available for men
+            v_quota_ok := true;
+        ELSE
+            v_quota_ok := false;
+            v_reason := 'The diversity quota spots have been filled.';
+        END IF;
+    ELSE
+        v_quota_ok := v_women < v_session.women_non_binary_spots;
+        v_reason := 'Women/non-binary spots are full. You will be added to the waiting queue.';
+    END IF;
+
+    -- Local and remote seat limits, with the optional remote fallback when the room is full
+    IF v_quota_ok THEN
+        v_type_full := (v_type = 'local' AND v_session.local_capacity IS NOT NULL AND v_local >= v_session.local_capacity)
+                    OR (v_type = 'remote' AND v_session.remote_capacity IS NOT NULL AND v_remote >= v_session.remote_capacity);
+
+        IF v_type_full AND v_type = 'local' AND COALESCE(p_accepts_remote_fallback, false)
+           AND (v_session.remote_capacity IS NULL OR v_remote < v_session.remote_capacity) THEN
+            v_type := 'remote';
+            v_type_full := false;
+            v_moved_to_remote := true;
+        END IF;
+    END IF;
+
+    IF v_quota_ok AND NOT v_type_full THEN
+        INSERT INTO enrolled_participants (id, name, needs_diversity_quota, participation_type, enrolled_at, session_id, accepts_remote_fallback)
+        VALUES (v_enrolled_id, trim(p_name), p_needs_diversity_quota, v_type, v_now, p_session_id, COALESCE(p_accepts_remote_fallback, false));
+        PERFORM save_management_token(v_enrolled_id, p_management_token);
+
+        RETURN jsonb_build_object(
+            'status', 'enrolled',
+            'message', CASE WHEN v_moved_to_remote
+                            THEN 'Successfully enrolled! The room is full, so you will join remotely in Teams.'
+                            ELSE 'Successfully enrolled!' END,
+            'participant', (SELECT to_jsonb(e) FROM enrolled_participants e WHERE e.id = v_enrolled_id)
+        );
+    END IF;
+
+    IF v_type_full THEN
+        v_queue_message := CASE WHEN v_type = 'local'
+                                THEN 'The room is full. Added to waiting queue for a local seat'
+                                ELSE 'Remote seats are full. Added to waiting queue for a remote seat' END;
+    ELSIF NOT p_needs_diversity_quota AND v_women >= v_session.women_non_binary_spots THEN
+        v_queue_message := 'Added to waiting queue';
+    ELSE
+        RETURN jsonb_build_object('status', 'rejected', 'message', v_reason);
+    END IF;
+
+    INSERT INTO waiting_queue_participants (id, name, needs_diversity_quota, participation_type, enrolled_at, session_id, accepts_remote_fallback)
+    VALUES (v_waiting_id, trim(p_name), p_needs_diversity_quota, p_participation_type, v_now, p_session_id, COALESCE(p_accepts_remote_fallback, false));
+    PERFORM save_management_token(v_waiting_id, p_management_token);
+
+    RETURN jsonb_build_object(
+        'status', 'queued',
+        'message', v_queue_message,
+        'participant', (SELECT to_jsonb(w) FROM waiting_queue_participants w WHERE w.id = v_waiting_id)
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION enroll_participant(TEXT, TEXT, TEXT, BOOLEAN, TEXT, BOOLEAN, TEXT, TEXT) TO anon, authenticated;
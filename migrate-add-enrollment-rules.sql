@@ -0,0 +1,10 @@
+-- Migration to store declarative enrollment rules per session
+-- Supported rule types (see lib/rules.ts):
+--   {"type": "priority-window", "sourceSessionId": "...", "maxQueuePosition": 17, "until": "<ISO timestamp>"}
+--   {"type": "enrollment-window", "opensAt": "<ISO timestamp>", "closesAt": "<ISO timestamp>"}
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS enrollment_rules JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- The second session restriction that was previously hardcoded
+UPDATE sessions
+SET enrollment_rules = '[{"type": "priority-window", "sourceSessionId": "session-1", "maxQueuePosition": 17, "until": "2026-02-10T08:00:00+02:00"}]'::jsonb
+WHERE id = 'session-2';
@@ -0,0 +1,34 @@
+-- Migration to give every session an enrollment window
+-- Run this AFTER migrate-add-session-times.sql and migrate-add-enrollment-rpc.sql. Safe to run again.
+--
+-- enroll_participant already refuses enrollments before enrollment_opens_at and from
+-- enrollment_closes_at on. A session without a closing time used to stay open for ever, even
+-- after it had taken place; it now closes when it starts unless another closing time is set.
+-- Set enrollment_opens_at to the time given in the announcement, e.g.
+--   UPDATE sessions SET enrollment_opens_at = '2026-02-02 09:00'::timestamp AT TIME ZONE 'Europe/Helsinki' WHERE id = 'session-3';
+
+UPDATE sessions
+SET enrollment_closes_at = starts_at
+WHERE enrollment_closes_at IS NULL AND starts_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION default_enrollment_closes_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.enrollment_closes_at IS NULL THEN
+        NEW.enrollment_closes_at := NEW.starts_at;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sessions_default_enrollment_closes_at ON sessions;
+CREATE TRIGGER sessions_default_enrollment_closes_at
+    BEFORE INSERT OR UPDATE ON sessions
+    FOR EACH ROW EXECUTE FUNCTION default_enrollment_closes_at();
+
+ALTER TABLE sessions DROP CONSTRAINT IF EXISTS sessions_enrollment_opens_before_close;
+ALTER TABLE sessions ADD CONSTRAINT sessions_enrollment_opens_before_close
+    CHECK (enrollment_opens_at IS NULL OR enrollment_closes_at IS NULL OR enrollment_opens_at < enrollment_closes_at);
@@ -0,0 +1,121 @@
+-- Migration to add personal management tokens
+-- The token itself is shown to the participant once; only its SHA-256 hash is stored.
+--
+-- The hashes live in management_tokens, which no visitor or organiser can read. The participant
+-- tables are public (and sent over realtime), so a hash kept there would be as good as the token.
+-- The self-service functions take the token and hash it with hash_management_token().
+-- Safe to run again. An earlier version kept the hash in the participant tables; those hashes are
+-- moved here and the columns dropped, so re-run migrate-add-enrollment-rpc.sql and the migrations
+-- after it afterwards.
+
+CREATE TABLE IF NOT EXISTS management_tokens (
+    participant_id TEXT PRIMARY KEY, -- Stays the same when someone moves between the waiting queue and the enrolled list
+    token_hash TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- No policies: only the SECURITY DEFINER functions below can read or write it
+ALTER TABLE management_tokens ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON management_tokens FROM anon, authenticated;
+
+-- Hex SHA-256 of the trimmed token (same as hashManagementToken in lib/managementToken.ts)
+CREATE OR REPLACE FUNCTION hash_management_token(p_token TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE WHEN length(btrim(COALESCE(p_token, ''), E' \t\r\n')) = 0 THEN NULL
+                ELSE encode(sha256(convert_to(btrim(p_token, E' \t\r\n'), 'UTF8')), 'hex') END;
+$$;
+
+-- The participant a token belongs to, or NULL
+CREATE OR REPLACE FUNCTION participant_id_for_token(p_token TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT participant_id FROM management_tokens WHERE token_hash = hash_management_token(p_token);
+$$;
+
+-- Remember the token of a newly written participant row; called by enroll_participant
+CREATE OR REPLACE FUNCTION save_management_token(p_participant_id TEXT, p_token TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    INSERT INTO management_tokens (participant_id, token_hash)
+    SELECT p_participant_id, hash_management_token(p_token)
+    WHERE hash_management_token(p_token) IS NOT NULL
+    ON CONFLICT DO NOTHING;
+$$;
+
+REVOKE EXECUTE ON FUNCTION participant_id_for_token(TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION save_management_token(TEXT, TEXT) FROM PUBLIC;
+
+-- Move hashes stored by the earlier version of this migration out of the public tables
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns
+                WHERE table_schema = 'public' AND table_name = 'enrolled_participants' AND column_name = 'management_token_hash') THEN
+        INSERT INTO management_tokens (participant_id, token_hash)
+        SELECT id, management_token_hash FROM enrolled_participants WHERE management_token_hash IS NOT NULL
+        UNION ALL
+        SELECT id, management_token_hash FROM waiting_queue_participants WHERE management_token_hash IS NOT NULL
+        ON CONFLICT DO NOTHING;
+
+        ALTER TABLE enrolled_participants DROP COLUMN management_token_hash;
+        ALTER TABLE waiting_queue_participants DROP COLUMN IF EXISTS management_token_hash;
+    END IF;
+END $$;
+
+-- Forget the token once the participant is in neither list (cancelled, removed or archived).
+-- A move between the lists inserts the new row before deleting the old one, so it keeps the token.
+CREATE OR REPLACE FUNCTION forget_orphaned_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM enrolled_participants WHERE id = OLD.id)
+       AND NOT EXISTS (SELECT 1 FROM waiting_queue_participants WHERE id = OLD.id) THEN
+        DELETE FROM management_tokens WHERE participant_id = OLD.id;
+    END IF;
+    RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS forget_token_after_enrolled_delete ON enrolled_participants;
+CREATE TRIGGER forget_token_after_enrolled_delete
+    AFTER DELETE ON enrolled_participants
+    FOR EACH ROW EXECUTE FUNCTION forget_orphaned_token();
+
+DROP TRIGGER IF EXISTS forget_token_after_waiting_delete ON waiting_queue_participants;
+CREATE TRIGGER forget_token_after_waiting_delete
+    AFTER DELETE ON waiting_queue_participants
+    FOR EACH ROW EXECUTE FUNCTION forget_orphaned_token();
+
+-- The enrollment a management link belongs to, for the "manage my enrollment" view
+CREATE OR REPLACE FUNCTION find_enrollment(p_management_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_participant_id TEXT := participant_id_for_token(p_management_token);
+BEGIN
+    IF v_participant_id IS NULL
+       OR (NOT EXISTS (SELECT 1 FROM enrolled_participants WHERE id = v_participant_id)
+           AND NOT EXISTS (SELECT 1 FROM waiting_queue_participants WHERE id = v_participant_id)) THEN
+        RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+    RETURN jsonb_build_object('status', 'found', 'participant_id', v_participant_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION find_enrollment(TEXT) TO anon, authenticated;
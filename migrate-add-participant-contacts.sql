@@ -0,0 +1,126 @@
+-- Migration to store optional contact emails for notifications
+-- Run this AFTER migrate-lock-down-rls.sql (it uses is_organiser() and the management_tokens table). Safe to run again.
+--
+-- Emails are kept out of the public participant tables: only organisers and the
+-- send-notification Edge Function (service role) can read them. A row exists only when
+-- the participant gave explicit consent, and it is removed when they withdraw consent,
+-- or a day after they left both the enrolled list and the waiting queue (long enough to
+-- send the cancellation email).
+CREATE TABLE IF NOT EXISTS participant_contacts (
+    participant_id TEXT PRIMARY KEY, -- As in management_tokens
+    email TEXT NOT NULL CHECK (email ~ '^[^@\s]+@[^@\s]+$'),
+    consent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    left_at TIMESTAMP WITH TIME ZONE -- Set when the participant is in neither list any more
+);
+
+-- Kept from the participant's last row when they leave, for the cancellation email
+ALTER TABLE participant_contacts ADD COLUMN IF NOT EXISTS name TEXT;
+ALTER TABLE participant_contacts ADD COLUMN IF NOT EXISTS session_id TEXT;
+
+-- Messages send-notification has sent, so nobody is mailed the same message twice. Reminders can be sent
+-- again on another day (a week before, then the day before), so their run is the Finnish date they were sent.
+CREATE TABLE IF NOT EXISTS sent_notifications (
+    participant_id TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    run TEXT NOT NULL DEFAULT '', -- Empty for the one-off messages
+    sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (participant_id, kind, run)
+);
+
+-- An earlier version of this migration allowed only one message of each kind, including reminders
+ALTER TABLE sent_notifications ADD COLUMN IF NOT EXISTS run TEXT NOT NULL DEFAULT '';
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.key_column_usage
+                    WHERE table_schema = 'public' AND table_name = 'sent_notifications'
+                      AND constraint_name = 'sent_notifications_pkey' AND column_name = 'run') THEN
+        ALTER TABLE sent_notifications DROP CONSTRAINT IF EXISTS sent_notifications_pkey;
+        ALTER TABLE sent_notifications ADD PRIMARY KEY (participant_id, kind, run);
+    END IF;
+END $$;
+
+-- No policies: only the Edge Function (service role) uses it
+ALTER TABLE sent_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Contacts saved by an earlier version of this migration were keyed on the management token hash
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns
+                WHERE table_schema = 'public' AND table_name = 'participant_contacts' AND column_name = 'management_token_hash') THEN
+        ALTER TABLE participant_contacts ADD COLUMN IF NOT EXISTS participant_id TEXT;
+        UPDATE participant_contacts c SET participant_id = t.participant_id
+          FROM management_tokens t WHERE t.token_hash = c.management_token_hash;
+        DELETE FROM participant_contacts WHERE participant_id IS NULL;
+        ALTER TABLE participant_contacts DROP COLUMN management_token_hash;
+        ALTER TABLE participant_contacts ADD PRIMARY KEY (participant_id);
+    END IF;
+END $$;
+
+ALTER TABLE participant_contacts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Organisers can read participant_contacts" ON participant_contacts;
+CREATE POLICY "Organisers can read participant_contacts" ON participant_contacts
+    FOR SELECT USING (is_organiser());
+
+-- Replaces the version that took the token hash
+DROP FUNCTION IF EXISTS save_contact_email(TEXT, TEXT);
+
+-- Save or withdraw (p_email NULL) the contact email of the enrollment holding this token
+CREATE OR REPLACE FUNCTION save_contact_email(p_management_token TEXT, p_email TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_participant_id TEXT := participant_id_for_token(p_management_token);
+BEGIN
+    IF v_participant_id IS NULL THEN
+        RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    IF p_email IS NULL OR length(trim(p_email)) = 0 THEN
+        DELETE FROM participant_contacts WHERE participant_id = v_participant_id;
+        RETURN jsonb_build_object('status', 'removed');
+    END IF;
+
+    INSERT INTO participant_contacts (participant_id, email, consent_at)
+    VALUES (v_participant_id, lower(trim(p_email)), NOW())
+    ON CONFLICT (participant_id) DO UPDATE SET email = EXCLUDED.email, consent_at = EXCLUDED.consent_at, left_at = NULL;
+    RETURN jsonb_build_object('status', 'saved');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_contact_email(TEXT, TEXT) TO anon, authenticated;
+
+-- Mark the email for removal once the person is in neither list, and remove emails marked
+-- more than a day ago. Promotion inserts the enrolled row before deleting the waiting row,
+-- so the contact is not marked by it.
+CREATE OR REPLACE FUNCTION forget_orphaned_contact()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM enrolled_participants WHERE id = OLD.id)
+       AND NOT EXISTS (SELECT 1 FROM waiting_queue_participants WHERE id = OLD.id) THEN
+        UPDATE participant_contacts SET left_at = NOW(), name = OLD.name, session_id = OLD.session_id
+         WHERE participant_id = OLD.id AND left_at IS NULL;
+    END IF;
+    DELETE FROM participant_contacts WHERE left_at < NOW() - INTERVAL '1 day';
+    DELETE FROM sent_notifications s
+     WHERE NOT EXISTS (SELECT 1 FROM participant_contacts c WHERE c.participant_id = s.participant_id);
+    RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS forget_contact_after_enrolled_delete ON enrolled_participants;
+CREATE TRIGGER forget_contact_after_enrolled_delete
+    AFTER DELETE ON enrolled_participants
+    FOR EACH ROW EXECUTE FUNCTION forget_orphaned_contact();
+
+DROP TRIGGER IF EXISTS forget_contact_after_waiting_delete ON waiting_queue_participants;
+CREATE TRIGGER forget_contact_after_waiting_delete
+    AFTER DELETE ON waiting_queue_participants
+    FOR EACH ROW EXECUTE FUNCTION forget_orphaned_contact();
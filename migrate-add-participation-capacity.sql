@@ -0,0 +1,8 @@
+-- Migration to add separate local (room) and remote seat limits per session
+-- NULL means the participation type is limited only by the session's total capacity
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS local_capacity INTEGER CHECK (local_capacity >= 0);
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS remote_capacity INTEGER CHECK (remote_capacity >= 0);
+
+-- Participants who chose local can agree to take a remote seat when the room is full
+ALTER TABLE enrolled_participants ADD COLUMN IF NOT EXISTS accepts_remote_fallback BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE waiting_queue_participants ADD COLUMN IF NOT EXISTS accepts_remote_fallback BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,89 @@
+-- Migration to archive sessions after they have taken place
+-- Run this AFTER migrate-lock-down-rls.sql (and migrate-add-participant-contacts.sql if you use it). Safe to run again.
+--
+-- archive_past_sessions() moves the enrolled and waiting rows of every session whose day has
+-- passed (midnight Finnish time after it ends) into archived_participants and stamps
+-- sessions.archived_at. Only the name, quota, participation type, enrollment time and check-in time
+-- (migrate-add-check-in.sql) are kept: management links stop working, and the contact trigger forgets
+-- emails as the live rows go.
+-- This is the only definition of archive_past_sessions(); change it here and re-run this file.
+-- The browser calls the function when the page loads; schedule it too if pg_cron is enabled:
+--   SELECT cron.schedule('archive-past-sessions', '5 0 * * *', 'SELECT archive_past_sessions()');
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS archived_participants (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    in_waiting_queue BOOLEAN NOT NULL DEFAULT false, -- Still in the waiting queue when archived
+    name TEXT NOT NULL,
+    needs_diversity_quota BOOLEAN NOT NULL,
+    participation_type TEXT NOT NULL,
+    enrolled_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    archived_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Check-in times, set from the dashboard's check-in mode (see migrate-add-check-in.sql). Added here so
+-- archive_past_sessions() can keep them whether or not that migration has run yet.
+ALTER TABLE enrolled_participants ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE waiting_queue_participants ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE archived_participants ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_archived_participants_session ON archived_participants (session_id, enrolled_at);
+
+-- The history is for organisers only; rows are only written by archive_past_sessions()
+ALTER TABLE archived_participants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Organisers can read archived_participants" ON archived_participants;
+CREATE POLICY "Organisers can read archived_participants" ON archived_participants
+    FOR SELECT USING (is_organiser());
+DROP POLICY IF EXISTS "Organisers can delete archived_participants" ON archived_participants;
+CREATE POLICY "Organisers can delete archived_participants" ON archived_participants
+    FOR DELETE USING (is_organiser());
+
+-- Returns the number of sessions archived. Safe for anyone to call: it only ever archives
+-- sessions whose day is over, decided by the database clock.
+CREATE OR REPLACE FUNCTION archive_past_sessions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session RECORD;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_session IN
+        SELECT id FROM sessions
+        WHERE archived_at IS NULL
+          AND NOW() >= ((COALESCE((ends_at AT TIME ZONE 'Europe/Helsinki')::date, date) + 1)::timestamp AT TIME ZONE 'Europe/Helsinki')
+        ORDER BY date
+        -- Same row lock as enroll_participant, so nobody enrolls while the lists are moved
+        FOR UPDATE
+    LOOP
+        -- Only enrolled check-ins are kept, for the no-show report
+        INSERT INTO archived_participants (id, session_id, in_waiting_queue, name, needs_diversity_quota, participation_type, enrolled_at, checked_in_at)
+        SELECT id, session_id, false, name, needs_diversity_quota, participation_type, enrolled_at, checked_in_at
+        FROM enrolled_participants WHERE session_id = v_session.id
+        ON CONFLICT (id) DO NOTHING;
+
+        INSERT INTO archived_participants (id, session_id, in_waiting_queue, name, needs_diversity_quota, participation_type, enrolled_at)
+        SELECT id, session_id, true, name, needs_diversity_quota, participation_type, enrolled_at
+        FROM waiting_queue_participants WHERE session_id = v_session.id
+        ON CONFLICT (id) DO NOTHING;
+
+        DELETE FROM enrolled_participants WHERE session_id = v_session.id;
+        DELETE FROM waiting_queue_participants WHERE session_id = v_session.id;
+
+        UPDATE sessions SET archived_at = NOW() WHERE id = v_session.id;
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION archive_past_sessions() TO anon, authenticated;
+
+-- Archive sessions that are already over
+SELECT archive_past_sessions();
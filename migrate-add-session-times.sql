@@ -0,0 +1,17 @@
+-- Migration to give sessions real start and end times and a Teams link
+-- Run this AFTER migrate-add-sessions-table.sql.
+-- Times are stored as timestamptz; the app shows them and writes calendar invites in Europe/Helsinki time.
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS starts_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS ends_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS teams_link TEXT;
+
+-- Fill in existing rows from the time slot text ('11-14' or '9:30-12'), read as Finnish time
+UPDATE sessions
+SET starts_at = ((date::text || ' ' || trim(split_part(time_slot, '-', 1)) ||
+                  CASE WHEN trim(split_part(time_slot, '-', 1)) LIKE '%:%' THEN '' ELSE ':00' END)::timestamp AT TIME ZONE 'Europe/Helsinki'),
+    ends_at = ((date::text || ' ' || trim(split_part(time_slot, '-', 2)) ||
+                CASE WHEN trim(split_part(time_slot, '-', 2)) LIKE '%:%' THEN '' ELSE ':00' END)::timestamp AT TIME ZONE 'Europe/Helsinki')
+WHERE starts_at IS NULL
+  AND time_slot ~ '^\s*\d{1,2}(:\d{2})?\s*-\s*\d{1,2}(:\d{2})?\s*$';
+
+ALTER TABLE sessions ADD CONSTRAINT sessions_ends_after_start CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at);
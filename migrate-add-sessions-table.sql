@@ -0,0 +1,31 @@
+-- Migration to move workshop sessions from code into the database
+-- New workshops are added by inserting a row here instead of editing SESSIONS and redeploying
+CREATE TABLE IF NOT EXISTS sessions (
+    id VARCHAR(50) PRIMARY KEY,
+    date DATE NOT NULL,
+    time_slot TEXT NOT NULL,
+    description TEXT,
+    capacity INTEGER NOT NULL DEFAULT 20 CHECK (capacity > 0),
+    men_quota INTEGER NOT NULL DEFAULT 3 CHECK (men_quota >= 0),
+    women_non_binary_spots INTEGER NOT NULL DEFAULT 17 CHECK (women_non_binary_spots >= 0),
+    location TEXT,
+    enrollment_opens_at TIMESTAMP WITH TIME ZONE,
+    enrollment_closes_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+
+-- Everyone needs to see the sessions; changes are made in the Supabase dashboard
+CREATE POLICY "Allow public read access on sessions" ON sessions
+    FOR SELECT USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_date ON sessions (date);
+
+-- Seed the sessions that were previously hardcoded in types/index.ts
+INSERT INTO sessions (id, date, time_slot, description, capacity, men_quota, women_non_binary_spots, location)
+VALUES
+    ('session-1', '2026-03-17', '11-14', 'First Vibe Coding Workshop', 20, 3, 17, 'Karvaamokuja'),
+    ('session-2', '2026-04-07', '11-14', 'Second Vibe Coding Workshop', 20, 3, 17, 'Karvaamokuja')
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,4 @@
+-- Migration to publish participant changes over Supabase Realtime
+-- Open browsers subscribe to inserts/updates/deletes so counts and queue positions update live
+ALTER PUBLICATION supabase_realtime ADD TABLE enrolled_participants;
+ALTER PUBLICATION supabase_realtime ADD TABLE waiting_queue_participants;
@@ -0,0 +1,259 @@
+-- Migration to restrict writes to organisers
+-- Run this AFTER migrate-add-enrollment-rpc.sql. Safe to run again.
+--
+-- After this migration:
+--   * everyone can read sessions and participants (the lists are public on the page)
+--   * participants can only add themselves through enroll_participant, and only change or
+--     cancel their own row through the management-token functions below
+--   * direct inserts, updates and deletes are limited to organisers
+-- The management-token functions take the token itself and hash it here. The hashes are in
+-- management_tokens (migrate-add-management-token.sql), which no one can read from the browser.
+
+-- Organisers are Supabase Auth users listed here.
+-- Add one with: INSERT INTO organisers (user_id, email) SELECT id, email FROM auth.users WHERE email = '...';
+CREATE TABLE IF NOT EXISTS organisers (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE organisers ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_organiser()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (SELECT 1 FROM organisers WHERE user_id = auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION is_organiser() TO anon, authenticated;
+
+DROP POLICY IF EXISTS "Organisers can read organisers" ON organisers;
+CREATE POLICY "Organisers can read organisers" ON organisers
+    FOR SELECT USING (is_organiser());
+
+-- Replace the public write policies
+DROP POLICY IF EXISTS "Allow public insert on enrolled_participants" ON enrolled_participants;
+DROP POLICY IF EXISTS "Allow public update on enrolled_participants" ON enrolled_participants;
+DROP POLICY IF EXISTS "Allow public delete on enrolled_participants" ON enrolled_participants;
+DROP POLICY IF EXISTS "Allow public insert on waiting_queue_participants" ON waiting_queue_participants;
+DROP POLICY IF EXISTS "Allow public update on waiting_queue_participants" ON waiting_queue_participants;
+DROP POLICY IF EXISTS "Allow public delete on waiting_queue_participants" ON waiting_queue_participants;
+
+DROP POLICY IF EXISTS "Organisers can insert enrolled_participants" ON enrolled_participants;
+CREATE POLICY "Organisers can insert enrolled_participants" ON enrolled_participants
+    FOR INSERT WITH CHECK (is_organiser());
+DROP POLICY IF EXISTS "Organisers can update enrolled_participants" ON enrolled_participants;
+CREATE POLICY "Organisers can update enrolled_participants" ON enrolled_participants
+    FOR UPDATE USING (is_organiser());
+DROP POLICY IF EXISTS "Organisers can delete enrolled_participants" ON enrolled_participants;
+CREATE POLICY "Organisers can delete enrolled_participants" ON enrolled_participants
+    FOR DELETE USING (is_organiser());
+
+DROP POLICY IF EXISTS "Organisers can insert waiting_queue_participants" ON waiting_queue_participants;
+CREATE POLICY "Organisers can insert waiting_queue_participants" ON waiting_queue_participants
+    FOR INSERT WITH CHECK (is_organiser());
+DROP POLICY IF EXISTS "Organisers can update waiting_queue_participants" ON waiting_queue_participants;
+CREATE POLICY "Organisers can update waiting_queue_participants" ON waiting_queue_participants
+    FOR UPDATE USING (is_organiser());
+DROP POLICY IF EXISTS "Organisers can delete waiting_queue_participants" ON waiting_queue_participants;
+CREATE POLICY "Organisers can delete waiting_queue_participants" ON waiting_queue_participants
+    FOR DELETE USING (is_organiser());
+
+DROP POLICY IF EXISTS "Organisers can insert sessions" ON sessions;
+CREATE POLICY "Organisers can insert sessions" ON sessions
+    FOR INSERT WITH CHECK (is_organiser());
+DROP POLICY IF EXISTS "Organisers can update sessions" ON sessions;
+CREATE POLICY "Organisers can update sessions" ON sessions
+    FOR UPDATE USING (is_organiser());
+DROP POLICY IF EXISTS "Organisers can delete sessions" ON sessions;
+CREATE POLICY "Organisers can delete sessions" ON sessions
+    FOR DELETE USING (is_organiser());
+
+-- Whether someone fits a seat right now (same rules as EnrollmentService.canEnroll)
+CREATE OR REPLACE FUNCTION can_take_seat(
+    p_session_id TEXT,
+    p_needs_diversity_quota BOOLEAN,
+    p_participation_type TEXT
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    v_session sessions%ROWTYPE;
+    v_total INTEGER;
+    v_men INTEGER;
+    v_women INTEGER;
+    v_local INTEGER;
+    v_remote INTEGER;
+BEGIN
+    SELECT * INTO v_session FROM sessions WHERE id = p_session_id;
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    SELECT count(*),
+           count(*) FILTER (WHERE needs_diversity_quota),
+           count(*) FILTER (WHERE NOT needs_diversity_quota),
+           count(*) FILTER (WHERE participation_type = 'local'),
+           count(*) FILTER (WHERE participation_type = 'remote')
+      INTO v_total, v_men, v_women, v_local, v_remote
+      FROM enrolled_participants
+     WHERE session_id = p_session_id;
+
+    IF v_total >= v_session.capacity THEN
+        RETURN false;
+    END IF;
+    IF p_needs_diversity_quota THEN
+        IF v_men >= v_session.men_quota AND v_women < v_session.women_non_binary_spots THEN
+            RETURN false;
+        END IF;
+    ELSIF v_women >= v_session.women_non_binary_spots THEN
+        RETURN false;
+    END IF;
+
+    IF p_participation_type = 'local' AND v_session.local_capacity IS NOT NULL AND v_local >= v_session.local_capacity THEN
+        RETURN false;
+    END IF;
+    IF p_participation_type = 'remote' AND v_session.remote_capacity IS NOT NULL AND v_remote >= v_session.remote_capacity THEN
+        RETURN false;
+    END IF;
+    RETURN true;
+END;
+$$;
+
+-- Move the first eligible person from a session's waiting queue into a freed seat.
+-- The caller must hold the session lock. Returns the promoted row, or NULL.
+CREATE OR REPLACE FUNCTION promote_from_waiting_queue(p_session_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_candidate waiting_queue_participants%ROWTYPE;
+    v_type TEXT;
+BEGIN
+    FOR v_candidate IN
+        SELECT * FROM waiting_queue_participants WHERE session_id = p_session_id ORDER BY enrolled_at
+    LOOP
+        v_type := NULL;
+        IF can_take_seat(p_session_id, v_candidate.needs_diversity_quota, v_candidate.participation_type) THEN
+            v_type := v_candidate.participation_type;
+        ELSIF v_candidate.participation_type = 'local' AND v_candidate.accepts_remote_fallback
+              AND can_take_seat(p_session_id, v_candidate.needs_diversity_quota, 'remote') THEN
+            v_type := 'remote';
+        END IF;
+
+        IF v_type IS NOT NULL THEN
+            INSERT INTO enrolled_participants (id, name, needs_diversity_quota, participation_type, enrolled_at, session_id, accepts_remote_fallback)
+            VALUES (v_candidate.id, v_candidate.name, v_candidate.needs_diversity_quota, v_type, NOW(), p_session_id, v_candidate.accepts_remote_fallback);
+            DELETE FROM waiting_queue_participants WHERE id = v_candidate.id;
+            RETURN (SELECT to_jsonb(e) FROM enrolled_participants e WHERE e.id = v_candidate.id);
+        END IF;
+    END LOOP;
+    RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION can_take_seat(TEXT, BOOLEAN, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION promote_from_waiting_queue(TEXT) FROM PUBLIC;
+
+-- Earlier versions took the token hash. Postgres can't rename a parameter with CREATE OR REPLACE,
+-- so the old functions are dropped first (later migrations do the same for their functions).
+DROP FUNCTION IF EXISTS cancel_enrollment(TEXT);
+DROP FUNCTION IF EXISTS change_participation_type(TEXT, TEXT);
+
+-- Self-service cancellation by management token; a freed seat is promoted in the same transaction
+CREATE OR REPLACE FUNCTION cancel_enrollment(p_management_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_participant_id TEXT := participant_id_for_token(p_management_token);
+    v_session_id TEXT;
+    v_promoted JSONB;
+BEGIN
+    IF v_participant_id IS NULL THEN
+        RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    SELECT session_id INTO v_session_id FROM enrolled_participants WHERE id = v_participant_id;
+    IF FOUND THEN
+        PERFORM 1 FROM sessions WHERE id = v_session_id FOR UPDATE;
+        DELETE FROM enrolled_participants WHERE id = v_participant_id;
+        v_promoted := promote_from_waiting_queue(v_session_id);
+        RETURN jsonb_build_object('status', 'cancelled', 'was_waiting', false, 'promoted', v_promoted);
+    END IF;
+
+    DELETE FROM waiting_queue_participants WHERE id = v_participant_id;
+    IF FOUND THEN
+        RETURN jsonb_build_object('status', 'cancelled', 'was_waiting', true);
+    END IF;
+
+    RETURN jsonb_build_object('status', 'not_found');
+END;
+$$;
+
+-- Self-service switch between local and remote by management token
+CREATE OR REPLACE FUNCTION change_participation_type(p_management_token TEXT, p_participation_type TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_participant_id TEXT := participant_id_for_token(p_management_token);
+    v_row enrolled_participants%ROWTYPE;
+    v_session sessions%ROWTYPE;
+    v_count INTEGER;
+    v_promoted JSONB;
+BEGIN
+    IF p_participation_type NOT IN ('local', 'remote') THEN
+        RETURN jsonb_build_object('status', 'rejected', 'message', 'Invalid participation type.');
+    END IF;
+
+    SELECT * INTO v_row FROM enrolled_participants WHERE id = v_participant_id;
+    IF NOT FOUND THEN
+        UPDATE waiting_queue_participants
+           SET participation_type = p_participation_type, updated_at = NOW()
+         WHERE id = v_participant_id;
+        IF FOUND THEN
+            RETURN jsonb_build_object('status', 'updated');
+        END IF;
+        RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    IF v_row.participation_type = p_participation_type THEN
+        RETURN jsonb_build_object('status', 'updated');
+    END IF;
+
+    SELECT * INTO v_session FROM sessions WHERE id = v_row.session_id FOR UPDATE;
+    SELECT count(*) INTO v_count FROM enrolled_participants
+     WHERE session_id = v_row.session_id AND participation_type = p_participation_type;
+
+    IF (p_participation_type = 'local' AND v_session.local_capacity IS NOT NULL AND v_count >= v_session.local_capacity)
+       OR (p_participation_type = 'remote' AND v_session.remote_capacity IS NOT NULL AND v_count >= v_session.remote_capacity) THEN
+        RETURN jsonb_build_object('status', 'rejected', 'message',
+            CASE WHEN p_participation_type = 'local'
+                 THEN 'The room is full, so you cannot switch to local participation right now.'
+                 ELSE 'Remote seats are full, so you cannot switch to remote participation right now.' END);
+    END IF;
+
+    UPDATE enrolled_participants
+       SET participation_type = p_participation_type, updated_at = NOW()
+     WHERE id = v_row.id;
+
+    -- Switching away from a limited seat type can free a seat for someone in the queue
+    v_promoted := promote_from_waiting_queue(v_row.session_id);
+    RETURN jsonb_build_object('status', 'updated', 'promoted', v_promoted);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cancel_enrollment(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION change_participation_type(TEXT, TEXT) TO anon, authenticated;
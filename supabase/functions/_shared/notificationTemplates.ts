@@ -0,0 +1,64 @@
+// Email templates, shared by buildNotification in lib/notifications.ts and the send-notification Edge Function.
+// Has no imports, so both the Next.js build and Deno can load it.
+
+export type NotificationKind = 'enrolled' | 'queued' | 'promoted' | 'cancelled' | 'reminder';
+
+export const NOTIFICATION_KINDS: NotificationKind[] = ['enrolled', 'queued', 'promoted', 'cancelled', 'reminder'];
+
+export interface NotificationTemplateInput {
+  name: string;
+  description?: string | null;
+  day: string; // The session date, already formatted in Finnish time
+  timeSlot: string;
+  participationType?: string;
+  location?: string | null;
+  teamsLink?: string | null;
+  managementLink?: string;
+  queuePosition?: number;
+}
+
+function whereToJoin(input: NotificationTemplateInput): string {
+  if (input.participationType === 'remote') {
+    return input.teamsLink ? `You are joining remotely: ${input.teamsLink}` : 'You are joining remotely; the Teams link will follow.';
+  }
+  return input.location ? `Location: ${input.location}` : '';
+}
+
+export function renderNotification(kind: NotificationKind, input: NotificationTemplateInput): { subject: string; text: string } {
+  const title = input.description || 'Vibe Coding Workshop';
+  const when = `${input.day}, ${input.timeSlot} (Finnish time)`;
+  const manage = input.managementLink ? `Manage your enrollment: ${input.managementLink}` : '';
+
+  const templates: Record<NotificationKind, { subject: string; lines: string[] }> = {
+    enrolled: {
+      subject: `You're enrolled: ${title}`,
+      lines: [`You have a seat at ${title} on ${when}.`, whereToJoin(input), manage],
+    },
+    queued: {
+      subject: `You're in the waiting queue: ${title}`,
+      lines: [
+        `${title} on ${when} is full, so you are in the waiting queue${input.queuePosition ? ` at position ${input.queuePosition}` : ''}.`,
+        'We will email you if a seat becomes free.',
+        manage,
+      ],
+    },
+    promoted: {
+      subject: `A seat opened up: ${title}`,
+      lines: [`Good news: a seat became free and you are now enrolled in ${title} on ${when}.`, whereToJoin(input)],
+    },
+    cancelled: {
+      subject: `Enrollment cancelled: ${title}`,
+      lines: [`Your enrollment in ${title} on ${when} has been cancelled.`],
+    },
+    reminder: {
+      subject: `Reminder: ${title}`,
+      lines: [`See you at ${title} on ${when}.`, whereToJoin(input), 'If you can no longer come, please cancel through your management link so someone from the waiting queue gets your seat.'],
+    },
+  };
+
+  const template = templates[kind];
+  return {
+    subject: template.subject,
+    text: [`Hi ${input.name},`, '', ...template.lines.filter(Boolean), '', 'Vibe Coding Workshop organisers'].join('\n'),
+  };
+}
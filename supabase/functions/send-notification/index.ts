@@ -0,0 +1,176 @@
+// Supabase Edge Function that emails participants about their enrollment over SMTP.
+// Called by EdgeFunctionMailTransport in lib/notifications.ts; see "Email notifications" in README.md.
+//
+// Deploy with `supabase functions deploy send-notification` and set the secrets
+// SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, MAIL_FROM and SITE_URL (the enrollment page,
+// for management links) with `supabase secrets set`.
+//
+// The browser only names the participant and the kind of message. The address comes from
+// participant_contacts, the text from the shared templates in ../_shared, and the participant's current state
+// must match the kind, so the function can't be used to mail anyone else or to send arbitrary text.
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import nodemailer from 'npm:nodemailer@6';
+import { NOTIFICATION_KINDS, NotificationKind, renderNotification } from '../_shared/notificationTemplates.ts';
+const EVENT_TIME_ZONE = 'Europe/Helsinki';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface ParticipantRow {
+  id: string;
+  name: string;
+  session_id: string;
+  participation_type: 'local' | 'remote';
+  enrolled_at: string;
+}
+
+interface SessionRow {
+  id: string;
+  date: string;
+  time_slot: string;
+  starts_at: string | null;
+  description: string | null;
+  location: string | null;
+  teams_link: string | null;
+}
+
+const env = (name: string) => Deno.env.get(name) ?? '';
+
+// Service role: reads the contacts and tokens that no browser can read
+const db = createClient(env('SUPABASE_URL'), env('SUPABASE_SERVICE_ROLE_KEY'));
+
+const mailer = nodemailer.createTransport({
+  host: env('SMTP_HOST'),
+  port: Number(env('SMTP_PORT') || 587),
+  secure: env('SMTP_PORT') === '465',
+  auth: { user: env('SMTP_USER'), pass: env('SMTP_PASSWORD') },
+});
+
+function respond(status: number, body: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(body), { status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } });
+}
+
+// Same as hashManagementToken in lib/managementToken.ts
+async function hashManagementToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token.trim()));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function callerIsOrganiser(request: Request): Promise<boolean> {
+  const caller = createClient(env('SUPABASE_URL'), env('SUPABASE_ANON_KEY'), {
+    global: { headers: { Authorization: request.headers.get('Authorization') ?? '' } },
+  });
+  const { data } = await caller.rpc('is_organiser');
+  return data === true;
+}
+
+async function findParticipant(table: string, id: string): Promise<ParticipantRow | null> {
+  const { data } = await db.from(table).select('id, name, session_id, participation_type, enrolled_at').eq('id', id).maybeSingle();
+  return data;
+}
+
+function formatDay(session: SessionRow): string {
+  return new Date(session.starts_at ?? `${session.date}T12:00:00Z`).toLocaleDateString('en-GB', {
+    weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: EVENT_TIME_ZONE,
+  });
+}
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+
+  const { kind, participantId, managementToken } = await request.json().catch(() => ({}));
+  if (!NOTIFICATION_KINDS.includes(kind) || typeof participantId !== 'string') {
+    return respond(400, { error: 'Unknown notification' });
+  }
+
+  // Only people who gave consent have a contact row
+  const { data: contact } = await db.from('participant_contacts')
+    .select('email, name, session_id')
+    .eq('participant_id', participantId)
+    .maybeSingle();
+  if (!contact) {
+    return respond(200, { sent: false, reason: 'no-contact' });
+  }
+
+  const enrolled = await findParticipant('enrolled_participants', participantId);
+  const waiting = enrolled ? null : await findParticipant('waiting_queue_participants', participantId);
+  const participant = enrolled ?? waiting;
+
+  // The participant's current state must match the message. Ids keep their waiting- prefix when
+  // someone is promoted, so a seat taken directly can't be announced as a promotion.
+  const stateMatches: Record<NotificationKind, boolean> = {
+    enrolled: !!enrolled,
+    queued: !!waiting,
+    promoted: !!enrolled && participantId.startsWith('waiting-'),
+    cancelled: !participant,
+    reminder: !!enrolled,
+  };
+  if (!stateMatches[kind as NotificationKind]) {
+    return respond(409, { error: 'The enrollment is not in a state for this message' });
+  }
+
+  // Confirmations carry the management link, so only the enrollee's own browser (which holds the token) can ask for them
+  if (kind === 'enrolled' || kind === 'queued') {
+    const { data: token } = await db.from('management_tokens').select('token_hash').eq('participant_id', participantId).maybeSingle();
+    if (typeof managementToken !== 'string' || !token || token.token_hash !== await hashManagementToken(managementToken)) {
+      return respond(403, { error: 'Management token required' });
+    }
+  }
+  if (kind === 'reminder' && !(await callerIsOrganiser(request))) {
+    return respond(403, { error: 'Only organisers can send reminders' });
+  }
+
+  const { data: session } = await db.from('sessions')
+    .select('id, date, time_slot, starts_at, description, location, teams_link')
+    .eq('id', participant?.session_id ?? contact.session_id)
+    .maybeSingle();
+  if (!session) {
+    return respond(404, { error: 'Session not found' });
+  }
+
+  // At most one message of each kind per participant, and one reminder a day, so nobody's inbox can be flooded
+  // through this function
+  const run = kind === 'reminder' ? new Date().toLocaleDateString('sv-SE', { timeZone: EVENT_TIME_ZONE }) : '';
+  const { error: alreadySent } = await db.from('sent_notifications').insert({ participant_id: participantId, kind, run });
+  if (alreadySent) {
+    return respond(200, { sent: false, reason: 'already-sent' });
+  }
+
+  let queuePosition: number | undefined;
+  if (kind === 'queued' && waiting) {
+    const { count } = await db.from('waiting_queue_participants')
+      .select('id', { count: 'exact', head: true })
+      .eq('session_id', waiting.session_id)
+      .lte('enrolled_at', waiting.enrolled_at);
+    queuePosition = count ?? undefined;
+  }
+  const siteUrl = env('SITE_URL');
+  const managementLink = (kind === 'enrolled' || kind === 'queued') && siteUrl
+    ? `${siteUrl}?manage=${encodeURIComponent(managementToken.trim())}`
+    : undefined;
+
+  const message = renderNotification(kind, {
+    name: participant?.name ?? contact.name ?? '',
+    description: session.description,
+    day: formatDay(session),
+    timeSlot: session.time_slot,
+    participationType: participant?.participation_type,
+    location: session.location,
+    teamsLink: session.teams_link,
+    managementLink,
+    queuePosition,
+  });
+  try {
+    await mailer.sendMail({ from: env('MAIL_FROM'), to: contact.email, subject: message.subject, text: message.text });
+  } catch (error) {
+    console.error(`Failed to send ${kind} notification:`, error);
+    // Let a later attempt send it
+    await db.from('sent_notifications').delete().eq('participant_id', participantId).eq('kind', kind).eq('run', run);
+    return respond(502, { error: 'Mail delivery failed' });
+  }
+  return respond(200, { sent: true });
+});
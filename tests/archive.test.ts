@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { EnrollmentService } from '@/lib/enrollment';
+import { InMemoryEnrollmentRepository } from '@/lib/repository';
+import { countArchive, getArchiveTime } from '@/lib/archive';
+import { createFixedClock, helsinkiDate, helsinkiDateTime } from '@/lib/clock';
+import { makeParticipant, makeSession, TEST_SESSION_ID } from './helpers';
+
+const past = makeSession();
+const upcoming = makeSession({
+  id: 'later-session',
+  date: helsinkiDate('2026-04-07'),
+  startsAt: helsinkiDateTime('2026-04-07', 11),
+  endsAt: helsinkiDateTime('2026-04-07', 14),
+});
+
+function createRepository() {
+  return new InMemoryEnrollmentRepository([past, upcoming], {
+    enrolled: [
+      makeParticipant({ name: 'Aino', managementTokenHash: 'hash-aino', contactEmail: 'aino@example.com' }),
+      makeParticipant({ name: 'Matti', needsDiversityQuota: true, participationType: 'remote' }),
+      makeParticipant({ name: 'Later', sessionId: 'later-session' }),
+    ],
+    waitingQueue: [makeParticipant({ name: 'Helmi' })],
+  });
+}
+
+async function createServiceAt(repository: InMemoryEnrollmentRepository, now: Date): Promise<EnrollmentService> {
+  const service = new EnrollmentService(repository, undefined, createFixedClock(now));
+  await service.ready();
+  return service;
+}
+
+describe('session archive', () => {
+  it('archives at midnight Finnish time after the session day', () => {
+    expect(getArchiveTime(past).toISOString()).toBe('2026-03-17T22:00:00.000Z');
+  });
+
+  it('keeps a session live until then', async () => {
+    const service = await createServiceAt(createRepository(), helsinkiDateTime('2026-03-17', 23, 59));
+
+    expect(service.getActiveSessions().map(s => s.id)).toEqual([TEST_SESSION_ID, 'later-session']);
+    expect(service.getState(TEST_SESSION_ID).enrolled).toHaveLength(2);
+    expect(await service.getArchive()).toEqual([]);
+  });
+
+  it('moves the lists of a past session into the archive and hides it from the selectors', async () => {
+    const repository = createRepository();
+    const service = await createServiceAt(repository, helsinkiDateTime('2026-03-18', 0));
+
+    expect(service.getActiveSessions().map(s => s.id)).toEqual(['later-session']);
+    expect(service.getDefaultSessionId()).toBe('later-session');
+    expect(service.getState(TEST_SESSION_ID)).toEqual({ enrolled: [], waitingQueue: [] });
+    expect(service.getState('later-session').enrolled.map(p => p.name)).toEqual(['Later']);
+
+    const [archive] = await service.getArchive();
+    expect(archive.sessionId).toBe(TEST_SESSION_ID);
+    expect(archive.waitingQueue.map(p => p.name)).toEqual(['Helmi']);
+    expect(countArchive(archive)).toEqual({ enrolled: 2, women: 1, men: 1, local: 1, remote: 1, waitingQueue: 1 });
+  });
+
+  it('drops management links and contact details from archived participants', async () => {
+    const service = await createServiceAt(createRepository(), helsinkiDateTime('2026-03-18', 0));
+
+    const [archive] = await service.getArchive();
+    const aino = archive.enrolled.find(p => p.name === 'Aino');
+
+    expect(aino?.managementTokenHash).toBeUndefined();
+    expect(aino?.contactEmail).toBeUndefined();
+  });
+
+  it('archives each session once, however often the page loads', async () => {
+    const repository = createRepository();
+    await createServiceAt(repository, helsinkiDateTime('2026-03-18', 0));
+    const later = await createServiceAt(repository, helsinkiDateTime('2026-04-08', 0));
+
+    const archives = await later.getArchive();
+    expect(archives.map(a => a.sessionId).sort()).toEqual(['later-session', TEST_SESSION_ID]);
+    expect(archives.find(a => a.sessionId === TEST_SESSION_ID)?.enrolled).toHaveLength(2);
+    expect(later.getActiveSessions()).toEqual([]);
+  });
+});
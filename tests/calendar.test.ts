@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { buildIcsFilename, buildSessionIcs, buildSessionsFeed, sessionTimesFromSlot } from '@/lib/calendar';
+import { helsinkiDate, helsinkiDateTime } from '@/lib/clock';
+import { makeSession } from './helpers';
+
+const session = makeSession({
+  id: 'session-1',
+  description: 'Vibe Coding, part 1',
+  location: 'Room 101',
+  teamsLink: 'https://teams.example/meet',
+});
+
+// Unfolded content lines, without the DTSTAMP that changes on every download
+function lines(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n').filter(line => !line.startsWith('DTSTAMP:'));
+}
+
+describe('buildSessionIcs', () => {
+  it('puts a local participant in the room, in Finnish time', () => {
+    const event = lines(buildSessionIcs(session, 'local'));
+
+    expect(event).toEqual(expect.arrayContaining([
+      'UID:session-1@enroll-for-vibecoding',
+      'DTSTART;TZID=Europe/Helsinki:20260317T110000',
+      'DTEND;TZID=Europe/Helsinki:20260317T140000',
+      'SUMMARY:Vibe Coding\\, part 1',
+      'LOCATION:Room 101',
+    ]));
+    expect(event).toContain('TZID:Europe/Helsinki');
+    expect(event.some(line => line.startsWith('URL:'))).toBe(false);
+  });
+
+  it('gives a remote participant the Teams link, with the same UID so the invite replaces a local one', () => {
+    const event = lines(buildSessionIcs(session, 'remote'));
+
+    expect(event).toEqual(expect.arrayContaining([
+      'UID:session-1@enroll-for-vibecoding',
+      'LOCATION:Microsoft Teams (https://teams.example/meet)',
+      'URL:https://teams.example/meet',
+    ]));
+  });
+
+  it('keeps the local time across the summer time change', () => {
+    const summer = makeSession({ startsAt: helsinkiDateTime('2026-04-07', 11), endsAt: helsinkiDateTime('2026-04-07', 14) });
+
+    expect(lines(buildSessionIcs(summer, 'local'))).toContain('DTSTART;TZID=Europe/Helsinki:20260407T110000');
+  });
+
+  it('folds lines longer than 75 characters', () => {
+    const ics = buildSessionIcs(makeSession({ description: 'A'.repeat(200) }), 'local');
+
+    expect(ics.split('\r\n').every(line => line.length <= 75)).toBe(true);
+    expect(lines(ics)).toContain(`SUMMARY:${'A'.repeat(200)}`);
+  });
+
+  it('folds at 75 octets without splitting a character', () => {
+    const summary = 'Työpaja: äänestys ja öljyvärit 🎨 '.repeat(6);
+    const ics = buildSessionIcs(makeSession({ description: summary }), 'local');
+    const encoder = new TextEncoder();
+
+    expect(ics.split('\r\n').every(line => encoder.encode(line).length <= 75)).toBe(true);
+    expect(ics).not.toContain('\uFFFD');
+    expect(ics.split('\r\n').every(line => !/[\uD800-\uDBFF]$|^ ?[\uDC00-\uDFFF]/.test(line))).toBe(true);
+    expect(lines(ics)).toContain(`SUMMARY:${summary}`);
+  });
+});
+
+describe('buildSessionsFeed', () => {
+  it('has one event per session', () => {
+    const feed = lines(buildSessionsFeed([session, makeSession({ id: 'session-2' })]));
+
+    expect(feed.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(feed).toContain('UID:session-2@enroll-for-vibecoding');
+  });
+});
+
+describe('sessionTimesFromSlot', () => {
+  it('reads minutes and en dashes', () => {
+    const { startsAt, endsAt } = sessionTimesFromSlot(helsinkiDate('2026-03-17'), '9:30–12');
+
+    expect([startsAt, endsAt]).toEqual([helsinkiDateTime('2026-03-17', 9, 30), helsinkiDateTime('2026-03-17', 12)]);
+  });
+
+  it('falls back to the session date for a slot it cannot read', () => {
+    const date = helsinkiDate('2026-03-17');
+
+    expect(sessionTimesFromSlot(date, 'afternoon')).toEqual({ startsAt: date, endsAt: date });
+  });
+});
+
+describe('buildIcsFilename', () => {
+  it('uses the session id', () => {
+    expect(buildIcsFilename(session)).toBe('session-1.ics');
+  });
+});
@@ -0,0 +1,276 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EnrollmentService } from '@/lib/enrollment';
+import { InMemoryEnrollmentRepository } from '@/lib/repository';
+import { applyCheckIn, getAttendance, formatNoShowRate } from '@/lib/checkin';
+import { createFixedClock, helsinkiDateTime } from '@/lib/clock';
+import { DatabaseFunctionRepository, makeParticipant, makeSession, TEST_SESSION_ID } from './helpers';
+
+// Supabase as lib/auth.ts sees it: a signed-in user, whose organiser role is asked from the database
+const auth = vi.hoisted(() => ({ reachable: true, organiser: true }));
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    auth: {
+      getSession: async () => ({ data: { session: { user: { id: 'organiser-1', email: 'organiser@example.com' } } }, error: null }),
+    },
+    rpc: async () => auth.reachable
+      ? { data: auth.organiser, error: null }
+      : { data: null, error: { message: 'TypeError: Failed to fetch' } },
+  },
+}));
+
+// At the door, half an hour before the test session starts
+const DOOR_TIME = helsinkiDateTime('2026-03-17', 10, 30);
+
+// A database that can be read but not written to, like a flaky connection at the venue
+class UnreachableRepository extends DatabaseFunctionRepository {
+  reachable = false;
+
+  constructor(...args: ConstructorParameters<typeof InMemoryEnrollmentRepository>) {
+    super(args[0] ?? [], args[1] ?? {});
+  }
+
+  async updateParticipant(...args: Parameters<InMemoryEnrollmentRepository['updateParticipant']>): Promise<void> {
+    if (!this.reachable) throw new Error('TypeError: Failed to fetch');
+    return super.updateParticipant(...args);
+  }
+
+  async moveParticipant(...args: Parameters<InMemoryEnrollmentRepository['moveParticipant']>): Promise<void> {
+    if (!this.reachable) throw new Error('TypeError: Failed to fetch');
+    return super.moveParticipant(...args);
+  }
+}
+
+function createParticipants() {
+  return {
+    enrolled: [makeParticipant({ name: 'Aino' }), makeParticipant({ name: 'Matti', needsDiversityQuota: true })],
+    waitingQueue: [makeParticipant({ name: 'Helmi' })],
+  };
+}
+
+async function createServiceOn(repository: InMemoryEnrollmentRepository): Promise<EnrollmentService> {
+  const service = new EnrollmentService(repository, undefined, createFixedClock(DOOR_TIME));
+  await service.ready();
+  return service;
+}
+
+// Runs an action whose writes are retried with backoff, without waiting for the real delays
+async function withoutRetryDelays<T>(action: () => Promise<T>): Promise<T> {
+  vi.useFakeTimers();
+  try {
+    const result = action();
+    await vi.runAllTimersAsync();
+    return await result;
+  } finally {
+    vi.useRealTimers();
+  }
+}
+
+// Going offline at the venue: the browser knows it, and neither the database nor the role check can be reached
+function goOffline(repository: UnreachableRepository): void {
+  vi.stubGlobal('navigator', { onLine: false });
+  auth.reachable = false;
+  repository.reachable = false;
+}
+
+function goOnline(repository: UnreachableRepository): void {
+  vi.stubGlobal('navigator', { onLine: true });
+  auth.reachable = true;
+  repository.reachable = true;
+}
+
+beforeEach(() => {
+  auth.reachable = true;
+  auth.organiser = true;
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('check-in', () => {
+  it('records the check-in time and saves it', async () => {
+    const repository = new InMemoryEnrollmentRepository([makeSession()], createParticipants());
+    const service = await createServiceOn(repository);
+    const aino = service.getState(TEST_SESSION_ID).enrolled[0];
+
+    const result = await service.checkIn(aino.id, TEST_SESSION_ID);
+
+    expect(result).toMatchObject({ success: true, message: 'Aino checked in.' });
+    expect(service.getState(TEST_SESSION_ID).enrolled[0].checkedInAt).toEqual(DOOR_TIME);
+    expect((await repository.load()).enrolled.find(p => p.id === aino.id)?.checkedInAt).toEqual(DOOR_TIME);
+  });
+
+  it('undoes a check-in tapped by mistake', async () => {
+    const repository = new InMemoryEnrollmentRepository([makeSession()], createParticipants());
+    const service = await createServiceOn(repository);
+    const aino = service.getState(TEST_SESSION_ID).enrolled[0];
+    await service.checkIn(aino.id, TEST_SESSION_ID);
+
+    const result = await service.undoCheckIn(aino.id, TEST_SESSION_ID);
+
+    expect(result.success).toBe(true);
+    expect((await repository.load()).enrolled.find(p => p.id === aino.id)?.checkedInAt).toBeUndefined();
+    expect(await service.undoCheckIn(aino.id, TEST_SESSION_ID)).toMatchObject({ success: false });
+  });
+
+  it('lets a walk-in in from the waiting queue, even over capacity', async () => {
+    const repository = new InMemoryEnrollmentRepository([makeSession({ capacity: 2 })], createParticipants());
+    const service = await createServiceOn(repository);
+    const helmi = service.getState(TEST_SESSION_ID).waitingQueue[0];
+
+    const result = await service.checkInWalkIn(helmi.id, TEST_SESSION_ID);
+    const saved = await repository.load();
+
+    expect(result.success).toBe(true);
+    expect(saved.waitingQueue).toEqual([]);
+    expect(saved.enrolled.find(p => p.id === helmi.id)?.checkedInAt).toEqual(DOOR_TIME);
+    expect(service.getState(TEST_SESSION_ID).enrolled.map(p => p.name)).toEqual(['Aino', 'Matti', 'Helmi']);
+  });
+
+  it('refuses anyone but a signed-in organiser', async () => {
+    auth.organiser = false;
+    const service = await createServiceOn(new InMemoryEnrollmentRepository([makeSession()], createParticipants()));
+    const aino = service.getState(TEST_SESSION_ID).enrolled[0];
+
+    const result = await service.checkIn(aino.id, TEST_SESSION_ID);
+
+    expect(result).toMatchObject({ success: false, message: 'Only signed-in organisers can do this.' });
+    expect(service.getState(TEST_SESSION_ID).enrolled[0].checkedInAt).toBeUndefined();
+  });
+});
+
+describe('check-in without a connection', () => {
+  it('keeps checking people in after the connection drops, as the organiser last confirmed online', async () => {
+    const repository = new UnreachableRepository([makeSession()], createParticipants());
+    goOnline(repository);
+    const service = await createServiceOn(repository);
+    const [aino, matti] = service.getState(TEST_SESSION_ID).enrolled;
+    await service.checkIn(aino.id, TEST_SESSION_ID);
+
+    goOffline(repository);
+    const result = await service.checkIn(matti.id, TEST_SESSION_ID);
+
+    expect(result).toMatchObject({ success: true, pendingSync: true, message: 'Matti checked in. Saved on this device until the connection returns.' });
+    expect(service.getPendingCheckIns().map(e => e.participant.name)).toEqual(['Matti']);
+
+    goOnline(repository);
+    expect(await service.syncCheckIns()).toBe(1);
+    const saved = await repository.load();
+    expect(saved.enrolled.filter(p => p.checkedInAt).map(p => p.name)).toEqual(['Aino', 'Matti']);
+  });
+
+  it('refuses offline check-in on a device where the organiser role was never confirmed', async () => {
+    const repository = new UnreachableRepository([makeSession()], createParticipants());
+    goOffline(repository);
+    const service = await createServiceOn(repository);
+
+    const result = await service.checkIn(service.getState(TEST_SESSION_ID).enrolled[0].id, TEST_SESSION_ID);
+
+    expect(result).toMatchObject({ success: false, message: 'Only signed-in organisers can do this.' });
+    expect(service.getPendingCheckIns()).toEqual([]);
+  });
+
+  it('does not keep an organiser role that was withdrawn while online', async () => {
+    const repository = new UnreachableRepository([makeSession()], createParticipants());
+    goOnline(repository);
+    const service = await createServiceOn(repository);
+    const [aino, matti] = service.getState(TEST_SESSION_ID).enrolled;
+    await service.checkIn(aino.id, TEST_SESSION_ID);
+    auth.organiser = false;
+    await service.undoCheckIn(aino.id, TEST_SESSION_ID);
+
+    goOffline(repository);
+    const result = await service.checkIn(matti.id, TEST_SESSION_ID);
+
+    expect(result.success).toBe(false);
+  });
+
+  it('keeps check-ins on the device, shows them after a reload and sends them once reachable', async () => {
+    const repository = new UnreachableRepository([makeSession()], createParticipants());
+    const service = await createServiceOn(repository);
+    const [aino] = service.getState(TEST_SESSION_ID).enrolled;
+    const helmi = service.getState(TEST_SESSION_ID).waitingQueue[0];
+
+    const result = await withoutRetryDelays(() => service.checkIn(aino.id, TEST_SESSION_ID));
+    await withoutRetryDelays(() => service.checkInWalkIn(helmi.id, TEST_SESSION_ID));
+
+    expect(result).toMatchObject({ success: true, pendingSync: true });
+    expect(service.getPendingCheckIns().map(e => e.participant.name)).toEqual(['Aino', 'Helmi']);
+
+    const reloaded = await createServiceOn(repository);
+    expect(reloaded.getState(TEST_SESSION_ID).enrolled.map(p => [p.name, p.checkedInAt])).toEqual([
+      ['Aino', DOOR_TIME], ['Matti', undefined], ['Helmi', DOOR_TIME],
+    ]);
+
+    repository.reachable = true;
+    expect(await reloaded.syncCheckIns()).toBe(2);
+    expect(reloaded.getPendingCheckIns()).toEqual([]);
+    const saved = await repository.load();
+    expect(saved.enrolled.filter(p => p.checkedInAt).map(p => p.name)).toEqual(['Aino', 'Helmi']);
+    expect(saved.waitingQueue).toEqual([]);
+  });
+
+  it('sends an offline walk-in as a move out of the waiting queue', async () => {
+    const repository = new UnreachableRepository([makeSession()], createParticipants());
+    const service = await createServiceOn(repository);
+    const helmi = service.getState(TEST_SESSION_ID).waitingQueue[0];
+
+    await withoutRetryDelays(() => service.checkInWalkIn(helmi.id, TEST_SESSION_ID));
+    // Already waiting in the outbox, so the undo queues straight behind it without trying the database
+    await service.undoCheckIn(helmi.id, TEST_SESSION_ID);
+
+    expect(service.getPendingCheckIns()).toMatchObject([{ participantId: helmi.id, walkIn: true }]);
+
+    repository.reachable = true;
+    await service.syncCheckIns();
+    const saved = await repository.load();
+
+    expect(saved.waitingQueue).toEqual([]);
+    expect(saved.enrolled.find(p => p.id === helmi.id)?.checkedInAt).toBeUndefined();
+  });
+});
+
+describe('attendance', () => {
+  it('counts no-shows among the enrolled', () => {
+    const attendance = getAttendance([
+      makeParticipant({ checkedInAt: DOOR_TIME }),
+      makeParticipant({ checkedInAt: DOOR_TIME }),
+      makeParticipant({ checkedInAt: DOOR_TIME }),
+      makeParticipant(),
+    ]);
+
+    expect(attendance).toEqual({ enrolled: 4, checkedIn: 3, noShows: 1, noShowRate: 0.25 });
+    expect(formatNoShowRate(attendance)).toBe('25% no-shows');
+  });
+
+  it('reports no rate when check-in was not used', () => {
+    const attendance = getAttendance([makeParticipant(), makeParticipant()]);
+
+    expect(attendance.noShowRate).toBeNull();
+    expect(formatNoShowRate(attendance)).toBe('no check-ins recorded');
+  });
+
+  it('leaves out a check-in for someone who has since been removed', () => {
+    const state = { enrolled: [makeParticipant()], waitingQueue: [] };
+
+    expect(applyCheckIn(state, makeParticipant({ checkedInAt: DOOR_TIME }), true)).toBe(state);
+  });
+
+  it('keeps check-in times in the archive', async () => {
+    const repository = new InMemoryEnrollmentRepository([makeSession()], createParticipants());
+    const service = await createServiceOn(repository);
+    await service.checkIn(service.getState(TEST_SESSION_ID).enrolled[0].id, TEST_SESSION_ID);
+
+    const later = new EnrollmentService(repository, undefined, createFixedClock(helsinkiDateTime('2026-03-18', 0)));
+    await later.ready();
+    const [archive] = await later.getArchive();
+
+    expect(getAttendance(archive.enrolled)).toMatchObject({ checkedIn: 1, noShows: 1, noShowRate: 0.5 });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { SECOND_SESSION_CUTOFF, SESSIONS } from '@/types';
+import {
+  createFixedClock,
+  createPreviewClock,
+  formatCountdown,
+  formatEventDate,
+  fromHelsinkiInputValue,
+  helsinkiDate,
+  helsinkiDateTime,
+  helsinkiIsoDate,
+  toHelsinkiInputValue
+} from '@/lib/clock';
+import { sessionTimesFromSlot } from '@/lib/calendar';
+import { mapRowToSession } from '@/lib/repository';
+import { startEnrollmentPreview, stopEnrollmentPreview, getEnrollmentService } from '@/lib/enrollment';
+
+describe('Finnish time', () => {
+  it('uses UTC+2 in winter and UTC+3 in summer', () => {
+    expect(helsinkiDateTime('2026-02-10', 8).toISOString()).toBe('2026-02-10T06:00:00.000Z');
+    expect(helsinkiDateTime('2026-04-07', 11).toISOString()).toBe('2026-04-07T08:00:00.000Z');
+  });
+
+  it('switches on the last Sunday of March', () => {
+    expect(helsinkiDateTime('2026-03-28', 12).toISOString()).toBe('2026-03-28T10:00:00.000Z');
+    expect(helsinkiDateTime('2026-03-29', 12).toISOString()).toBe('2026-03-29T09:00:00.000Z');
+  });
+
+  it('keeps the session day the same whatever the time of day in UTC', () => {
+    const day = helsinkiDate('2026-03-17');
+
+    expect(day.toISOString()).toBe('2026-03-16T22:00:00.000Z');
+    expect(helsinkiIsoDate(day)).toBe('2026-03-17');
+    expect(formatEventDate(day)).toBe('Tuesday, 17 March 2026');
+  });
+
+  it('models the built-in sessions and the cutoff in Finnish time', () => {
+    expect(SECOND_SESSION_CUTOFF.toISOString()).toBe('2026-02-10T06:00:00.000Z');
+    expect(SESSIONS.map(s => helsinkiIsoDate(s.date))).toEqual(['2026-03-17', '2026-04-07']);
+    expect(SESSIONS.map(s => s.startsAt.toISOString())).toEqual(['2026-03-17T09:00:00.000Z', '2026-04-07T08:00:00.000Z']);
+    expect(SESSIONS.map(s => [s.date, s.endsAt])).toEqual([
+      [helsinkiDate('2026-03-17'), helsinkiDateTime('2026-03-17', 14)],
+      [helsinkiDate('2026-04-07'), helsinkiDateTime('2026-04-07', 14)],
+    ]);
+  });
+
+  it('reads a DATE column as the day in Finland and derives the times from the slot', () => {
+    const session = mapRowToSession({ id: 'session-3', date: '2026-04-07', time_slot: '9:30-12' });
+
+    expect(helsinkiIsoDate(session.date)).toBe('2026-04-07');
+    expect(session.startsAt.toISOString()).toBe('2026-04-07T06:30:00.000Z');
+    expect(sessionTimesFromSlot(new Date('2026-04-07'), '11-14').startsAt.toISOString()).toBe('2026-04-07T08:00:00.000Z');
+  });
+
+  it('round-trips datetime-local input values as Finnish time', () => {
+    const at = fromHelsinkiInputValue('2026-02-10T07:59');
+
+    expect(at?.toISOString()).toBe('2026-02-10T05:59:00.000Z');
+    expect(toHelsinkiInputValue(at!)).toBe('2026-02-10T07:59');
+    expect(fromHelsinkiInputValue('2026-02-10')).toBeNull();
+  });
+});
+
+describe('formatCountdown', () => {
+  it('shows hours, minutes and seconds, with days when more than one is left', () => {
+    expect(formatCountdown(9 * 60 * 1000 + 59 * 1000)).toBe('00:09:59');
+    expect(formatCountdown(((26 * 60 + 3) * 60 + 4) * 1000)).toBe('1 day 02:03:04');
+    expect(formatCountdown(3 * 86400 * 1000)).toBe('3 days 00:00:00');
+  });
+
+  it('rounds up part seconds and never goes below zero', () => {
+    expect(formatCountdown(1)).toBe('00:00:01');
+    expect(formatCountdown(-5000)).toBe('00:00:00');
+  });
+});
+
+describe('clocks', () => {
+  it('a preview clock starts at the chosen time and runs from there', () => {
+    let real = Date.UTC(2026, 9, 1, 12);
+    const base = { now: () => new Date(real) };
+    const clock = createPreviewClock(SECOND_SESSION_CUTOFF, base);
+
+    expect(clock.now()).toEqual(SECOND_SESSION_CUTOFF);
+    real += 90 * 1000;
+    expect(clock.now().getTime()).toBe(SECOND_SESSION_CUTOFF.getTime() + 90 * 1000);
+    expect(clock.previewFrom).toEqual(SECOND_SESSION_CUTOFF);
+  });
+
+  it('a fixed clock never moves', () => {
+    const clock = createFixedClock(SECOND_SESSION_CUTOFF);
+
+    expect(clock.now()).toEqual(SECOND_SESSION_CUTOFF);
+    expect(clock.previewFrom).toBeUndefined();
+  });
+});
+
+describe('organiser preview', () => {
+  it('evaluates rules at the preview time without touching the real service', async () => {
+    const live = getEnrollmentService();
+    const before = new Date(SECOND_SESSION_CUTOFF.getTime() - 60 * 1000);
+
+    const preview = await startEnrollmentPreview(before);
+    const result = await preview.enroll({ name: 'Preview Person', needsDiversityQuota: false, participationType: 'local', sessionId: 'session-2' });
+
+    expect(preview.getPreviewTime()).toEqual(before);
+    expect(result).toMatchObject({ success: true, addedToQueue: true });
+    expect(live.getState('session-2').waitingQueue).toEqual([]);
+
+    stopEnrollmentPreview();
+    expect(getEnrollmentService()).toBe(live);
+    expect(live.getPreviewTime()).toBeNull();
+  });
+});
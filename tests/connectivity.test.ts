@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startConnectivityMonitoring } from '@/lib/connectivity';
+
+// The service the monitor syncs through, replaced per test
+const service = vi.hoisted(() => ({
+  syncOutbox: null as unknown as () => Promise<unknown>,
+  syncCheckIns: null as unknown as () => Promise<unknown>,
+}));
+vi.mock('@/lib/enrollment', () => ({
+  getEnrollmentService: () => service,
+}));
+vi.mock('@/lib/supabase', () => ({ supabase: null }));
+
+let listeners: Map<string, Set<() => void>>;
+
+beforeEach(() => {
+  listeners = new Map();
+  vi.stubGlobal('window', {
+    addEventListener: (type: string, listener: () => void) => {
+      listeners.set(type, (listeners.get(type) ?? new Set()).add(listener));
+    },
+    removeEventListener: (type: string, listener: () => void) => listeners.get(type)?.delete(listener),
+  });
+  vi.stubGlobal('navigator', { onLine: false });
+  vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('offline'); }));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  service.syncOutbox = vi.fn(async () => []);
+  service.syncCheckIns = vi.fn(async () => 0);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('startConnectivityMonitoring', () => {
+  it('adds its listeners once however often it is started, and removes them when stopped', () => {
+    const stop = startConnectivityMonitoring();
+    expect(startConnectivityMonitoring()).toBe(stop);
+    expect(listeners.get('online')?.size).toBe(1);
+
+    stop();
+
+    expect(listeners.get('online')?.size).toBe(0);
+    expect(listeners.get('offline')?.size).toBe(0);
+  });
+
+  it('sends check-ins after the enrollments when back online, and logs a failed sync', async () => {
+    const order: string[] = [];
+    service.syncOutbox = vi.fn(async () => { order.push('outbox'); throw new Error('502'); });
+    service.syncCheckIns = vi.fn(async () => { order.push('check-ins'); return 0; });
+    const stop = startConnectivityMonitoring();
+
+    listeners.get('online')?.forEach(listener => listener());
+    await flush();
+    expect(order).toEqual(['outbox']);
+    expect(console.warn).toHaveBeenCalledWith('⚠️ Failed to sync offline changes:', expect.any(Error));
+
+    service.syncOutbox = vi.fn(async () => { order.push('outbox'); return []; });
+    listeners.get('online')?.forEach(listener => listener());
+    await flush();
+    expect(order).toEqual(['outbox', 'outbox', 'check-ins']);
+    stop();
+  });
+});
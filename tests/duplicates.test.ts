@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { describeDuplicate, findDuplicateInSession, findSuspectedDuplicates, normalizeName } from '@/lib/duplicates';
+import { createService, makeParticipant, request, TEST_SESSION_ID } from './helpers';
+
+describe('normalizeName', () => {
+  it('ignores case, diacritics and extra whitespace', () => {
+    expect(normalizeName('  Anna   MÄKINEN\t')).toBe('anna makinen');
+    expect(normalizeName('José Ñúñez')).toBe(normalizeName('jose nunez'));
+  });
+});
+
+describe('findDuplicateInSession', () => {
+  const aino = makeParticipant({ name: 'Aino Virtanen', contactEmail: 'aino@example.com', managementTokenHash: 'hash-aino' });
+  const helmi = makeParticipant({ name: 'Helmi Lahti' });
+  const state = { enrolled: [aino], waitingQueue: [makeParticipant(), helmi] };
+
+  it('matches the same management token first', () => {
+    expect(findDuplicateInSession(state, { name: 'Someone Else', managementTokenHash: 'hash-aino' }))
+      .toMatchObject({ participant: aino, matchedOn: 'token', inWaitingQueue: false });
+  });
+
+  it('matches the same contact email under another name', () => {
+    expect(findDuplicateInSession(state, { name: 'A. Virtanen', contactEmail: ' AINO@example.com ' }))
+      .toMatchObject({ participant: aino, matchedOn: 'email' });
+  });
+
+  it('matches a normalised name in the waiting queue, with the queue position', () => {
+    const match = findDuplicateInSession(state, { name: 'helmi  lahti' });
+
+    expect(match).toMatchObject({ participant: helmi, matchedOn: 'name', inWaitingQueue: true, queuePosition: 2 });
+    expect(describeDuplicate(match!)).toContain('in the waiting queue for this session at position 2');
+  });
+
+  it('finds nothing for someone new', () => {
+    expect(findDuplicateInSession(state, { name: 'Matti Nieminen', contactEmail: 'matti@example.com' })).toBeNull();
+  });
+});
+
+describe('findSuspectedDuplicates', () => {
+  it('groups the same name and the same stored email across sessions, same-session groups first', () => {
+    const state = {
+      sessions: {
+        'session-1': {
+          enrolled: [makeParticipant({ id: 'a1', name: 'Aino Virtanen', sessionId: 'session-1' })],
+          waitingQueue: [makeParticipant({ id: 'm1', name: 'Matti', sessionId: 'session-1' })],
+        },
+        'session-2': {
+          enrolled: [
+            makeParticipant({ id: 'a2', name: 'aino virtanen', sessionId: 'session-2' }),
+            makeParticipant({ id: 'm2', name: 'M. Nieminen', sessionId: 'session-2' }),
+            makeParticipant({ id: 'm3', name: 'Matti N', sessionId: 'session-2' }),
+          ],
+          waitingQueue: [],
+        },
+      },
+    };
+    // Emails stored server-side, as organisers load them from participant_contacts
+    const emails = new Map([['m1', 'matti@example.com'], ['m3', 'Matti@Example.com']]);
+
+    const groups = findSuspectedDuplicates(state, emails);
+
+    expect(groups.map(g => [g.matchedOn, g.key, g.entries.map(e => e.participant.id), g.sameSession])).toEqual([
+      ['name', 'aino virtanen', ['a1', 'a2'], false],
+      ['email', 'matti@example.com', ['m1', 'm3'], false],
+    ]);
+  });
+});
+
+describe('enroll', () => {
+  it('tells someone already in the waiting queue their position instead of queueing them twice', async () => {
+    const service = await createService(undefined, { waitingQueue: [makeParticipant(), makeParticipant({ name: 'Päivi Mäkinen' })] });
+
+    const result = await service.enroll(request({ name: 'PAIVI MAKINEN' }));
+
+    expect(result).toMatchObject({ success: false });
+    expect(result.message).toContain('at position 2');
+    expect(service.getState(TEST_SESSION_ID).waitingQueue).toHaveLength(2);
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, expect, it } from 'vitest';
+import { InMemoryEnrollmentRepository } from '@/lib/repository';
+import { EnrollmentService } from '@/lib/enrollment';
+import { createFixedClock } from '@/lib/clock';
+import { createService, DatabaseFunctionRepository, makeParticipant, makeSession, request, TEST_NOW, TEST_SESSION_ID } from './helpers';
+
+const women = (count: number, overrides = {}) =>
+  Array.from({ length: count }, () => makeParticipant({ needsDiversityQuota: false, ...overrides }));
+const men = (count: number, overrides = {}) =>
+  Array.from({ length: count }, () => makeParticipant({ needsDiversityQuota: true, ...overrides }));
+
+describe('getEnrollmentStats', () => {
+  it('counts enrolled participants by quota and participation type', async () => {
+    const service = await createService([makeSession({ localCapacity: 15, remoteCapacity: 10 })], {
+      enrolled: [...women(4), ...women(2, { participationType: 'remote' }), ...men(1)],
+      waitingQueue: women(3),
+    });
+
+    const stats = service.getEnrollmentStats(TEST_SESSION_ID);
+
+    expect(stats).toMatchObject({
+      total: 7,
+      women: 6,
+      men: 1,
+      local: 5,
+      remote: 2,
+      availableSpots: 13,
+      waitingQueueLength: 3,
+      menQuotaRemaining: 2,
+      womenNonBinarySpotsRemaining: 11,
+      localSpotsRemaining: 10,
+      remoteSpotsRemaining: 8,
+    });
+  });
+
+  it('reports no separate seat limits when the session has none', async () => {
+    const service = await createService();
+
+    const stats = service.getEnrollmentStats(TEST_SESSION_ID);
+
+    expect(stats.localSpotsRemaining).toBeNull();
+    expect(stats.remoteSpotsRemaining).toBeNull();
+  });
+});
+
+describe('canEnroll', () => {
+  it('admits women and non-binary people until their spots are full', async () => {
+    const service = await createService([makeSession()], { enrolled: women(16) });
+    expect(service.canEnroll(false, TEST_SESSION_ID).canEnroll).toBe(true);
+
+    const full = await createService([makeSession()], { enrolled: women(17) });
+    expect(full.canEnroll(false, TEST_SESSION_ID)).toMatchObject({ canEnroll: false });
+  });
+
+  it('admits the first men up to the diversity quota', async () => {
+    const service = await createService([makeSession()], { enrolled: men(2) });
+    expect(service.canEnroll(true, TEST_SESSION_ID).canEnroll).toBe(true);
+
+    const full = await createService([makeSession()], { enrolled: men(3) });
+    expect(full.canEnroll(true, TEST_SESSION_ID)).toEqual({
+      canEnroll: false,
+      reason: 'The diversity quota spots have been filled.',
+    });
+  });
+
+  it('opens the remaining seats to men once the women and non-binary spots are full', async () => {
+    const session = makeSession({ capacity: 22 });
+    const service = await createService([session], { enrolled: [...women(17), ...men(3)] });
+
+    expect(service.canEnroll(true, TEST_SESSION_ID).canEnroll).toBe(true);
+  });
+
+  it('refuses everyone when the session is at capacity', async () => {
+    const service = await createService([makeSession()], { enrolled: [...women(17), ...men(3)] });
+
+    expect(service.canEnroll(true, TEST_SESSION_ID).canEnroll).toBe(false);
+    expect(service.canEnroll(false, TEST_SESSION_ID).canEnroll).toBe(false);
+  });
+
+  it('reports which seat type is full', async () => {
+    const service = await createService([makeSession({ localCapacity: 2 })], { enrolled: women(2) });
+
+    expect(service.canEnroll(false, TEST_SESSION_ID, 'local')).toMatchObject({ canEnroll: false, participationFull: 'local' });
+    expect(service.canEnroll(false, TEST_SESSION_ID, 'remote').canEnroll).toBe(true);
+  });
+});
+
+describe('enroll', () => {
+  it('enrolls while there is room and returns a management link', async () => {
+    const service = await createService();
+
+    const result = await service.enroll(request({ name: 'Aino' }));
+
+    expect(result).toMatchObject({ success: true, message: 'Successfully enrolled!', participationType: 'local' });
+    expect(result.addedToQueue).toBeUndefined();
+    expect(result.managementToken).toBeTruthy();
+    expect(service.getState(TEST_SESSION_ID).enrolled.map(p => p.name)).toEqual(['Aino']);
+  });
+
+  it('queues women and non-binary applicants once their spots are full, with position and track', async () => {
+    const service = await createService([makeSession()], { enrolled: women(17), waitingQueue: women(2) });
+
+    const result = await service.enroll(request({ name: 'Helmi' }));
+
+    expect(result).toMatchObject({ success: true, addedToQueue: true, queuePosition: 3, quotaTrack: 'women-non-binary' });
+    expect(service.getState(TEST_SESSION_ID).waitingQueue.at(-1)?.name).toBe('Helmi');
+  });
+
+  it('rejects men beyond the quota while women and non-binary spots remain', async () => {
+    const service = await createService([makeSession()], { enrolled: men(3) });
+
+    const result = await service.enroll(request({ needsDiversityQuota: true }));
+
+    expect(result).toEqual({ success: false, message: 'The diversity quota spots have been filled.' });
+    expect(service.getEnrollmentStats(TEST_SESSION_ID).total).toBe(3);
+  });
+
+  it('moves a local applicant to a remote seat when the room is full and they agreed to it', async () => {
+    const service = await createService([makeSession({ localCapacity: 1 })], { enrolled: women(1) });
+
+    const result = await service.enroll(request({ acceptsRemoteFallback: true }));
+
+    expect(result).toMatchObject({ success: true, participationType: 'remote' });
+    expect(result.message).toContain('join remotely');
+  });
+
+  it('queues a local applicant for a local seat when the room is full and they did not agree to remote', async () => {
+    const service = await createService([makeSession({ localCapacity: 1 })], { enrolled: women(1) });
+
+    const result = await service.enroll(request());
+
+    expect(result).toMatchObject({ success: true, addedToQueue: true });
+    expect(result.message).toContain('The room is full');
+  });
+
+  it('refuses a second enrollment of the same person in a session', async () => {
+    const service = await createService();
+    await service.enroll(request({ name: 'Anna Mäkinen' }));
+
+    const result = await service.enroll(request({ name: '  anna  makinen ' }));
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('already enrolled');
+  });
+
+  it('persists to the repository so another browser sees the enrollment', async () => {
+    const repository = new InMemoryEnrollmentRepository([makeSession()]);
+    const clock = createFixedClock(TEST_NOW);
+    const first = new EnrollmentService(repository, undefined, clock);
+    await first.ready();
+    await first.enroll(request({ name: 'Aino' }));
+
+    const second = new EnrollmentService(repository, undefined, clock);
+    await second.ready();
+
+    expect(second.getState(TEST_SESSION_ID).enrolled.map(p => p.name)).toEqual(['Aino']);
+  });
+});
+
+describe('findByManagementToken', () => {
+  it('asks the database, which keeps the only copy of the token hashes', async () => {
+    const aino = makeParticipant({ name: 'Aino' });
+    const helmi = makeParticipant({ name: 'Helmi' });
+    const repository = new DatabaseFunctionRepository([makeSession()], { enrolled: [aino], waitingQueue: [helmi] }, {
+      find_enrollment: ({ p_management_token }) =>
+        p_management_token === 'helmi-token' ? { status: 'found', participant_id: helmi.id } : { status: 'not_found' },
+    });
+    const service = new EnrollmentService(repository, undefined, createFixedClock(TEST_NOW));
+    await service.ready();
+
+    const match = await service.findByManagementToken(' helmi-token ');
+
+    expect(match).toMatchObject({ participant: { name: 'Helmi' }, inWaitingQueue: true, queuePosition: 1 });
+    expect(repository.calls).toEqual([{ name: 'find_enrollment', params: { p_management_token: 'helmi-token' } }]);
+    expect(await service.findByManagementToken('guessed')).toBeNull();
+  });
+});
+
+describe('contact email', () => {
+  it('is saved with the management token, which the database hashes to find the enrollment', async () => {
+    const repository = new DatabaseFunctionRepository([makeSession()], {}, {
+      find_enrollment: () => ({ status: 'not_found' }),
+      save_contact_email: () => ({ status: 'saved' }),
+    });
+    const service = new EnrollmentService(repository, undefined, createFixedClock(TEST_NOW));
+    await service.ready();
+
+    const result = await service.enroll(request({ name: 'Aino', contactEmail: 'aino@example.com', emailConsentAt: TEST_NOW }));
+
+    expect(repository.calls.find(call => call.name === 'save_contact_email')?.params).toEqual({
+      p_management_token: result.managementToken,
+      p_email: 'aino@example.com',
+    });
+  });
+});
+
+describe('cancelWithManagementToken', () => {
+  it('gives the freed seat to the first person in the waiting queue', async () => {
+    const service = await createService([makeSession({ capacity: 2, menQuota: 0, womenNonBinarySpots: 2 })]);
+    const first = await service.enroll(request({ name: 'First' }));
+    await service.enroll(request({ name: 'Second' }));
+    await service.enroll(request({ name: 'Waiting' }));
+
+    const result = await service.cancelWithManagementToken(first.managementToken!);
+
+    expect(result.success).toBe(true);
+    const state = service.getState(TEST_SESSION_ID);
+    expect(state.enrolled.map(p => p.name)).toEqual(['Second', 'Waiting']);
+    expect(state.waitingQueue).toEqual([]);
+  });
+
+  it('sends the token itself for the database to check, never a hash', async () => {
+    const helmi = makeParticipant({ name: 'Helmi' });
+    const repository = new DatabaseFunctionRepository([makeSession()], { waitingQueue: [helmi] }, {
+      find_enrollment: () => ({ status: 'found', participant_id: helmi.id }),
+      cancel_enrollment: () => ({ status: 'cancelled', was_waiting: true }),
+    });
+    const service = new EnrollmentService(repository, undefined, createFixedClock(TEST_NOW));
+    await service.ready();
+
+    const result = await service.cancelWithManagementToken('helmi-token');
+
+    expect(result).toMatchObject({ success: true, message: 'You have been removed from the waiting queue.' });
+    expect(repository.calls.find(call => call.name === 'cancel_enrollment')?.params).toEqual({ p_management_token: 'helmi-token' });
+  });
+});
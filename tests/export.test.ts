@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { buildExportFilename, buildParticipantCsv } from '@/lib/export';
+import { parseParticipantCsv } from '@/lib/import';
+import { makeParticipant, TEST_SESSION_ID } from './helpers';
+
+const state = {
+  enrolled: [
+    makeParticipant({ name: 'Aino', enrolledAt: new Date('2026-02-01T10:00:00Z'), checkedInAt: new Date('2026-03-17T08:55:00Z') }),
+    makeParticipant({ name: 'Matti', needsDiversityQuota: true, participationType: 'remote', enrolledAt: new Date('2026-02-01T10:05:00Z') }),
+  ],
+  waitingQueue: [
+    makeParticipant({ name: 'Helmi', participationType: 'remote', enrolledAt: new Date('2026-02-02T09:00:00Z') }),
+    makeParticipant({ name: 'Liisa', enrolledAt: new Date('2026-02-02T09:30:00Z') }),
+  ],
+};
+
+describe('buildParticipantCsv', () => {
+  it('lists the enrolled, then the waiting queue with positions', () => {
+    expect(buildParticipantCsv(state).split('\r\n')).toEqual([
+      'Name,Diversity quota,Participation type,Status,Queue position,Enrolled at,Checked in at',
+      'Aino,no,local,enrolled,,2026-02-01T10:00:00.000Z,2026-03-17T08:55:00.000Z',
+      'Matti,yes,remote,enrolled,,2026-02-01T10:05:00.000Z,',
+      'Helmi,no,remote,waiting,1,2026-02-02T09:00:00.000Z,',
+      'Liisa,no,local,waiting,2,2026-02-02T09:30:00.000Z,',
+      '',
+    ]);
+  });
+
+  it('keeps queue positions when filtering by participation type', () => {
+    const lines = buildParticipantCsv(state, { status: 'waiting', participationType: 'local' }).trim().split('\r\n');
+
+    expect(lines.slice(1)).toEqual(['Liisa,no,local,waiting,2,2026-02-02T09:30:00.000Z,']);
+  });
+
+  it('writes semicolons and a byte order mark for Excel', () => {
+    const csv = buildParticipantCsv({ enrolled: [state.enrolled[0]], waitingQueue: [] }, { excelCompatible: true });
+
+    expect(csv.startsWith('﻿Name;Diversity quota;')).toBe(true);
+    expect(csv).toContain('Aino;no;local;enrolled;');
+  });
+
+  it('quotes delimiters and quotes, and keeps names from running as formulas', () => {
+    const csv = buildParticipantCsv({
+      enrolled: [makeParticipant({ name: 'Virtanen, Aino "AV"' }), makeParticipant({ name: '=HYPERLINK("x")' })],
+      waitingQueue: [],
+    });
+
+    expect(csv).toContain('\r\n"Virtanen, Aino ""AV""",no,');
+    expect(csv).toContain('\r\n"\'=HYPERLINK(""x"")",no,');
+  });
+
+  it('can be imported again unchanged', () => {
+    const participants = [makeParticipant({ name: '=Aino; "AV"', needsDiversityQuota: true }), makeParticipant({ name: 'Matti', participationType: 'remote' })];
+    const csv = buildParticipantCsv({ enrolled: participants, waitingQueue: [] }, { excelCompatible: true });
+
+    const { rows, errors } = parseParticipantCsv(csv, [TEST_SESSION_ID], TEST_SESSION_ID);
+
+    expect(errors).toEqual([]);
+    expect(rows.map(row => [row.name, row.needsDiversityQuota, row.participationType])).toEqual([
+      ['=Aino; "AV"', true, 'local'],
+      ['Matti', false, 'remote'],
+    ]);
+  });
+});
+
+describe('buildExportFilename', () => {
+  it('names the session and the filters', () => {
+    expect(buildExportFilename('session-1')).toBe('session-1-participants.csv');
+    expect(buildExportFilename('session-1', { status: 'waiting', participationType: 'remote' })).toBe('session-1-waiting-remote-participants.csv');
+  });
+});
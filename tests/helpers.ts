@@ -0,0 +1,88 @@
+import { Participant, Session, MAX_CAPACITY, MEN_QUOTA, WOMEN_NON_BINARY_SPOTS } from '@/types';
+import { EnrollmentService, EnrollmentRequest } from '@/lib/enrollment';
+import { InMemoryEnrollmentRepository, ParticipantListName } from '@/lib/repository';
+import { Clock, createFixedClock, helsinkiDate, helsinkiDateTime } from '@/lib/clock';
+import { MailTransport } from '@/lib/notifications';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const TEST_SESSION_ID = 'test-session';
+
+// Default time for tests: after the second-session cutoff, while enrollment for the test session is open
+export const TEST_NOW = helsinkiDateTime('2026-03-01', 12);
+
+export function makeSession(overrides: Partial<Session> = {}): Session {
+  return {
+    id: TEST_SESSION_ID,
+    date: helsinkiDate('2026-03-17'),
+    timeSlot: '11-14',
+    startsAt: helsinkiDateTime('2026-03-17', 11),
+    endsAt: helsinkiDateTime('2026-03-17', 14),
+    description: 'Test Workshop',
+    capacity: MAX_CAPACITY,
+    menQuota: MEN_QUOTA,
+    womenNonBinarySpots: WOMEN_NON_BINARY_SPOTS,
+    ...overrides,
+  };
+}
+
+let nextId = 0;
+
+export function makeParticipant(overrides: Partial<Participant> = {}): Participant {
+  nextId++;
+  return {
+    id: `enrolled-test-${nextId}`,
+    name: `Participant ${nextId}`,
+    needsDiversityQuota: false,
+    participationType: 'local',
+    enrolledAt: new Date(Date.UTC(2026, 0, 1, 0, 0, nextId)),
+    sessionId: TEST_SESSION_ID,
+    ...overrides,
+  };
+}
+
+export function request(overrides: Partial<EnrollmentRequest> = {}): EnrollmentRequest {
+  return {
+    name: `Applicant ${++nextId}`,
+    needsDiversityQuota: false,
+    participationType: 'local',
+    sessionId: TEST_SESSION_ID,
+    ...overrides,
+  };
+}
+
+// A service on a fresh in-memory database, loaded and ready
+export async function createService(
+  sessions: Session[] = [makeSession()],
+  participants: Partial<Record<ParticipantListName, Participant[]>> = {},
+  clock: Clock = createFixedClock(TEST_NOW),
+  mailTransport?: MailTransport
+): Promise<EnrollmentService> {
+  const service = new EnrollmentService(new InMemoryEnrollmentRepository(sessions, participants), undefined, clock, mailTransport);
+  await service.ready();
+  return service;
+}
+
+export type DatabaseFunction = (params: Record<string, any>) => unknown;
+
+// An in-memory database behind a stand-in Supabase client that answers database function calls.
+// Functions not listed answer as if they were not installed, so the service uses its client-side path.
+export class DatabaseFunctionRepository extends InMemoryEnrollmentRepository {
+  readonly client: SupabaseClient;
+  readonly calls: { name: string; params: Record<string, any> }[] = [];
+
+  constructor(
+    sessions: Session[],
+    participants: Partial<Record<ParticipantListName, Participant[]>>,
+    readonly functions: Record<string, DatabaseFunction> = {}
+  ) {
+    super(sessions, participants);
+    const rpc = async (name: string, params: Record<string, any> = {}) => {
+      this.calls.push({ name, params });
+      const handler = this.functions[name];
+      return handler
+        ? { data: await handler(params), error: null }
+        : { data: null, error: { code: 'PGRST202', message: `Could not find the function public.${name}` } };
+    };
+    this.client = { rpc } as unknown as SupabaseClient;
+  }
+}
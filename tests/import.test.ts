@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseParticipantCsv } from '@/lib/import';
+import { EnrollmentService } from '@/lib/enrollment';
+import { InMemoryEnrollmentRepository } from '@/lib/repository';
+import { createFixedClock } from '@/lib/clock';
+import { SECOND_SESSION_CUTOFF, SESSIONS } from '@/types';
+import { createService, DatabaseFunctionRepository, makeParticipant, makeSession, TEST_NOW, TEST_SESSION_ID } from './helpers';
+
+// A signed-in organiser, as lib/auth.ts sees it through Supabase
+const auth = vi.hoisted(() => ({ organiser: true }));
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    auth: {
+      getSession: async () => ({ data: { session: { user: { id: 'organiser-1', email: 'organiser@example.com' } } }, error: null }),
+    },
+    rpc: async () => ({ data: auth.organiser, error: null }),
+  },
+}));
+
+beforeEach(() => {
+  auth.organiser = true;
+});
+
+const SESSION_IDS = [TEST_SESSION_ID, 'other-session'];
+const BEFORE_CUTOFF = createFixedClock(new Date(SECOND_SESSION_CUTOFF.getTime() - 60 * 1000));
+
+describe('parseParticipantCsv', () => {
+  it('reads the columns by header name, in any order, with the default session for rows without one', () => {
+    const { rows, errors } = parseParticipantCsv(
+      'Participation Type,Name,Diversity Quota,Remote fallback,Session\nremote,Aino,no,,\nLOCAL,Matti,yes,yes,other-session\n',
+      SESSION_IDS,
+      TEST_SESSION_ID
+    );
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      { line: 2, name: 'Aino', needsDiversityQuota: false, participationType: 'remote', sessionId: TEST_SESSION_ID, acceptsRemoteFallback: false },
+      { line: 3, name: 'Matti', needsDiversityQuota: true, participationType: 'local', sessionId: 'other-session', acceptsRemoteFallback: true },
+    ]);
+  });
+
+  it('reads semicolon files with a byte order mark, quoted values and the export\'s formula guard', () => {
+    const { rows, errors } = parseParticipantCsv(
+      '﻿name;quota;type\r\n"Virtanen; Aino ""AV""";x;local\r\n\'=Helmi;0;remote\r\n',
+      SESSION_IDS,
+      TEST_SESSION_ID
+    );
+
+    expect(errors).toEqual([]);
+    expect(rows.map(row => [row.line, row.name])).toEqual([[2, 'Virtanen; Aino "AV"'], [3, '=Helmi']]);
+  });
+
+  it('keeps the starting line of a record with a line break inside quotes', () => {
+    const { rows } = parseParticipantCsv('name,quota,type\n"Aino\nVirtanen",no,local\nMatti,no,local\n', SESSION_IDS, TEST_SESSION_ID);
+
+    expect(rows.map(row => [row.line, row.name])).toEqual([[2, 'Aino\nVirtanen'], [4, 'Matti']]);
+  });
+
+  it('reports every problem of a row and skips it', () => {
+    const { rows, errors } = parseParticipantCsv(
+      'name,quota,type,session\n,maybe,hybrid,nowhere\nAino,no,local,\n',
+      SESSION_IDS,
+      TEST_SESSION_ID
+    );
+
+    expect(rows.map(row => row.name)).toEqual(['Aino']);
+    expect(errors).toEqual([{
+      line: 2,
+      message: 'name is empty; diversity quota "maybe" is not yes/no; participation type "hybrid" must be local or remote; unknown session "nowhere"',
+    }]);
+  });
+
+  it('refuses a file without the required columns', () => {
+    expect(parseParticipantCsv('name,email\nAino,aino@example.com\n', SESSION_IDS, TEST_SESSION_ID)).toEqual({
+      rows: [],
+      errors: [{ line: 1, message: 'Missing column(s): needsDiversityQuota, participationType. Expected a header row with name, diversity quota and participation type.' }],
+    });
+    expect(parseParticipantCsv('', SESSION_IDS, TEST_SESSION_ID).errors).toEqual([{ line: 1, message: 'The file is empty.' }]);
+  });
+});
+
+describe('importParticipants', () => {
+  const smallSession = makeSession({ capacity: 2, menQuota: 0, womenNonBinarySpots: 2 });
+  const csv = 'name,quota,type\nAino,no,local\nHelmi,no,local\nLiisa,no,local\nVeera,no,local\nhelmi,no,local\n';
+
+  it('fills the seats in file order, queues the overflow in the same order and rejects duplicates', async () => {
+    const repository = new InMemoryEnrollmentRepository([smallSession], {});
+    const service = new EnrollmentService(repository, undefined, createFixedClock(TEST_NOW));
+    await service.ready();
+
+    const result = await service.importParticipants(parseParticipantCsv(csv, [TEST_SESSION_ID], TEST_SESSION_ID).rows, false);
+
+    expect(result).toMatchObject({ success: true, message: 'Imported: 2 enrolled, 2 queued, 1 rejected.' });
+    expect(result.outcomes.map(o => [o.line, o.placement])).toEqual([[2, 'enrolled'], [3, 'enrolled'], [4, 'queued'], [5, 'queued'], [6, 'rejected']]);
+    expect(result.outcomes[4].message).toBe('Duplicate: Helmi is already enrolled');
+
+    const saved = await repository.load();
+    expect(saved.enrolled.map(p => p.name)).toEqual(['Aino', 'Helmi']);
+    expect(saved.waitingQueue.map(p => p.name)).toEqual(['Liisa', 'Veera']);
+    // Timestamps come from the service clock
+    expect(saved.waitingQueue.map(p => p.enrolledAt)).toEqual([TEST_NOW, TEST_NOW]);
+  });
+
+  it('queues everyone behind the people already waiting when the session is full', async () => {
+    const service = await createService([smallSession], {
+      enrolled: [makeParticipant(), makeParticipant()],
+      waitingQueue: [makeParticipant({ name: 'Already waiting' })],
+    });
+
+    const result = await service.importParticipants(parseParticipantCsv('name,quota,type\nAino,no,local\n', [TEST_SESSION_ID], TEST_SESSION_ID).rows, false);
+
+    expect(result.outcomes.map(o => o.placement)).toEqual(['queued']);
+    expect(service.getState(TEST_SESSION_ID).waitingQueue.map(p => p.name)).toEqual(['Already waiting', 'Aino']);
+  });
+
+  it('previews without saving or changing the lists', async () => {
+    const repository = new InMemoryEnrollmentRepository([smallSession], {});
+    const service = new EnrollmentService(repository, undefined, createFixedClock(TEST_NOW));
+    await service.ready();
+
+    const result = await service.importParticipants(parseParticipantCsv(csv, [TEST_SESSION_ID], TEST_SESSION_ID).rows, true);
+
+    expect(result.message).toBe('Preview: 2 enrolled, 2 queued, 1 rejected. Nothing has been saved yet.');
+    expect(service.getState(TEST_SESSION_ID)).toMatchObject({ enrolled: [], waitingQueue: [] });
+    expect(await repository.load()).toMatchObject({ enrolled: [], waitingQueue: [] });
+  });
+
+  it('applies the session rules: nobody is imported into a session whose enrollment has closed', async () => {
+    const closed = makeSession({ enrollmentClosesAt: new Date(TEST_NOW.getTime() - 60 * 1000) });
+    const service = await createService([closed]);
+
+    const preview = await service.importParticipants(parseParticipantCsv(csv, [TEST_SESSION_ID], TEST_SESSION_ID).rows, true);
+    const result = await service.importParticipants(parseParticipantCsv(csv, [TEST_SESSION_ID], TEST_SESSION_ID).rows, false);
+
+    expect(preview.outcomes.map(o => o.placement)).toEqual(['rejected', 'rejected', 'rejected', 'rejected', 'rejected']);
+    expect(result.outcomes[0].message).toMatch(/^Enrollment closed on /);
+    expect(service.getState(TEST_SESSION_ID)).toMatchObject({ enrolled: [], waitingQueue: [] });
+  });
+
+  it('applies the second session priority window to imported rows', async () => {
+    const firstQueue = Array.from({ length: 18 }, (_, index) =>
+      makeParticipant({ name: `Queued ${index + 1}`, sessionId: 'session-1' }));
+    const service = await createService(SESSIONS, { waitingQueue: firstQueue }, BEFORE_CUTOFF);
+    const rows = parseParticipantCsv('name,quota,type\nQueued 17,no,local\nQueued 18,no,local\nNewcomer,no,local\n', ['session-2'], 'session-2').rows;
+
+    const result = await service.importParticipants(rows, false);
+
+    expect(result.outcomes.map(o => [o.name, o.placement])).toEqual([
+      ['Queued 17', 'enrolled'],
+      ['Queued 18', 'rejected'],
+      ['Newcomer', 'queued'],
+    ]);
+    expect(result.outcomes[1].message).toContain('You are at position 18');
+    expect(service.getState('session-2')).toMatchObject({ enrolled: [{ name: 'Queued 17' }], waitingQueue: [{ name: 'Newcomer' }] });
+  });
+
+  it('places each row through enroll_participant, which locks the session, when it is installed', async () => {
+    const repository = new DatabaseFunctionRepository([smallSession], {}, {
+      // The database has just given the last seats to people enrolling at the same time
+      enroll_participant: params => ({
+        status: 'queued',
+        message: 'Added to waiting queue',
+        participant: {
+          id: `waiting-${params.p_request_id}`, name: params.p_name, needs_diversity_quota: params.p_needs_diversity_quota,
+          participation_type: params.p_participation_type, enrolled_at: TEST_NOW.toISOString(), session_id: params.p_session_id,
+        },
+      }),
+    });
+    const service = new EnrollmentService(repository, undefined, createFixedClock(TEST_NOW));
+    await service.ready();
+
+    const result = await service.importParticipants(parseParticipantCsv('name,quota,type\nAino,no,local\n', [TEST_SESSION_ID], TEST_SESSION_ID).rows, false);
+
+    expect(repository.calls.filter(call => call.name === 'enroll_participant').map(call => call.params.p_name)).toEqual(['Aino']);
+    expect(result.outcomes.map(o => o.placement)).toEqual(['queued']);
+    expect((await repository.load()).enrolled).toEqual([]);
+  });
+
+  it('is refused for anyone but an organiser', async () => {
+    auth.organiser = false;
+    const service = await createService([smallSession]);
+
+    const result = await service.importParticipants(parseParticipantCsv(csv, [TEST_SESSION_ID], TEST_SESSION_ID).rows, false);
+
+    expect(result).toMatchObject({ success: false, outcomes: [] });
+    expect(service.getState(TEST_SESSION_ID).enrolled).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  buildNotification,
+  ConsoleMailTransport,
+  createMailTransport,
+  EdgeFunctionMailTransport,
+  MailTransport,
+  MemoryMailTransport,
+  notifyParticipant,
+} from '@/lib/notifications';
+import { createService, makeParticipant, makeSession, request, TEST_NOW, TEST_SESSION_ID } from './helpers';
+
+// Stand-in for a Supabase client that only answers Edge Function calls
+function fakeClient(invoke: (name: string, options: unknown) => Promise<unknown>): SupabaseClient {
+  return { functions: { invoke } } as unknown as SupabaseClient;
+}
+
+const session = makeSession({ description: 'Vibe Coding 17.3.', location: 'Room 101', teamsLink: 'https://teams.example/meet' });
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('buildNotification', () => {
+  it('tells an enrolled participant where to come and how to manage the enrollment', () => {
+    const notification = buildNotification('enrolled', makeParticipant({ name: 'Aino', contactEmail: 'aino@example.com' }), session, {
+      managementLink: 'https://example.com/?manage=abc',
+    });
+
+    expect(notification).toMatchObject({ kind: 'enrolled', to: 'aino@example.com', subject: "You're enrolled: Vibe Coding 17.3." });
+    expect(notification.text).toContain('Hi Aino,');
+    expect(notification.text).toContain('Location: Room 101');
+    expect(notification.text).toContain('Manage your enrollment: https://example.com/?manage=abc');
+  });
+
+  it('gives remote participants the Teams link instead of the room', () => {
+    const notification = buildNotification('promoted', makeParticipant({ participationType: 'remote' }), session);
+
+    expect(notification.text).toContain('You are joining remotely: https://teams.example/meet');
+    expect(notification.text).not.toContain('Room 101');
+  });
+
+  it('mentions the queue position when known', () => {
+    const notification = buildNotification('queued', makeParticipant(), session, { queuePosition: 3 });
+
+    expect(notification.text).toContain('you are in the waiting queue at position 3.');
+  });
+});
+
+describe('notifyParticipant', () => {
+  it('sends through the given transport', async () => {
+    const transport = new MemoryMailTransport();
+
+    await notifyParticipant(transport, 'reminder', makeParticipant({ contactEmail: 'aino@example.com' }), session);
+
+    expect(transport.sent.map(n => [n.kind, n.to])).toEqual([['reminder', 'aino@example.com']]);
+  });
+
+  it('skips participants without an email unless the transport looks the address up', async () => {
+    const transport = new MemoryMailTransport();
+    const invoke = vi.fn(async () => ({ data: { sent: true }, error: null }));
+
+    await notifyParticipant(transport, 'reminder', makeParticipant(), session);
+    await notifyParticipant(new EdgeFunctionMailTransport(fakeClient(invoke)), 'reminder', makeParticipant(), session);
+
+    expect(transport.sent).toEqual([]);
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it('never lets a failed delivery interrupt the change that triggered it', async () => {
+    const failing: MailTransport = { send: vi.fn(async () => { throw new Error('SMTP down'); }) };
+
+    await expect(notifyParticipant(failing, 'cancelled', makeParticipant({ contactEmail: 'aino@example.com' }), session)).resolves.toBeUndefined();
+    expect(failing.send).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('EdgeFunctionMailTransport', () => {
+  it('sends only the kind, the participant and the token, never an address or text', async () => {
+    const invoke = vi.fn(async () => ({ data: { sent: true }, error: null }));
+    const notification = buildNotification('enrolled', makeParticipant({ id: 'enrolled-1', contactEmail: 'aino@example.com' }), session, {
+      managementToken: 'token-1',
+    });
+
+    await new EdgeFunctionMailTransport(fakeClient(invoke)).send(notification);
+
+    expect(invoke).toHaveBeenCalledWith('send-notification', {
+      body: { kind: 'enrolled', participantId: 'enrolled-1', managementToken: 'token-1' },
+    });
+  });
+
+  it('reports errors from the function', async () => {
+    const client = fakeClient(async () => ({ data: null, error: new Error('502') }));
+
+    await expect(new EdgeFunctionMailTransport(client).send(buildNotification('promoted', makeParticipant(), session))).rejects.toThrow('502');
+  });
+});
+
+describe('createMailTransport', () => {
+  it('uses the Edge Function on the given client only when email is enabled', () => {
+    const client = fakeClient(async () => ({ data: null, error: null }));
+
+    expect(createMailTransport(client)).toBeInstanceOf(ConsoleMailTransport);
+    vi.stubEnv('NEXT_PUBLIC_EMAIL_NOTIFICATIONS', 'true');
+    expect(createMailTransport(client)).toBeInstanceOf(EdgeFunctionMailTransport);
+    expect(createMailTransport(null)).toBeInstanceOf(ConsoleMailTransport);
+  });
+});
+
+describe('enrollment notifications', () => {
+  it('confirms the enrollment with the management link, and the seat to whoever is promoted', async () => {
+    const transport = new MemoryMailTransport();
+    const service = await createService([makeSession({ capacity: 1, menQuota: 0, womenNonBinarySpots: 1 })], {}, undefined, transport);
+
+    const aino = await service.enroll(request({ name: 'Aino', contactEmail: 'aino@example.com', emailConsentAt: TEST_NOW }));
+    await service.enroll(request({ name: 'Helmi', contactEmail: 'helmi@example.com', emailConsentAt: TEST_NOW }));
+    await service.cancelWithManagementToken(aino.managementToken!);
+
+    expect(transport.sent.map(n => [n.kind, n.to])).toEqual([
+      ['enrolled', 'aino@example.com'],
+      ['queued', 'helmi@example.com'],
+      ['cancelled', 'aino@example.com'],
+      ['promoted', 'helmi@example.com'],
+    ]);
+    expect(transport.sent[0].text).toContain(aino.managementLink!);
+    expect(service.getState(TEST_SESSION_ID).enrolled.map(p => p.name)).toEqual(['Helmi']);
+  });
+
+  it('sends nothing to someone who gave no consent', async () => {
+    const transport = new MemoryMailTransport();
+    const service = await createService(undefined, {}, undefined, transport);
+
+    await service.enroll(request({ contactEmail: 'aino@example.com' }));
+
+    expect(transport.sent).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EnrollmentService } from '@/lib/enrollment';
+import { addToOutbox, loadOutbox, PendingEnrollment } from '@/lib/outbox';
+import { loadCheckInOutbox } from '@/lib/checkin';
+import { loadLocalArchive } from '@/lib/archive';
+import { createFixedClock } from '@/lib/clock';
+import { DatabaseFunctionRepository, makeParticipant, makeSession, request, TEST_NOW, TEST_SESSION_ID } from './helpers';
+
+let items: Map<string, string>;
+
+beforeEach(() => {
+  items = new Map();
+  // The outbox is only kept in a browser
+  vi.stubGlobal('window', { location: { origin: 'https://enroll.example', pathname: '/' } });
+  vi.stubGlobal('navigator', { onLine: true });
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function pendingEnrollment(overrides: Partial<PendingEnrollment> = {}): PendingEnrollment {
+  return {
+    requestId: 'request-1',
+    sessionId: TEST_SESSION_ID,
+    participant: { name: 'Aino', needsDiversityQuota: false, participationType: 'local', sessionId: TEST_SESSION_ID },
+    managementToken: 'token-1',
+    createdAt: TEST_NOW,
+    attempts: 0,
+    ...overrides,
+  };
+}
+
+describe('loadOutbox', () => {
+  it('revives the dates of what was saved', () => {
+    const consent = new Date('2026-02-28T10:00:00Z');
+    addToOutbox(pendingEnrollment({ participant: { ...pendingEnrollment().participant, contactEmail: 'aino@example.com', emailConsentAt: consent } }));
+
+    expect(loadOutbox()).toEqual([pendingEnrollment({
+      participant: { ...pendingEnrollment().participant, contactEmail: 'aino@example.com', emailConsentAt: consent },
+    })]);
+  });
+
+  it('skips damaged entries and keeps the rest', () => {
+    items.set('vibe-coding-outbox', JSON.stringify([
+      { requestId: 'no-participant', sessionId: TEST_SESSION_ID, createdAt: TEST_NOW, attempts: 0 },
+      { ...pendingEnrollment({ requestId: 'bad-date' }), createdAt: 'yesterday' },
+      pendingEnrollment({ requestId: 'good' }),
+      null,
+    ]));
+
+    expect(loadOutbox().map(entry => entry.requestId)).toEqual(['good']);
+  });
+
+  it('is empty when the stored value is not a list', () => {
+    items.set('vibe-coding-outbox', '{"requestId":"request-1"}');
+
+    expect(loadOutbox()).toEqual([]);
+  });
+});
+
+describe('other stored lists', () => {
+  it('leave out check-ins and archived participants that cannot be read', () => {
+    const aino = makeParticipant({ name: 'Aino', checkedInAt: TEST_NOW });
+    items.set('vibe-coding-checkin-outbox', JSON.stringify([
+      { participantId: aino.id, sessionId: TEST_SESSION_ID, participant: aino, walkIn: false, createdAt: TEST_NOW },
+      { participantId: 'someone-else', sessionId: TEST_SESSION_ID, participant: aino, walkIn: false, createdAt: TEST_NOW },
+    ]));
+    items.set('vibe-coding-archive', JSON.stringify([
+      { sessionId: TEST_SESSION_ID, archivedAt: TEST_NOW, enrolled: [aino, { name: 'No id' }], waitingQueue: 'nobody' },
+      { sessionId: 'missing-date' },
+    ]));
+
+    expect(loadCheckInOutbox()).toEqual([{ participantId: aino.id, sessionId: TEST_SESSION_ID, participant: aino, walkIn: false, createdAt: TEST_NOW }]);
+    expect(loadLocalArchive()).toEqual([{ sessionId: TEST_SESSION_ID, archivedAt: TEST_NOW, enrolled: [aino], waitingQueue: [] }]);
+  });
+});
+
+describe('offline enrollment', () => {
+  async function createOfflineService() {
+    const repository = new DatabaseFunctionRepository([makeSession({ capacity: 1, menQuota: 0, womenNonBinarySpots: 1 })], {});
+    const service = new EnrollmentService(repository, undefined, createFixedClock(TEST_NOW));
+    await service.ready();
+    vi.stubGlobal('navigator', { onLine: false });
+    return { repository, service };
+  }
+
+  it('keeps the enrollment on the device with its management link', async () => {
+    const { repository, service } = await createOfflineService();
+
+    const result = await service.enroll(request({ name: 'Aino' }));
+
+    expect(result).toMatchObject({ success: true, pendingSync: true });
+    expect(result.managementLink).toContain(encodeURIComponent(result.managementToken!));
+    expect(service.getPendingEnrollments()).toMatchObject([{ participant: { name: 'Aino' }, managementToken: result.managementToken, attempts: 0 }]);
+    expect(repository.calls).toEqual([]);
+  });
+
+  it('sends the outbox in order once back online, with the seats as they are then', async () => {
+    const { repository, service } = await createOfflineService();
+    const aino = await service.enroll(request({ name: 'Aino' }));
+    await service.enroll(request({ name: 'Helmi' }));
+    vi.stubGlobal('navigator', { onLine: true });
+
+    const outcomes = await service.syncOutbox();
+
+    expect(outcomes.map(o => [o.name, o.success, o.addedToQueue, o.queuePosition])).toEqual([
+      ['Aino', true, false, undefined],
+      ['Helmi', true, true, 1],
+    ]);
+    expect(service.getPendingEnrollments()).toEqual([]);
+    expect((await repository.load()).enrolled.map(p => p.name)).toEqual(['Aino']);
+    // The management link handed out offline works for the enrollment that was sent
+    expect((await service.findByManagementToken(aino.managementToken!))?.participant.name).toBe('Aino');
+  });
+
+  it('does not enroll twice when an earlier attempt got through but its reply was lost', async () => {
+    const { repository, service } = await createOfflineService();
+    const aino = await service.enroll(request({ name: 'Aino' }));
+    vi.stubGlobal('navigator', { onLine: true });
+    await service.syncOutbox();
+    // Sent again, as if the device never heard back
+    addToOutbox(pendingEnrollment({ managementToken: aino.managementToken }));
+
+    const outcomes = await service.syncOutbox();
+
+    expect(outcomes).toMatchObject([{ name: 'Aino', success: true, addedToQueue: false }]);
+    expect((await repository.load()).enrolled.map(p => p.name)).toEqual(['Aino']);
+  });
+});
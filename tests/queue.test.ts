@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { SECOND_SESSION_CUTOFF, SESSIONS } from '@/types';
+import { createFixedClock } from '@/lib/clock';
+import { hashManagementToken } from '@/lib/managementToken';
+import { createService, makeParticipant } from './helpers';
+
+const BEFORE_CUTOFF = createFixedClock(new Date(SECOND_SESSION_CUTOFF.getTime() - 60 * 1000));
+const AFTER_CUTOFF = createFixedClock(new Date(SECOND_SESSION_CUTOFF.getTime() + 60 * 1000));
+
+// The first session's waiting queue: diversity quota at odd positions, remote at every third
+const firstSessionQueue = (count: number) =>
+  Array.from({ length: count }, (_, index) => makeParticipant({
+    id: `waiting-${index + 1}`,
+    name: `Queued ${index + 1}`,
+    sessionId: 'session-1',
+    needsDiversityQuota: index % 2 === 0,
+    participationType: (index + 1) % 3 === 0 ? 'remote' : 'local',
+  }));
+
+// The queue with the participant at `position` holding `token`
+async function queueWithToken(position: number, token: string) {
+  const queue = firstSessionQueue(20);
+  queue[position - 1] = { ...queue[position - 1], managementTokenHash: await hashManagementToken(token) };
+  return queue;
+}
+
+describe('getQueueStatus', () => {
+  it('gives the position and who is ahead on the same quota track and seat type', async () => {
+    const service = await createService(SESSIONS, { waitingQueue: await queueWithToken(7, 'token-7') }, AFTER_CUTOFF);
+
+    const status = await service.getQueueStatus(' token-7 ');
+
+    // Ahead: 1-6. Diversity quota at 1, 3, 5; of the local ones only 1 and 5 (3 is remote)
+    expect(status).toMatchObject({
+      sessionId: 'session-1',
+      position: 7,
+      quotaTrack: 'diversity-quota',
+      participationType: 'local',
+      aheadOnSameTrack: 2,
+      aheadDiversityQuota: 3,
+      aheadWomenNonBinary: 3,
+      priorityWindows: [],
+    });
+  });
+
+  it('tells whether the position is inside the second session priority window while it is open', async () => {
+    const inside = await createService(SESSIONS, { waitingQueue: await queueWithToken(17, 'token-17') }, BEFORE_CUTOFF);
+    const outside = await createService(SESSIONS, { waitingQueue: await queueWithToken(18, 'token-18') }, BEFORE_CUTOFF);
+
+    const [insideWindow] = (await inside.getQueueStatus('token-17'))!.priorityWindows;
+    const [outsideWindow] = (await outside.getQueueStatus('token-18'))!.priorityWindows;
+
+    expect(insideWindow).toMatchObject({ eligible: true, rule: { maxQueuePosition: 17 } });
+    expect(insideWindow.session.id).toBe('session-2');
+    expect(outsideWindow.eligible).toBe(false);
+  });
+
+  it('is null for someone with a seat, and for an unknown link', async () => {
+    const token = 'token-enrolled';
+    const service = await createService(SESSIONS, {
+      enrolled: [makeParticipant({ sessionId: 'session-1', managementTokenHash: await hashManagementToken(token) })],
+    }, AFTER_CUTOFF);
+
+    expect(await service.getQueueStatus(token)).toBeNull();
+    expect(await service.getQueueStatus('unknown')).toBeNull();
+  });
+});
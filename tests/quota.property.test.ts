@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { EnrollmentService } from '@/lib/enrollment';
+import { createService, makeSession, TEST_SESSION_ID } from './helpers';
+
+// Session sizes small enough that a sequence of enrollments fills every limit
+const sessionArbitrary = fc
+  .record({
+    menQuota: fc.integer({ min: 0, max: 4 }),
+    womenNonBinarySpots: fc.integer({ min: 1, max: 8 }),
+    capacity: fc.integer({ min: 1, max: 14 }),
+    localCapacity: fc.option(fc.integer({ min: 0, max: 10 }), { nil: undefined }),
+    remoteCapacity: fc.option(fc.integer({ min: 0, max: 10 }), { nil: undefined }),
+  })
+  .map(limits => makeSession(limits));
+
+const applicantArbitrary = fc.record({
+  needsDiversityQuota: fc.boolean(),
+  participationType: fc.constantFrom('local' as const, 'remote' as const),
+  acceptsRemoteFallback: fc.boolean(),
+});
+
+function expectWithinLimits(service: EnrollmentService): void {
+  const stats = service.getEnrollmentStats(TEST_SESSION_ID);
+
+  expect(stats.total).toBeLessThanOrEqual(stats.capacity);
+  expect(stats.women).toBeLessThanOrEqual(stats.womenNonBinarySpots);
+  // Men only go beyond their quota once the women and non-binary spots are all taken
+  if (stats.men > stats.menQuota) {
+    expect(stats.women).toBe(stats.womenNonBinarySpots);
+  }
+  if (stats.localCapacity !== undefined) {
+    expect(stats.local).toBeLessThanOrEqual(stats.localCapacity);
+  }
+  if (stats.remoteCapacity !== undefined) {
+    expect(stats.remote).toBeLessThanOrEqual(stats.remoteCapacity);
+  }
+}
+
+describe('quota invariants', () => {
+  it('no sequence of enrollments exceeds capacity, quotas or seat limits', async () => {
+    await fc.assert(
+      fc.asyncProperty(sessionArbitrary, fc.array(applicantArbitrary, { maxLength: 30 }), async (session, applicants) => {
+        const service = await createService([session]);
+
+        for (const [index, applicant] of applicants.entries()) {
+          await service.enroll({ ...applicant, name: `Applicant ${index}`, sessionId: TEST_SESSION_ID });
+          expectWithinLimits(service);
+        }
+      }),
+      { numRuns: 60 }
+    );
+  });
+
+  it('every applicant ends up enrolled, queued or turned away, and never in two places', async () => {
+    await fc.assert(
+      fc.asyncProperty(sessionArbitrary, fc.array(applicantArbitrary, { maxLength: 30 }), async (session, applicants) => {
+        const service = await createService([session]);
+        let placed = 0;
+
+        for (const [index, applicant] of applicants.entries()) {
+          const result = await service.enroll({ ...applicant, name: `Applicant ${index}`, sessionId: TEST_SESSION_ID });
+          if (result.success) {
+            placed++;
+          }
+        }
+
+        const state = service.getState(TEST_SESSION_ID);
+        const ids = [...state.enrolled, ...state.waitingQueue].map(p => p.id);
+        expect(ids.length).toBe(placed);
+        expect(new Set(ids).size).toBe(ids.length);
+      }),
+      { numRuns: 60 }
+    );
+  });
+
+  it('a freed seat never breaks the limits when someone is promoted from the queue', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        sessionArbitrary,
+        fc.array(applicantArbitrary, { minLength: 1, maxLength: 30 }),
+        fc.array(fc.nat(), { maxLength: 10 }),
+        async (session, applicants, cancellations) => {
+          const service = await createService([session]);
+          const tokens: string[] = [];
+
+          for (const [index, applicant] of applicants.entries()) {
+            const result = await service.enroll({ ...applicant, name: `Applicant ${index}`, sessionId: TEST_SESSION_ID });
+            if (result.managementToken) {
+              tokens.push(result.managementToken);
+            }
+          }
+          for (const pick of cancellations) {
+            if (tokens.length === 0) {
+              break;
+            }
+            const [token] = tokens.splice(pick % tokens.length, 1);
+            await service.cancelWithManagementToken(token);
+            const stats = service.getEnrollmentStats(TEST_SESSION_ID);
+            expect(stats.total).toBeLessThanOrEqual(stats.capacity);
+            expect(stats.women).toBeLessThanOrEqual(stats.womenNonBinarySpots);
+          }
+        }
+      ),
+      { numRuns: 40 }
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MAX_CAPACITY } from '@/types';
+import { EnrollmentService } from '@/lib/enrollment';
+import {
+  InMemoryEnrollmentRepository,
+  LocalStorageEnrollmentRepository,
+  mapRowToParticipant,
+  mapRowToSession,
+} from '@/lib/repository';
+import { createFixedClock, helsinkiDate, helsinkiDateTime } from '@/lib/clock';
+import { makeParticipant, makeSession, request, TEST_NOW, TEST_SESSION_ID } from './helpers';
+
+let items: Map<string, string>;
+
+beforeEach(() => {
+  items = new Map();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('row mapping', () => {
+  it('reads a session row, with times from the slot when the row has none', () => {
+    const session = mapRowToSession({ id: 's', date: '2026-04-07', time_slot: '11-14', capacity: null, enrollment_rules: null });
+
+    expect(session).toMatchObject({
+      id: 's',
+      date: helsinkiDate('2026-04-07'),
+      startsAt: helsinkiDateTime('2026-04-07', 11),
+      endsAt: helsinkiDateTime('2026-04-07', 14),
+      capacity: MAX_CAPACITY,
+      rules: [],
+    });
+  });
+
+  it('reads a participant row, placing rows without a session in the first one', () => {
+    expect(mapRowToParticipant({
+      id: 'enrolled-1', name: 'Aino', needs_diversity_quota: false, participation_type: 'remote',
+      enrolled_at: '2026-02-01T10:00:00Z', session_id: null, accepts_remote_fallback: null, checked_in_at: null,
+    })).toEqual({
+      id: 'enrolled-1', name: 'Aino', needsDiversityQuota: false, participationType: 'remote',
+      enrolledAt: new Date('2026-02-01T10:00:00Z'), sessionId: 'session-1', acceptsRemoteFallback: false, checkedInAt: undefined,
+    });
+  });
+});
+
+describe('InMemoryEnrollmentRepository', () => {
+  it('is shared by services like one database by many browsers', async () => {
+    const repository = new InMemoryEnrollmentRepository([makeSession()]);
+    const first = new EnrollmentService(repository, undefined, createFixedClock(TEST_NOW));
+    const second = new EnrollmentService(repository, undefined, createFixedClock(TEST_NOW));
+    await Promise.all([first.ready(), second.ready()]);
+
+    await first.enroll(request({ name: 'Aino' }));
+    await second.enroll(request({ name: 'Helmi' }));
+
+    expect((await repository.load()).enrolled.map(p => p.name)).toEqual(['Aino', 'Helmi']);
+  });
+
+  it('hands out copies, so changing a loaded participant does not change the stored one', async () => {
+    const repository = new InMemoryEnrollmentRepository([makeSession()], { enrolled: [makeParticipant({ name: 'Aino' })] });
+
+    (await repository.load()).enrolled[0].name = 'Changed';
+
+    expect((await repository.load()).enrolled[0].name).toBe('Aino');
+  });
+
+  it('keeps the participant id when moving between the lists', async () => {
+    const helmi = makeParticipant({ id: 'waiting-1', name: 'Helmi' });
+    const repository = new InMemoryEnrollmentRepository([makeSession()], { waitingQueue: [helmi] });
+
+    await repository.moveParticipant(helmi, 'waitingQueue', 'enrolled');
+
+    expect(await repository.load()).toMatchObject({ enrolled: [{ id: 'waiting-1' }], waitingQueue: [] });
+  });
+});
+
+describe('LocalStorageEnrollmentRepository', () => {
+  it('keeps the enrollments in this browser across page loads', async () => {
+    const first = new EnrollmentService(new LocalStorageEnrollmentRepository(), undefined, createFixedClock(TEST_NOW));
+    await first.ready();
+    await first.enroll(request({ name: 'Aino', sessionId: 'session-1' }));
+
+    const reloaded = new EnrollmentService(new LocalStorageEnrollmentRepository(), undefined, createFixedClock(TEST_NOW));
+    await reloaded.ready();
+
+    expect(reloaded.getState('session-1').enrolled.map(p => p.name)).toEqual(['Aino']);
+  });
+
+  it('archives past sessions into this browser\'s archive, without contact details', async () => {
+    const repository = new LocalStorageEnrollmentRepository();
+    const aino = makeParticipant({ name: 'Aino', contactEmail: 'aino@example.com', managementTokenHash: 'hash-aino' });
+    repository.writeCache({ state: { sessions: { [TEST_SESSION_ID]: { enrolled: [aino], waitingQueue: [] } } }, sessions: [makeSession()] });
+    const afterSession = helsinkiDateTime('2026-03-18', 9);
+
+    await repository.archivePastSessions(afterSession);
+
+    expect((await repository.load()).enrolled).toEqual([]);
+    const [archive] = await repository.loadArchive();
+    expect(archive).toMatchObject({ sessionId: TEST_SESSION_ID, archivedAt: afterSession, waitingQueue: [] });
+    expect(archive.enrolled.map(p => [p.name, p.contactEmail, p.managementTokenHash])).toEqual([['Aino', undefined, undefined]]);
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { retryOperation } from '@/lib/enrollment';
+
+describe('retryOperation', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns the first successful result without waiting', async () => {
+    const operation = vi.fn().mockResolvedValue('saved');
+
+    await expect(retryOperation(operation, 'save')).resolves.toBe('saved');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries after a failure with exponential backoff', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new Error('fetch failed'))
+      .mockRejectedValueOnce(new Error('fetch failed'))
+      .mockResolvedValue('saved');
+
+    const result = retryOperation(operation, 'save');
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2000);
+    await expect(result).resolves.toBe('saved');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last retry and rethrows the last error', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new Error('first'))
+      .mockRejectedValueOnce(new Error('second'))
+      .mockRejectedValueOnce(new Error('last'));
+
+    const result = retryOperation(operation, 'save', 2);
+    const assertion = expect(result).rejects.toThrow('last');
+    await vi.advanceTimersByTimeAsync(3000);
+
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('caps the delay between attempts at ten seconds', async () => {
+    const operation = vi.fn().mockRejectedValue(new Error('timeout'));
+
+    const result = retryOperation(operation, 'save', 5);
+    const assertion = expect(result).rejects.toThrow('timeout');
+
+    // 1 + 2 + 4 + 8 seconds, then 10 instead of 16
+    await vi.advanceTimersByTimeAsync(24999);
+    expect(operation).toHaveBeenCalledTimes(5);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(6);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { SECOND_SESSION_CUTOFF, SESSIONS } from '@/types';
+import { createFixedClock, helsinkiDateTime } from '@/lib/clock';
+import { getEnrollmentPhase, getEnrollmentWindow } from '@/lib/rules';
+import { createService, makeParticipant, makeSession, request, TEST_SESSION_ID } from './helpers';
+
+const BEFORE_CUTOFF = createFixedClock(new Date(SECOND_SESSION_CUTOFF.getTime() - 60 * 1000));
+const AFTER_CUTOFF = createFixedClock(new Date(SECOND_SESSION_CUTOFF.getTime() + 60 * 1000));
+
+// The first session's waiting queue, in order: 'Queued 1' is at position 1
+const firstSessionQueue = (count: number) =>
+  Array.from({ length: count }, (_, index) =>
+    makeParticipant({ id: `waiting-${index + 1}`, name: `Queued ${index + 1}`, sessionId: 'session-1' })
+  );
+
+describe('second-session priority window', () => {
+  it('lets the first 17 in the first session queue enroll directly before the cutoff', async () => {
+    const service = await createService(SESSIONS, { waitingQueue: firstSessionQueue(20) }, BEFORE_CUTOFF);
+
+    const result = await service.enroll(request({ name: 'Queued 17', sessionId: 'session-2' }));
+
+    expect(result).toMatchObject({ success: true, message: 'Successfully enrolled!' });
+    expect(service.getState('session-2').enrolled.map(p => p.name)).toEqual(['Queued 17']);
+  });
+
+  it('tells people further back in the first session queue that they have to wait', async () => {
+    const service = await createService(SESSIONS, { waitingQueue: firstSessionQueue(20) }, BEFORE_CUTOFF);
+
+    const result = await service.enroll(request({ name: 'queued 18 ', sessionId: 'session-2' }));
+
+    expect(result.success).toBe(true);
+    expect(result.message).toContain('You are at position 18');
+    expect(service.getState('session-2').enrolled).toEqual([]);
+    expect(service.getState('session-2').waitingQueue).toEqual([]);
+  });
+
+  it('recognises a queued name written without its diacritics, as duplicate detection does', async () => {
+    const queue = [makeParticipant({ name: 'Päivi  Mäkinen', sessionId: 'session-1' })];
+    const service = await createService(SESSIONS, { waitingQueue: queue }, BEFORE_CUTOFF);
+
+    const result = await service.enroll(request({ name: 'paivi makinen', sessionId: 'session-2' }));
+
+    expect(result).toMatchObject({ success: true, message: 'Successfully enrolled!' });
+  });
+
+  it('puts everyone else in the second session waiting queue before the cutoff', async () => {
+    const service = await createService(SESSIONS, { waitingQueue: firstSessionQueue(3) }, BEFORE_CUTOFF);
+
+    const result = await service.enroll(request({ name: 'Newcomer', sessionId: 'session-2' }));
+
+    expect(result).toMatchObject({ success: true, addedToQueue: true, queuePosition: 1 });
+    expect(result.message).toContain('only the first 17 participants');
+  });
+
+  it('opens the second session to everyone after the cutoff', async () => {
+    const service = await createService(SESSIONS, { waitingQueue: firstSessionQueue(3) }, AFTER_CUTOFF);
+
+    const result = await service.enroll(request({ name: 'Newcomer', sessionId: 'session-2' }));
+
+    expect(result).toMatchObject({ success: true, message: 'Successfully enrolled!' });
+  });
+
+  it('reports priority-window eligibility in the queue status', async () => {
+    const firstSessionFull = Array.from({ length: 17 }, () => makeParticipant({ sessionId: 'session-1' }));
+    const service = await createService(SESSIONS, { enrolled: firstSessionFull }, BEFORE_CUTOFF);
+    const result = await service.enroll(request({ name: 'Waiting', sessionId: 'session-1' }));
+
+    const status = await service.getQueueStatus(result.managementToken!);
+
+    expect(status?.position).toBe(1);
+    expect(status?.priorityWindows).toEqual([
+      expect.objectContaining({ eligible: true, session: expect.objectContaining({ id: 'session-2' }) }),
+    ]);
+  });
+});
+
+describe('enrollment schedule', () => {
+  const opensAt = helsinkiDateTime('2026-03-02', 9);
+  const scheduled = makeSession({ enrollmentOpensAt: opensAt });
+  const at = (date: Date) => createFixedClock(date);
+
+  it('labels a session upcoming, open, closed and past as time goes by', () => {
+    expect(getEnrollmentPhase(scheduled, new Date(opensAt.getTime() - 1))).toBe('upcoming');
+    expect(getEnrollmentPhase(scheduled, opensAt)).toBe('open');
+    expect(getEnrollmentPhase(scheduled, scheduled.startsAt)).toBe('closed');
+    expect(getEnrollmentPhase(scheduled, scheduled.endsAt)).toBe('past');
+  });
+
+  it('closes when the session starts unless it has its own closing time', () => {
+    expect(getEnrollmentWindow(scheduled).closesAt).toEqual(scheduled.startsAt);
+
+    const closesEarly = makeSession({ enrollmentClosesAt: helsinkiDateTime('2026-03-10', 16) });
+    expect(getEnrollmentPhase(closesEarly, helsinkiDateTime('2026-03-10', 16))).toBe('closed');
+  });
+
+  it('rejects enrollment before the session opens, in Finnish time', async () => {
+    const service = await createService([scheduled], {}, at(helsinkiDateTime('2026-03-02', 8, 59)));
+
+    const result = await service.enroll(request());
+
+    expect(result).toEqual({ success: false, message: 'Enrollment opens on Monday, 2 March 2026 at 09:00 EET.' });
+    expect(service.getEnrollmentStats(TEST_SESSION_ID).total).toBe(0);
+  });
+
+  it('accepts enrollment from the opening minute', async () => {
+    const service = await createService([scheduled], {}, at(opensAt));
+
+    expect((await service.enroll(request())).success).toBe(true);
+  });
+
+  it('rejects enrollment once the session has started', async () => {
+    const service = await createService([scheduled], {}, at(scheduled.startsAt));
+
+    const result = await service.enroll(request());
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('Enrollment closed on Tuesday, 17 March 2026 at 11:00 EET');
+  });
+});
@@ -0,0 +1,5 @@
+import { vi } from 'vitest';
+
+// The service logs every step with console.log/warn; keep test output readable
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'warn').mockImplementation(() => {});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readEnrollmentCache, writeEnrollmentCache } from '@/lib/storage';
+import { makeParticipant, makeSession } from './helpers';
+
+const STORAGE_KEY = 'vibe-coding-enrollment';
+const QUARANTINE_KEY = 'vibe-coding-enrollment-quarantine';
+
+let items: Map<string, string>;
+
+beforeEach(() => {
+  items = new Map();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const stored = () => JSON.parse(items.get(STORAGE_KEY)!);
+const quarantined = () => JSON.parse(items.get(QUARANTINE_KEY) || '[]');
+
+describe('readEnrollmentCache', () => {
+  it('reads back what was written, with dates revived', () => {
+    const participant = makeParticipant({ checkedInAt: new Date('2026-03-17T09:00:00Z') });
+    const data = { state: { sessions: { [participant.sessionId]: { enrolled: [participant], waitingQueue: [] } } }, sessions: [makeSession()] };
+
+    writeEnrollmentCache(data, 'local');
+
+    expect(readEnrollmentCache('local')).toEqual({ ...data, sessions: [{ ...makeSession(), rules: [] }] });
+  });
+
+  it('moves a single-session cache from version 1 to the first session and stores the upgraded copy', () => {
+    items.set(STORAGE_KEY, JSON.stringify({
+      state: { enrolled: [{ id: 'a', name: 'Aino', needsDiversityQuota: false, enrolledAt: '2025-01-01T10:00:00Z' }], waitingQueue: [] },
+      lastUpdated: '2025-01-02T10:00:00Z',
+    }));
+
+    const cached = readEnrollmentCache('local');
+
+    expect(cached?.state.sessions['session-1'].enrolled).toEqual([{
+      id: 'a', name: 'Aino', needsDiversityQuota: false, participationType: 'local', sessionId: 'session-1',
+      enrolledAt: new Date('2025-01-01T10:00:00Z'), emailConsentAt: undefined, checkedInAt: undefined,
+    }]);
+    expect(stored()).toMatchObject({ version: 3, backend: 'local' });
+  });
+
+  it('quarantines participants that fail validation and keeps the rest', () => {
+    items.set(STORAGE_KEY, JSON.stringify({
+      version: 3,
+      backend: 'local',
+      savedAt: '2026-03-01T10:00:00Z',
+      data: { state: { sessions: { 'session-1': { enrolled: [makeParticipant(), { id: 'b', name: 'No date' }], waitingQueue: [] } } } },
+    }));
+
+    const cached = readEnrollmentCache('local');
+
+    expect(cached?.state.sessions['session-1'].enrolled).toHaveLength(1);
+    expect(quarantined()).toMatchObject([{ reason: 'invalid participant in session-1', value: { id: 'b' } }]);
+    expect(stored().data.state.sessions['session-1'].enrolled).toHaveLength(1);
+  });
+
+  it('discards a cache written for another backend', () => {
+    writeEnrollmentCache({ state: { sessions: {} } }, 'https://other.supabase.co');
+
+    expect(readEnrollmentCache('local')).toBeNull();
+    expect(items.has(STORAGE_KEY)).toBe(false);
+  });
+
+  it('quarantines unreadable JSON and versions from the future', () => {
+    items.set(STORAGE_KEY, '{not json');
+    expect(readEnrollmentCache('local')).toBeNull();
+
+    items.set(STORAGE_KEY, JSON.stringify({ version: 99, backend: 'local', data: {} }));
+    expect(readEnrollmentCache('local')).toBeNull();
+
+    expect(quarantined().map((entry: { reason: string }) => entry.reason)).toEqual(['not valid JSON', 'unknown storage version 99']);
+  });
+
+  it('quarantines data that has none of the known shapes instead of treating it as version 1', () => {
+    for (const value of [{}, { foo: 1 }, [], [{ state: {} }], { state: { enrolled: 'x', waitingQueue: [] } }]) {
+      items.set(STORAGE_KEY, JSON.stringify(value));
+      expect(readEnrollmentCache('local')).toBeNull();
+      expect(items.has(STORAGE_KEY)).toBe(false);
+    }
+
+    expect(quarantined().map((entry: { reason: string }) => entry.reason)).toEqual(Array(5).fill('unrecognised data'));
+  });
+});
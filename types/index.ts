@@ -7,13 +7,60 @@ export interface Participant {
   participationType: ParticipationType;
   enrolledAt: Date;
   sessionId: string;
+  managementTokenHash?: string; // SHA-256 of the personal management token; only kept by the local-only repositories, the database keeps it in management_tokens
+  acceptsRemoteFallback?: boolean; // true if they are happy to join remotely when the room is full
+  contactEmail?: string; // Only kept with explicit consent; stored in participant_contacts, not the public tables
+  emailConsentAt?: Date;
+  checkedInAt?: Date; // Set at the door on the workshop day; unset means not (yet) seen
 }
 
 export interface Session {
   id: string;
-  date: Date;
-  timeSlot: string;
+  date: Date; // Midnight at the start of the session day in Finnish time
+  timeSlot: string; // Display text, e.g. '11-14'
+  startsAt: Date;
+  endsAt: Date;
   description?: string;
+  capacity: number;
+  menQuota: number;
+  womenNonBinarySpots: number;
+  localCapacity?: number; // Seats in the room; undefined means limited only by capacity
+  remoteCapacity?: number; // Remote seats; undefined means limited only by capacity
+  location?: string;
+  teamsLink?: string; // Meeting link for remote participants
+  enrollmentOpensAt?: Date;
+  enrollmentClosesAt?: Date;
+  rules?: EnrollmentRule[];
+  archivedAt?: Date; // Set once the session's lists have been moved to the archive (lib/archive.ts)
+}
+
+// Declarative enrollment rules attached to a session, evaluated by lib/rules.ts
+
+// Only people near the front of another session's waiting queue may enroll directly until `until`;
+// everyone else is put in this session's waiting queue
+export interface PriorityWindowRule {
+  type: 'priority-window';
+  sourceSessionId: string;
+  maxQueuePosition: number;
+  until: Date;
+}
+
+// Enrollment is accepted only between `opensAt` and `closesAt`
+export interface EnrollmentWindowRule {
+  type: 'enrollment-window';
+  opensAt?: Date;
+  closesAt?: Date;
+}
+
+export type EnrollmentRule = PriorityWindowRule | EnrollmentWindowRule;
+
+// Capacity and quota numbers that apply to one session
+export interface SessionPolicy {
+  capacity: number;
+  menQuota: number;
+  womenNonBinarySpots: number;
+  localCapacity?: number;
+  remoteCapacity?: number;
 }
 
 export interface EnrollmentState {
@@ -25,29 +72,60 @@ export interface MultiSessionEnrollmentState {
   sessions: { [sessionId: string]: EnrollmentState };
 }
 
+// Final lists of a session that has taken place; only organisers can read them
+export interface SessionArchive {
+  sessionId: string;
+  archivedAt: Date;
+  enrolled: Participant[];
+  waitingQueue: Participant[];
+}
+
+// Defaults for sessions that don't specify their own capacity and quotas
 export const MAX_CAPACITY = 20;
 export const MEN_QUOTA = 3;
 export const WOMEN_NON_BINARY_SPOTS = 17;
 
+// Second session enrollment restriction
+export const SECOND_SESSION_CUTOFF = new Date('2026-02-10T08:00:00+02:00'); // Feb 10, 2026, 8 AM Finnish time
+
+// Built-in sessions, used until the `sessions` table has been loaded (or when it is unavailable)
 export const SESSIONS: Session[] = [
   {
     id: 'session-1',
-    date: new Date('2026-03-17'),
+    date: new Date('2026-03-17T00:00:00+02:00'),
     timeSlot: '11-14',
-    description: 'First Vibe Coding Workshop'
+    startsAt: new Date('2026-03-17T11:00:00+02:00'),
+    endsAt: new Date('2026-03-17T14:00:00+02:00'),
+    description: 'First Vibe Coding Workshop',
+    capacity: MAX_CAPACITY,
+    menQuota: MEN_QUOTA,
+    womenNonBinarySpots: WOMEN_NON_BINARY_SPOTS,
+    location: 'Karvaamokuja'
   }, 
   {
     id: 'session-2',
-    date: new Date('2026-04-07'),
+    date: new Date('2026-04-07T00:00:00+03:00'), // Summer time (UTC+3) by then
     timeSlot: '11-14',
-    description: 'Second Vibe Coding Workshop'
+    startsAt: new Date('2026-04-07T11:00:00+03:00'),
+    endsAt: new Date('2026-04-07T14:00:00+03:00'),
+    description: 'Second Vibe Coding Workshop',
+    capacity: MAX_CAPACITY,
+    menQuota: MEN_QUOTA,
+    womenNonBinarySpots: WOMEN_NON_BINARY_SPOTS,
+    location: 'Karvaamokuja',
+    rules: [
+      {
+        // Only the first 17 in the first session's waiting queue can enroll directly before the cutoff
+        type: 'priority-window',
+        sourceSessionId: 'session-1',
+        maxQueuePosition: 17,
+        until: SECOND_SESSION_CUTOFF
+      }
+    ]
   }
 ];
 
 export const DEFAULT_SESSION_ID = 'session-1';
 
-// Second session enrollment restriction
-export const SECOND_SESSION_CUTOFF = new Date('2026-02-10T08:00:00+02:00'); // Feb 10, 2026, 8 AM Finnish time
-
 // Backward compatibility
 export const EVENT_DATE = SESSIONS[0].date;